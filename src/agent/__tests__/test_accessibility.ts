@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { PlotContext, chartAltText, chartDataTable, descriptionParts, plottedChart } from '../accessibility';
+import { getChartTypeSpec } from '../chartTypes';
+import type { ChartJsConfig } from '../render';
+
+const categoryConfig = (labels: unknown[], ...datasets: { label: string; data: (number | null)[] }[]): ChartJsConfig => ({
+  type: 'bar',
+  data: { labels, datasets },
+});
+
+const context = (chartType: string, overrides: Partial<PlotContext> = {}): PlotContext => ({
+  chartType,
+  spec: getChartTypeSpec(chartType)!,
+  xName: 'month',
+  yName: 'sales',
+  ...overrides,
+});
+
+describe('chartAltText', () => {
+  it('should name the chart, its axes and the extremes of the values', () => {
+    const chart = plottedChart(categoryConfig(['Jan', 'Feb', 'Mar'], { label: 'Sales', data: [120, 340, 90] }), context('bar', { title: 'Sales' }));
+    expect(chartAltText(chart)).toBe('Bar chart titled "Sales". Sales by month for 3 labels: Jan, Feb and Mar. Values range from 90 (Mar) to 340 (Feb).');
+  });
+
+  it('should describe the trend of lines and count missing values', () => {
+    const chart = plottedChart(categoryConfig(['Q1', 'Q2', 'Q3', 'Q4'], { label: 'Revenue', data: [100, 120, null, 150] }), context('line', { xName: 'quarter', yName: 'revenue' }));
+    expect(chartAltText(chart)).toBe(
+      'Line chart. Revenue by quarter for 4 labels, from Q1 to Q4. Values range from 100 (Q1) to 150 (Q4). ' +
+      'Trend: upward, from 100 in Q1 to 150 in Q4 (+50%). 1 value missing.'
+    );
+  });
+
+  it('should describe each series and leave rolling averages to a mention', () => {
+    const config = categoryConfig(
+      [Date.UTC(2024, 0, 1), Date.UTC(2024, 1, 1)],
+      { label: 'North', data: [5, 3] },
+      { label: 'South', data: [2, 2] },
+      { label: 'North (2-point average)', data: [5, 4] },
+      { label: 'South (2-point average)', data: [2, 2] }
+    );
+    const chart = plottedChart(config, context('line', { timeSeries: { rows: [], field: 'month', timezone: 'UTC', unit: 'month' }, derivedDatasets: 2 }));
+
+    expect(chart.labels).toEqual(['January 2024', 'February 2024']);
+    const text = chartAltText(chart);
+    expect(text).toContain('2 series: North and South.');
+    expect(text).toContain('North trend: downward, from 5 in January 2024 to 3 in February 2024 (−40%).');
+    expect(text).toContain('South trend: flat');
+    expect(text).toContain('Also shows North (2-point average) and South (2-point average).');
+  });
+
+  it('should give the shares of pie slices', () => {
+    const chart = plottedChart(categoryConfig(['A', 'B', 'C'], { label: 'Share', data: [5, 3, 2] }), context('pie', { xName: 'label', yName: 'value' }));
+    expect(chartAltText(chart)).toBe('Pie chart. Value by label for 3 slices: A, B and C. Total 10; largest A at 5 (50%), smallest C at 2 (20%).');
+  });
+
+  it('should give the ranges and correlation of scatter points', () => {
+    const config: ChartJsConfig = { type: 'scatter', data: { datasets: [{ label: 'Runs', data: [{ x: 1, y: 9 }, { x: 2, y: 5 }, { x: 3, y: 6 }, { x: 4, y: 1 }] }] } };
+    const chart = plottedChart(config, context('scatter', { xName: 'hours', yName: 'errors' }));
+    expect(chartAltText(chart)).toBe('Scatter plot. Errors against hours. 4 points, hours from 1 to 4 and errors from 1 to 9. Strong negative correlation (r = -0.90).');
+  });
+});
+
+describe('chartDataTable', () => {
+  const chart = plottedChart(
+    categoryConfig(['North', 'South | East'], { label: 'q1', data: [1, 3] }, { label: 'q2', data: [2, null] }),
+    context('bar', { xName: 'region', yName: 'value', title: 'Regions & quarters' })
+  );
+
+  it('should tabulate the values as Markdown', () => {
+    expect(chartDataTable(chart)).toBe([
+      '| region | q1 | q2 |',
+      '| --- | ---: | ---: |',
+      '| North | 1 | 2 |',
+      '| South \\| East | 3 | n/a |',
+    ].join('\n'));
+  });
+
+  it('should tabulate the values as HTML with a caption and scoped headers', () => {
+    const html = chartDataTable(chart, 'html');
+    expect(html).toContain('<caption>Regions &amp; quarters</caption>');
+    expect(html).toContain('<thead><tr><th scope="col">region</th><th scope="col">q1</th><th scope="col">q2</th></tr></thead>');
+    expect(html).toContain('<tr><th scope="row">South | East</th><td>3</td><td>n/a</td></tr>');
+  });
+
+  it('should return the description as tagged text parts', () => {
+    expect(descriptionParts({ altText: 'Bar chart.', table: '<table></table>', tableFormat: 'html' })).toEqual([
+      { type: 'text', text: 'Bar chart.', metadata: { kind: 'alt-text' } },
+      { type: 'text', text: '<table></table>', metadata: { kind: 'data-table', contentType: 'text/html' } },
+    ]);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { ChartInputSchema, chartInputJsonSchema, validateChartTaskInput } from '../chartInputSchema';
+
+const taskWith = (data: unknown) => ({
+  input: { id: 'm1', role: 'user', parts: [{ type: 'text', text: 'chart please' }, { type: 'data', mimeType: 'application/json', data }] },
+});
+
+describe('ChartInputSchema', () => {
+  it('should accept a valid request and normalise the chart type', () => {
+    const result = ChartInputSchema.safeParse({ chartType: 'Horizontal-Bar', data: [{ label: 'a', value: 1 }], options: { dpi: 2 } });
+    expect(result.success).toBe(true);
+    expect(result.success && result.data.chartType).toBe('horizontalBar');
+    expect(result.success && result.data.options).toEqual({ dpi: 2 }); // unknown options pass through to Chart.js
+  });
+
+  it('should report structural and row-level problems with their paths', () => {
+    const result = ChartInputSchema.safeParse({
+      chartType: 'bar',
+      data: [{ label: 'a', value: 1 }],
+      encoding: { y: 'value', colour: 'label' },
+      options: { width: -5 },
+    });
+    expect(result.success).toBe(false);
+    const paths = !result.success && result.error.issues.map(issue => issue.path.join('.'));
+    expect(paths).toEqual(['encoding', 'options.width']);
+
+    const rows = ChartInputSchema.safeParse({ chartType: 'scatter', data: [{ x: 1, y: 2 }, { x: 1 }] });
+    expect(!rows.success && rows.error.issues.map(issue => [issue.path, issue.message])).toEqual([
+      [['data', 1], 'missing numeric y (expected one of y, value)'],
+    ]);
+  });
+});
+
+describe('chartInputJsonSchema', () => {
+  it('should describe the request as JSON Schema', () => {
+    const schema = chartInputJsonSchema as any;
+    expect(schema.type).toBe('object');
+    expect(schema.required).toEqual(['chartType', 'data']);
+    expect(schema.properties.chartType.enum).toContain('polarArea');
+    expect(schema.properties.encoding.additionalProperties).toBe(false);
+    expect(schema).not.toHaveProperty('$schema');
+  });
+});
+
+describe('validateChartTaskInput', () => {
+  it('should prefix issue paths with the location of the data part', () => {
+    const result = validateChartTaskInput(taskWith({ chartType: 'pie', data: [{ label: 'a', value: -1 }] }));
+    expect(result.success).toBe(false);
+    expect(result.error?.errors[0].path).toEqual(['input', 'parts', 1, 'data', 'data', 0]);
+  });
+
+  it('should validate rows from data files and locate their problems in the file', () => {
+    const csv = Buffer.from('label,value\na,1\nb,-2\n').toString('base64');
+    const parts = [
+      { type: 'data', mimeType: 'application/json', data: { chartType: 'pie' } },
+      { type: 'file', filename: 'votes.csv', contentType: 'text/csv', data: csv },
+    ];
+    const result = validateChartTaskInput({ input: { id: 'm1', role: 'user', parts } });
+    expect(result.success).toBe(false);
+    expect(result.error?.errors[0].path).toEqual(['input', 'parts', 1, 'rows', 1]);
+
+    const broken = [parts[0], { ...parts[1], data: Buffer.from('label,value\na\n').toString('base64') }];
+    const parseResult = validateChartTaskInput({ input: { id: 'm1', role: 'user', parts: broken } });
+    expect(parseResult.error?.errors[0]).toMatchObject({ path: ['input', 'parts', 1, 'data'], message: 'votes.csv: line 2 has 1 fields, expected 2' });
+  });
+
+  it('should leave natural-language requests to the interpreter', () => {
+    const payload = { input: { id: 'm1', role: 'user', parts: [{ type: 'text', text: 'pie chart of votes' }, { type: 'data', mimeType: 'application/json', data: [{ party: 'A' }] }] } };
+    expect(validateChartTaskInput(payload).success).toBe(true);
+  });
+
+  it('should check a batch as a whole and leave its charts to their own tasks', () => {
+    const charts = [{ chartType: 'bar', data: [{ label: 'a' }] }, 'pie chart of votes'];
+    expect(validateChartTaskInput(taskWith({ charts, maxConcurrency: 2 })).success).toBe(true);
+
+    const result = validateChartTaskInput(taskWith({ charts: [], maxConcurrency: 64 }));
+    expect(result.error?.errors.map(issue => issue.path.join('.'))).toEqual(['input.parts.1.data.charts', 'input.parts.1.data.maxConcurrency']);
+  });
+
+  it('should require a data part', () => {
+    const result = validateChartTaskInput({ input: { id: 'm1', role: 'user', parts: [] } });
+    expect(result.success).toBe(false);
+    expect(result.error?.errors[0].path).toEqual(['input', 'parts']);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parseRefinement, refineChartRequest, ChartQuestion } from '../chartRefinement';
+import type { ChartInput } from '../chartInputSchema';
+import type { LLMClient } from '../../core/llm/LLMClient';
+
+const current: ChartInput = {
+  chartType: 'bar',
+  data: [{ region: 'North', product: 'A', revenue: 120 }, { region: 'South', product: 'B', revenue: 80 }],
+  encoding: { y: 'revenue' },
+  options: { title: 'Revenue' },
+};
+
+const question: ChartQuestion = { field: 'x', text: 'Which field should label the bar chart: region, product?', options: ['region', 'product'] };
+
+describe('parseRefinement', () => {
+  it('should recognise chart types, scales and titles', () => {
+    expect(parseRefinement('make it a line chart')).toEqual({ chartType: 'line' });
+    expect(parseRefinement('Horizontal bars please')).toEqual({ chartType: 'horizontalBar' });
+    expect(parseRefinement('log scale on y')).toEqual({ options: { valueScale: 'logarithmic' } });
+    expect(parseRefinement('set the title to "Q3 revenue"')).toEqual({ options: { title: 'Q3 revenue' } });
+    expect(parseRefinement('show it weekly with a 4-week rolling average')).toEqual({ options: { time: { resample: 'week', rollingAverage: 4 } } });
+    expect(parseRefinement('switch to the high contrast theme')).toEqual({ options: { theme: 'high-contrast' } });
+    expect(parseRefinement('please use colorblind-safe colours')).toEqual({ options: { accessibility: { colorblindSafe: true } } });
+    expect(parseRefinement('hmm, not sure')).toBeUndefined();
+  });
+
+  it('should read the answer to a pending question', () => {
+    expect(parseRefinement('Product', question)).toEqual({ encoding: { x: 'product' } });
+  });
+});
+
+describe('refineChartRequest', () => {
+  it('should merge the change into the current request', async () => {
+    const refined = await refineChartRequest(current, [{ type: 'text', text: 'use region, and a log scale' }], question);
+    expect(refined.encoding).toEqual({ x: 'region', y: 'revenue' });
+    expect(refined.options).toEqual({ title: 'Revenue', valueScale: 'logarithmic' });
+    expect(refined.data).toEqual(current.data);
+  });
+
+  it('should apply DataParts as patches', async () => {
+    const refined = await refineChartRequest(current, [{ type: 'data', mimeType: 'application/json', data: { chartType: 'pie', options: { title: 'Share' } } }]);
+    expect(refined.chartType).toBe('pie');
+    expect(refined.options?.title).toBe('Share');
+  });
+
+  it('should reject changes that make the request invalid', async () => {
+    await expect(refineChartRequest(current, [{ type: 'data', mimeType: 'application/json', data: { encoding: { y: 'profit' } } }]))
+      .rejects.toThrow("Could not apply the change to the chart: encoding.y: unknown field 'profit'");
+  });
+
+  it('should ask the LLM when no rule matches', async () => {
+    const llm = { generate: vi.fn().mockResolvedValue('{"chartType": "bar", "encoding": {"x": "product", "y": "revenue"}}') } satisfies LLMClient;
+    const refined = await refineChartRequest(current, [{ type: 'text', text: 'group it per product instead' }], undefined, llm);
+
+    expect(refined.encoding).toEqual({ x: 'product', y: 'revenue' });
+    expect(refined.data).toEqual(current.data);
+    const [messages] = llm.generate.mock.calls[0];
+    expect(messages[1].content).toContain('Instruction: group it per product instead');
+    expect(messages[1].content).not.toContain('North');
+  });
+});
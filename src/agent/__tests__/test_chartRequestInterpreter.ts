@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest';
+import { interpretChartRequest, rowsFromParts } from '../chartRequestInterpreter';
+import type { LLMClient } from '../../core/llm/LLMClient';
+
+// Deterministic stand-in for an LLM: always answers with the given reply
+function mockLLM(reply: string) {
+  return { generate: vi.fn().mockResolvedValue(reply) } satisfies LLMClient;
+}
+
+const rows = [
+  { region: 'North', revenue: 120 },
+  { region: 'South', revenue: 80 },
+];
+
+describe('interpretChartRequest', () => {
+  it('should build a chart request from the LLM answer and attach the rows', async () => {
+    const llm = mockLLM('```json\n{"chartType": "bar", "encoding": {"x": "region", "y": "revenue"}, "options": {"title": "Revenue by region"}}\n```');
+    const input = await interpretChartRequest('bar chart of revenue by region', rows, llm);
+
+    expect(input).toEqual({
+      chartType: 'bar',
+      encoding: { x: 'region', y: 'revenue' },
+      options: { title: 'Revenue by region' },
+      data: rows,
+    });
+    const [messages] = llm.generate.mock.calls[0];
+    expect(messages[1].content).toContain('bar chart of revenue by region');
+    expect(messages[1].content).toContain('Fields: region, revenue');
+  });
+
+  it('should use data from the answer when no rows are attached', async () => {
+    const llm = mockLLM('Here you go: {"chartType": "pie", "data": [{"label": "Yes", "value": 70}, {"label": "No", "value": 30}]}');
+    const input = await interpretChartRequest('pie chart: 70% yes, 30% no', [], llm);
+    expect(input.chartType).toBe('pie');
+    expect(input.data).toHaveLength(2);
+  });
+
+  it('should reject answers that do not pass the chart schema', async () => {
+    const llm = mockLLM('{"chartType": "bar", "encoding": {"x": "region", "y": "profit"}}');
+    await expect(interpretChartRequest('bar chart of profit', rows, llm))
+      .rejects.toThrow("Could not build a valid chart from the request: encoding.y: unknown field 'profit'");
+  });
+
+  it('should reject replies that are not JSON', async () => {
+    await expect(interpretChartRequest('chart it', rows, mockLLM('I cannot help with that.'))).rejects.toThrow('not valid JSON');
+  });
+});
+
+describe('rowsFromParts', () => {
+  it('should collect rows from data parts holding arrays or { data } objects', () => {
+    const collected = rowsFromParts([
+      { type: 'text', text: 'chart this' },
+      { type: 'data', mimeType: 'application/json', data: [rows[0]] },
+      { type: 'data', mimeType: 'application/json', data: { data: [rows[1], 'junk'] } },
+    ]);
+    expect(collected).toEqual(rows);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { getChartTypeSpec, validateChartData, buildChartData, formatChartDataIssue, labelFieldCandidates, ChartDataIssue } from '../chartTypes';
+
+const messages = (issues: ChartDataIssue[]) => issues.map(formatChartDataIssue);
+
+describe('getChartTypeSpec', () => {
+  it('should resolve chart type names case-insensitively', () => {
+    expect(getChartTypeSpec('polarArea')?.chartJsType).toBe('polarArea');
+    expect(getChartTypeSpec('horizontal-bar')).toMatchObject({ chartJsType: 'bar', indexAxis: 'y' });
+    expect(getChartTypeSpec('sankey')).toBeUndefined();
+  });
+});
+
+describe('validateChartData', () => {
+  it('should report each row missing a required field', () => {
+    const errors = validateChartData(getChartTypeSpec('bubble')!, [{ x: 1, y: 2, r: 3 }, { x: 1, y: 'n/a' }]);
+    expect(messages(errors)).toEqual([
+      'data[1]: y is not a number ("n/a")',
+      'data[1]: missing numeric r (expected one of r, radius, size)',
+    ]);
+  });
+
+  it('should reject negative slices for pie-like charts only', () => {
+    const data = [{ label: 'a', value: -1 }];
+    expect(messages(validateChartData(getChartTypeSpec('pie')!, data))).toEqual(['data[0]: value must not be negative for this chart type']);
+    expect(validateChartData(getChartTypeSpec('bar')!, data)).toEqual([]);
+  });
+
+  it('should reject empty data', () => {
+    expect(validateChartData(getChartTypeSpec('line')!, [])).toEqual([{ path: ['data'], message: 'at least one row is required' }]);
+  });
+});
+
+describe('validateChartData with an encoding', () => {
+  const rows = [{ region: 'North', q1: 10, q2: 12 }, { region: 'South', q1: 8 }];
+
+  it('should report encoding fields missing from the data', () => {
+    const errors = validateChartData(getChartTypeSpec('bar')!, rows, { x: 'area', y: ['q1', 'q4'] });
+    expect(messages(errors)).toEqual(["encoding.x: unknown field 'area'", "encoding.y[1]: unknown field 'q4'"]);
+  });
+
+  it('should treat missing values as gaps but reject non-numeric ones', () => {
+    const spec = getChartTypeSpec('line')!;
+    expect(validateChartData(spec, rows, { x: 'region', y: ['q1', 'q2'] })).toEqual([]);
+    expect(messages(validateChartData(spec, [...rows, { region: 'East', q1: 'lots' }], { x: 'region', y: 'q1' })))
+      .toEqual(['data[2]: q1 is not a number ("lots")']);
+  });
+});
+
+describe('buildChartData', () => {
+  it('should build one dataset per y field from wide rows', () => {
+    const rows = [{ region: 'North', q1: 10, q2: 12 }, { region: 'South', q1: 8 }];
+    const result = buildChartData(getChartTypeSpec('bar')!, rows, 'Sales', { x: 'region', y: ['q1', 'q2'] });
+    expect(result.labels).toEqual(['North', 'South']);
+    expect(result.datasets.map(ds => [ds.label, ds.data])).toEqual([['q1', [10, 8]], ['q2', [12, null]]]);
+    expect(result.datasets[0].borderColor).not.toBe(result.datasets[1].borderColor);
+  });
+
+  it('should group long rows into one dataset per series', () => {
+    const rows = [
+      { month: 'Jan', product: 'A', sales: 1 },
+      { month: 'Jan', product: 'B', sales: 2 },
+      { month: 'Feb', product: 'B', sales: 3 },
+    ];
+    const result = buildChartData(getChartTypeSpec('line')!, rows, 'Sales', { x: 'month', y: 'sales', series: 'product' });
+    expect(result.labels).toEqual(['Jan', 'Feb']);
+    expect(result.datasets.map(ds => [ds.label, ds.data])).toEqual([['A', [1, null]], ['B', [2, 3]]]);
+  });
+
+
+  it('should build point datasets for scatter charts', () => {
+    const result = buildChartData(getChartTypeSpec('scatter')!, [{ x: '1', y: 2 }], 'S');
+    expect(result.datasets[0].data).toEqual([{ x: 1, y: 2 }]);
+    expect(result).not.toHaveProperty('labels');
+  });
+
+  it('should colour each slice of a pie chart', () => {
+    const result = buildChartData(getChartTypeSpec('pie')!, [{ name: 'a', count: 1 }, { name: 'b', count: 2 }], 'P');
+    expect(result.labels).toEqual(['a', 'b']);
+    expect(result.datasets[0].data).toEqual([1, 2]);
+    expect(new Set(result.datasets[0].backgroundColor as string[]).size).toBe(2);
+  });
+});
+
+describe('labelFieldCandidates', () => {
+  const bar = getChartTypeSpec('bar')!;
+
+  it('should list the text fields when no label field is known', () => {
+    const rows = [{ region: 'North', product: 'A', value: 1 }, { region: 'South', product: 'B', value: '2' }];
+    expect(labelFieldCandidates(bar, rows)).toEqual(['region', 'product']);
+    expect(labelFieldCandidates(bar, rows, { series: 'product' })).toEqual(['region']);
+  });
+
+  it('should be empty when the labels are known', () => {
+    expect(labelFieldCandidates(bar, [{ month: 'Jan', region: 'North', value: 1 }])).toEqual([]);
+    expect(labelFieldCandidates(bar, [{ region: 'North', product: 'A', value: 1 }], { x: 'region' })).toEqual([]);
+    expect(labelFieldCandidates(getChartTypeSpec('scatter')!, [{ x: 1, y: 2, name: 'p' }])).toEqual([]);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { parseDataFile, dataFileFormat, rowsFromDataFiles, withDataFileRows } from '../dataFiles';
+import { encodeFilePart } from '../../core/a2a/src/message';
+
+const file = (filename: string, contentType: string, text: string) => encodeFilePart(filename, contentType, Buffer.from(text, 'utf8'));
+
+describe('dataFileFormat', () => {
+  it('should go by content type, and by extension only for generic content types', () => {
+    expect(dataFileFormat(file('a.txt', 'text/csv; charset=utf-8', ''))).toBe('csv');
+    expect(dataFileFormat(file('a.tsv', 'application/octet-stream', ''))).toBe('tsv');
+    expect(dataFileFormat(file('a.jsonl', 'text/plain', ''))).toBe('ndjson');
+    expect(dataFileFormat(file('a.csv', 'image/png', ''))).toBeUndefined();
+  });
+});
+
+describe('parseDataFile', () => {
+  it('should parse CSV with quoted fields and infer column types', () => {
+    const csv = '\uFEFFregion,"label, long",sales,active,day\r\nNorth,"say ""hi""",1.5,TRUE,2024-03-01\r\n\r\nSouth,"two\nlines",,false,2024-03-02\r\n';
+    const { columns, rows } = parseDataFile(file('sales.csv', 'text/csv', csv));
+
+    expect(columns).toEqual([
+      { name: 'region', type: 'string' },
+      { name: 'label, long', type: 'string' },
+      { name: 'sales', type: 'number' },
+      { name: 'active', type: 'boolean' },
+      { name: 'day', type: 'date' },
+    ]);
+    expect(rows).toEqual([
+      { region: 'North', 'label, long': 'say "hi"', sales: 1.5, active: true, day: '2024-03-01' },
+      { region: 'South', 'label, long': 'two\nlines', sales: null, active: false, day: '2024-03-02' },
+    ]);
+  });
+
+  it('should parse TSV and JSON Lines', () => {
+    expect(parseDataFile(file('a.tsv', 'text/tab-separated-values', 'month\tvalue\nJan\t3\n')).rows).toEqual([{ month: 'Jan', value: 3 }]);
+    const ndjson = parseDataFile(file('a.ndjson', 'application/x-ndjson', '{"month":"Jan","value":3}\n\n{"month":"Feb","value":"n/a"}\n'));
+    expect(ndjson.rows).toHaveLength(2);
+    expect(ndjson.columns).toEqual([{ name: 'month', type: 'string' }, { name: 'value', type: 'string' }]);
+  });
+
+  it('should name the file and line of malformed input', () => {
+    expect(() => parseDataFile(file('bad.csv', 'text/csv', 'a,b\n1,2\n3\n'))).toThrow('bad.csv: line 3 has 1 fields, expected 2');
+    expect(() => parseDataFile(file('bad.csv', 'text/csv', 'a,a\n1,2\n'))).toThrow("bad.csv: duplicate column 'a' in the header");
+    expect(() => parseDataFile(file('bad.csv', 'text/csv', 'a\n"open\n'))).toThrow('bad.csv: unterminated quoted field starting on line 2');
+    expect(() => parseDataFile(file('bad.jsonl', 'application/jsonl', '{"a":1}\n[1]\n'))).toThrow('bad.jsonl: line 2 is not a JSON object');
+  });
+});
+
+describe('rowsFromDataFiles', () => {
+  it('should concatenate the rows of all data files and ignore other parts', () => {
+    const rows = rowsFromDataFiles([
+      file('a.csv', 'text/csv', 'label,value\na,1\n'),
+      { type: 'text', text: 'bar chart' },
+      file('logo.png', 'image/png', 'not a table'),
+      file('b.csv', 'text/csv', 'label,value\nb,2\n'),
+    ]);
+    expect(rows).toEqual([{ label: 'a', value: 1 }, { label: 'b', value: 2 }]);
+  });
+
+  it('should refuse a request that already has rows', () => {
+    expect(withDataFileRows({ chartType: 'bar' }, [{ label: 'a', value: 1 }])).toEqual({ chartType: 'bar', data: [{ label: 'a', value: 1 }] });
+    expect(() => withDataFileRows({ chartType: 'bar', data: [] }, [])).toThrow('not both');
+  });
+});
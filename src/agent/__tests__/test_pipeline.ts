@@ -0,0 +1,257 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { runChartPipeline, ChartPipelineDeps, ChartPipelineState, CHART_SPEC_MIME_TYPE } from '../pipeline';
+import { runChartBatch } from '../pipeline/batch';
+import type { ChartRenderer, RenderOptions } from '../render';
+import type { Part } from '../../core/a2a/src/types';
+
+let originalWarn: any, originalError: any;
+beforeAll(() => {
+  originalWarn = console.warn;
+  originalError = console.error;
+  console.warn = () => {};
+  console.error = () => {};
+});
+afterAll(() => {
+  console.warn = originalWarn;
+  console.error = originalError;
+});
+
+function fakeRenderer(name: string, fail = false): ChartRenderer {
+  return {
+    name,
+    render: vi.fn(async (_config: any, options: RenderOptions) => {
+      if (fail) throw new Error(`${name} is down`);
+      return { format: options.format, mimeType: 'image/svg+xml', width: options.width, height: options.height, data: Buffer.from('<svg/>') };
+    }),
+  };
+}
+
+function setup(overrides: Partial<ChartPipelineDeps> = {}) {
+  const chartsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'charts-'));
+  const deps: ChartPipelineDeps = {
+    renderer: fakeRenderer('primary'),
+    chartsDir,
+    addArtifact: vi.fn(async (_taskId, artifact) => ({ ...artifact, id: 'art-1' })),
+    ...overrides,
+  };
+  return { deps, chartsDir };
+}
+
+const stateFor = (parts: Part[]): ChartPipelineState => ({ taskId: 'task-1', baseUrl: 'http://agent', parts });
+
+const barRequest: Part = {
+  type: 'data',
+  mimeType: 'application/json',
+  data: { chartType: 'bar', data: [{ label: 'a', value: 1 }, { label: 'b', value: 2 }], options: { title: 'Sales' } },
+};
+
+describe('chart pipeline', () => {
+  it('should run a structured request through to a published artifact', async () => {
+    const { deps, chartsDir } = setup();
+    const onEvent = vi.fn();
+    const state = await runChartPipeline({ ...stateFor([barRequest]), onEvent }, deps);
+
+    expect(state.request?.chartType).toBe('bar');
+    expect(state.chartConfig?.data.labels).toEqual(['a', 'b']);
+    expect(state.chartRenderUrl).toBe('http://agent/charts/task-1.svg');
+    expect(fs.existsSync(path.join(chartsDir, 'task-1.svg'))).toBe(true);
+
+    const [taskId, artifact] = (deps.addArtifact as any).mock.calls[0];
+    expect(taskId).toBe('task-1');
+    expect(artifact.parts.map((p: Part) => p.type)).toEqual(['file', 'data', 'text', 'text']);
+    expect(artifact.parts[1].mimeType).toBe(CHART_SPEC_MIME_TYPE);
+    expect(artifact.metadata).toMatchObject({ chartType: 'bar', width: 800, height: 600, renderer: 'primary' });
+    expect(onEvent).toHaveBeenCalledWith({ id: 'task-1', artifact: state.artifact, final: true });
+  });
+
+  it('should infer the spec with the LLM for text requests', async () => {
+    const llm = { generate: vi.fn().mockResolvedValue('{"chartType": "pie", "encoding": {"x": "party", "y": "votes"}}') };
+    const { deps } = setup({ llm });
+    const state = await runChartPipeline(stateFor([
+      { type: 'text', text: 'pie chart of votes per party' },
+      { type: 'data', mimeType: 'application/json', data: [{ party: 'A', votes: 3 }, { party: 'B', votes: 5 }] },
+    ]), deps);
+
+    expect(llm.generate).toHaveBeenCalledTimes(1);
+    expect(state.request?.encoding).toEqual({ x: 'party', y: 'votes' });
+    expect(state.chartConfig?.type).toBe('pie');
+  });
+
+  it('should read the rows from an attached CSV file', async () => {
+    const { deps } = setup();
+    const state = await runChartPipeline(stateFor([
+      { type: 'data', mimeType: 'application/json', data: { chartType: 'line', encoding: { x: 'month', y: 'sales' } } },
+      { type: 'file', filename: 'sales.csv', contentType: 'text/csv', data: Buffer.from('month,sales\nJan,10\nFeb,12\n').toString('base64') },
+    ]), deps);
+
+    expect(state.request?.data).toEqual([{ month: 'Jan', sales: 10 }, { month: 'Feb', sales: 12 }]);
+    expect(state.chartConfig?.data.datasets[0].data).toEqual([10, 12]);
+  });
+
+  it('should fall back to the second renderer when the first keeps failing', async () => {
+    const primary = fakeRenderer('quickchart', true);
+    const fallback = fakeRenderer('local');
+    const { deps } = setup({ renderer: primary, fallbackRenderer: fallback });
+    const state = await runChartPipeline(stateFor([barRequest]), deps);
+
+    expect(primary.render).toHaveBeenCalledTimes(2); // retried once before falling back
+    expect(state.rendererName).toBe('local');
+  });
+
+  it('should stop with a question when several fields could label the chart', async () => {
+    const { deps } = setup();
+    const rows = [{ region: 'North', product: 'A', value: 1 }, { region: 'South', product: 'B', value: 2 }];
+    const state = await runChartPipeline(stateFor([{ type: 'data', mimeType: 'application/json', data: { chartType: 'bar', data: rows } }]), deps);
+
+    expect(state.question).toEqual({ field: 'x', text: 'Which field should label the bar chart: region, product?', options: ['region', 'product'] });
+    expect(state.artifact).toBeUndefined();
+    expect(deps.renderer.render).not.toHaveBeenCalled();
+  });
+
+  it('should label by the only text field and name later versions after their number', async () => {
+    const { deps, chartsDir } = setup();
+    const rows = [{ region: 'North', value: 1 }, { region: 'South', value: 2 }];
+    const state = await runChartPipeline({ ...stateFor([{ type: 'data', mimeType: 'application/json', data: { chartType: 'bar', data: rows } }]), version: 2 }, deps);
+
+    expect(state.chartConfig?.data.labels).toEqual(['North', 'South']);
+    expect(state.chartRenderUrl).toBe('http://agent/charts/task-1-v2.svg');
+    expect(fs.existsSync(path.join(chartsDir, 'task-1-v2.svg'))).toBe(true);
+    expect(state.artifact?.metadata).toMatchObject({ version: 2 });
+  });
+
+  it('should chart the transformed rows', async () => {
+    const { deps } = setup();
+    const rows = [{ region: 'North', product: 'A', sales: 5 }, { region: 'South', product: 'B', sales: 2 }, { region: 'North', product: 'C', sales: 4 }];
+    const transform = [
+      { type: 'groupBy', by: 'region', aggregates: [{ op: 'sum', field: 'sales', as: 'sales' }] },
+      { type: 'sort', by: 'sales' },
+    ];
+    const state = await runChartPipeline(stateFor([{ type: 'data', mimeType: 'application/json', data: { chartType: 'bar', data: rows, transform } }]), deps);
+
+    expect(state.question).toBeUndefined(); // only 'region' survives the grouping, so it labels the chart
+    expect(state.rows).toEqual([{ region: 'South', sales: 2 }, { region: 'North', sales: 9 }]);
+    expect(state.chartConfig?.data.labels).toEqual(['South', 'North']);
+  });
+
+  it('should put dates on a time axis and resample them', async () => {
+    const { deps } = setup();
+    const rows = [{ date: '2024-01-05', visits: 3 }, { date: '2024-01-20', visits: 4 }, { date: '2024-03-02', visits: 5 }];
+    const request = { chartType: 'line', data: rows, encoding: { y: 'visits' }, options: { time: { resample: 'month', fillGaps: 'zero' } } };
+    const state = await runChartPipeline(stateFor([{ type: 'data', mimeType: 'application/json', data: request }]), deps);
+
+    expect(state.timeSeries?.unit).toBe('month');
+    expect(state.chartConfig?.options?.scales?.x).toMatchObject({ type: 'time', time: { unit: 'month' }, adapters: { date: { zone: 'UTC' } } });
+    expect(state.chartConfig?.data.labels).toEqual([Date.UTC(2024, 0, 1), Date.UTC(2024, 1, 1), Date.UTC(2024, 2, 1)]);
+    expect(state.chartConfig?.data.datasets[0].data).toEqual([7, 0, 5]);
+  });
+
+  it('should style the chart with the requested theme', async () => {
+    const { deps } = setup();
+    const request = { ...(barRequest as any).data, options: { title: 'Sales', theme: 'dark' } };
+    const state = await runChartPipeline(stateFor([{ type: 'data', mimeType: 'application/json', data: request }]), deps);
+
+    const options = state.chartConfig?.options;
+    expect(state.chartConfig?.data.datasets[0].borderColor).toBe('rgba(77, 201, 246, 1)');
+    expect(state.chartConfig?.data.datasets[0].backgroundColor).toBe('rgba(77, 201, 246, 0.35)');
+    expect(options?.plugins.title).toMatchObject({ color: '#ffffff', font: { family: 'sans-serif', size: 18 } });
+    expect(options?.scales.y).toMatchObject({ ticks: { color: '#d4d4d4' }, grid: { color: 'rgba(255, 255, 255, 0.12)' } });
+    expect(vi.mocked(deps.renderer.render).mock.calls[0][1].backgroundColor).toBe('#1e1e1e');
+    expect(state.artifact?.metadata).toMatchObject({ theme: 'dark' });
+  });
+
+  it('should pass only unrecognised options through to Chart.js', async () => {
+    const { deps } = setup();
+    const options = { theme: 'dark', backgroundColor: 'transparent', accessibility: { colorblindSafe: true }, width: 400, layout: { padding: 8 } };
+    const request = { ...(barRequest as any).data, options };
+    const state = await runChartPipeline(stateFor([{ type: 'data', mimeType: 'application/json', data: request }]), deps);
+
+    expect(state.chartConfig?.options?.layout).toEqual({ padding: 8 });
+    for (const key of ['theme', 'backgroundColor', 'accessibility', 'width', 'time']) {
+      expect(state.chartConfig?.options).not.toHaveProperty(key);
+    }
+  });
+
+  it('should publish alt text and a data table with the chart', async () => {
+    const { deps } = setup();
+    const state = await runChartPipeline(stateFor([barRequest]), deps);
+
+    const altText = 'Bar chart titled "Sales". Value by label for 2 labels: a and b. Values range from 1 (a) to 2 (b).';
+    expect(state.description).toMatchObject({ altText, tableFormat: 'markdown' });
+    expect(vi.mocked(deps.renderer.render).mock.calls[0][1].altText).toBe(altText);
+    expect(state.artifact?.parts?.slice(-2)).toEqual([
+      { type: 'text', text: altText, metadata: { kind: 'alt-text' } },
+      { type: 'text', text: '| label | value |\n| --- | ---: |\n| a | 1 |\n| b | 2 |', metadata: { kind: 'data-table', contentType: 'text/markdown' } },
+    ]);
+  });
+
+  it('should swap in a colour-blind safe palette on request', async () => {
+    const { deps } = setup();
+    const request = { ...(barRequest as any).data, options: { theme: 'dark', accessibility: { colorblindSafe: true } } };
+    const state = await runChartPipeline(stateFor([{ type: 'data', mimeType: 'application/json', data: request }]), deps);
+
+    expect(state.chartConfig?.data.datasets[0].borderColor).toBe('rgba(0, 114, 178, 1)');
+    expect(state.chartConfig?.options?.color).toBe('#d4d4d4');
+  });
+
+  it('should stop at validation for invalid requests', async () => {
+    const { deps } = setup();
+    const invalid: Part = { type: 'data', mimeType: 'application/json', data: { chartType: 'bar', data: [{ label: 'a' }] } };
+    await expect(runChartPipeline(stateFor([invalid]), deps)).rejects.toThrow('Invalid chart request: data[0]: missing numeric value');
+    expect(deps.renderer.render).not.toHaveBeenCalled();
+  });
+});
+
+describe('chart batch', () => {
+  const barItem = (index: number, value: number) => ({
+    index,
+    taskId: `task-1-${index + 1}`,
+    parts: [{ type: 'data', mimeType: 'application/json', data: { chartType: 'bar', data: [{ label: 'a', value }] } } as Part],
+  });
+
+  it('should render the charts at most maxConcurrency at a time', async () => {
+    let active = 0, peak = 0;
+    const renderer: ChartRenderer = {
+      name: 'slow',
+      render: vi.fn(async (_config: any, options: RenderOptions) => {
+        peak = Math.max(peak, ++active);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        active--;
+        return { format: options.format, mimeType: 'image/svg+xml', width: options.width, height: options.height, data: Buffer.from('<svg/>') };
+      }),
+    };
+    const { deps } = setup({ renderer });
+    const results = await runChartBatch({ baseUrl: 'http://agent', items: [0, 1, 2, 3, 4].map(i => barItem(i, i + 1)) }, deps, 2);
+
+    expect(results.map(result => result.state?.chartRenderUrl)).toEqual([1, 2, 3, 4, 5].map(n => `http://agent/charts/task-1-${n}.svg`));
+    expect(renderer.render).toHaveBeenCalledTimes(5);
+    expect(peak).toBe(2);
+  });
+
+  it('should report failed charts per item and render the rest', async () => {
+    const { deps } = setup();
+    const invalid = { index: 1, taskId: 'task-1-2', parts: [{ type: 'data', mimeType: 'application/json', data: { chartType: 'bar', data: [{ label: 'a' }] } } as Part] };
+    const results = await runChartBatch({ baseUrl: 'http://agent', items: [barItem(0, 1), invalid, barItem(2, 3)] }, deps);
+
+    expect(results.map(result => result.item.taskId)).toEqual(['task-1-1', 'task-1-2', 'task-1-3']);
+    expect(results[0].state?.artifact).toBeDefined();
+    expect(results[1].state).toBeUndefined();
+    expect(results[1].error?.message).toContain('data[0]: missing numeric value');
+    expect(results[2].state?.artifact).toBeDefined();
+  });
+
+  it('should call onItemStart before each chart and fail the items it refuses', async () => {
+    const { deps } = setup();
+    const onItemStart = vi.fn(async (item: { taskId: string }) => {
+      if (item.taskId === 'task-1-2') throw new Error('Task task-1-2 was canceled');
+    });
+    const results = await runChartBatch({ baseUrl: 'http://agent', items: [barItem(0, 1), barItem(1, 2)], onItemStart }, deps);
+
+    expect(onItemStart.mock.calls.map(([item]) => item.taskId)).toEqual(['task-1-1', 'task-1-2']);
+    expect(results[0].state?.artifact).toBeDefined();
+    expect(results[1].error?.message).toBe('Task task-1-2 was canceled');
+    expect(deps.renderer.render).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import { SvgChartRenderer, createChartRenderer, QuickChartRenderer, ChartJsConfig } from '../render';
+
+const barConfig: ChartJsConfig = {
+  type: 'bar',
+  data: {
+    labels: ['January', 'February', 'March'],
+    datasets: [{ label: 'Sales', data: [120, 340, 90] }],
+  },
+  options: {
+    plugins: { title: { display: true, text: 'Sales & Returns' } },
+    scales: { y: { beginAtZero: true } },
+  },
+};
+
+describe('SvgChartRenderer', () => {
+  const renderer = new SvgChartRenderer();
+
+  it('should render a bar chart to SVG', async () => {
+    const result = await renderer.render(barConfig, { width: 400, height: 300, format: 'svg' });
+    const svg = result.data.toString('utf8');
+    expect(result.mimeType).toBe('image/svg+xml');
+    expect(svg).toMatch(/^<svg[^>]+width="400" height="300"/);
+    expect(svg).toContain('Sales &amp; Returns');
+    expect(svg).toContain('>February</text>');
+    expect(svg.match(/<rect/g)?.length).toBeGreaterThanOrEqual(4); // background + 3 bars
+  });
+
+  it('should break line segments on missing values', async () => {
+    const config: ChartJsConfig = {
+      type: 'line',
+      data: { labels: ['a', 'b', 'c', 'd'], datasets: [{ label: 'L', data: [1, 2, null, 4] }] },
+    };
+    const result = await renderer.render(config, { width: 400, height: 300, format: 'svg' });
+    const paths = result.data.toString('utf8').match(/<path d="M[^"]*"/g) || [];
+    expect(paths).toHaveLength(2);
+  });
+
+  it('should draw decade ticks on a logarithmic value axis', async () => {
+    const config: ChartJsConfig = {
+      type: 'bar',
+      data: { labels: ['a', 'b'], datasets: [{ label: 'L', data: [3, 4500] }] },
+      options: { scales: { y: { type: 'logarithmic' } } },
+    };
+    const svg = (await renderer.render(config, { width: 400, height: 300, format: 'svg' })).data.toString('utf8');
+    for (const tick of ['1', '10', '100', '1,000', '10,000']) expect(svg).toContain(`>${tick}</text>`);
+  });
+
+  it('should draw a few ticks when the axis bounds are (nearly) equal', async () => {
+    for (const [min, max] of [[1, 1.0000000000000002], [1e17, 1e17], [5, 5]]) {
+      const config: ChartJsConfig = { ...barConfig, options: { scales: { y: { min, max } } } };
+      const svg = (await renderer.render(config, { width: 400, height: 300, format: 'svg' })).data.toString('utf8');
+      expect(svg.match(/text-anchor="end"/g)!.length).toBeLessThanOrEqual(12);
+    }
+  }, 5000);
+
+  it('should place points by time on a time axis and label calendar ticks', async () => {
+    const day = 86_400_000;
+    const start = Date.UTC(2024, 0, 1);
+    const config: ChartJsConfig = {
+      type: 'line',
+      data: {
+        labels: [start, start + day, start + 10 * day],
+        datasets: [{ label: 'L', data: [1, 2, 3] }, { label: 'avg', data: [1, 1.5, 2], borderDash: [6, 4] }],
+      },
+      options: { scales: { x: { type: 'time', adapters: { date: { zone: 'UTC' } } } } },
+    };
+    const svg = (await renderer.render(config, { width: 400, height: 300, format: 'svg' })).data.toString('utf8');
+    expect(svg).toContain('>Jan 1</text>');
+    expect(svg).toContain('stroke-dasharray="6 4"');
+    // The second point is a day after the first, not a third of the way along as a category would be
+    const [first, second, third] = svg.match(/<path d="M([^"]*)"/)![1].split(/ ?[ML]/).filter(Boolean).map(point => Number(point.split(' ')[0]));
+    expect((second - first) / (third - first)).toBeCloseTo(0.1, 2);
+  });
+
+  it('should use the text, grid and axis colours of the configuration', async () => {
+    const config: ChartJsConfig = {
+      ...barConfig,
+      options: {
+        color: '#d4d4d4',
+        plugins: { title: { display: true, text: 'Dark', color: '#ffffff' } },
+        scales: { y: { grid: { color: '#333333' }, border: { color: '#a0a0a0' } }, x: { grid: { display: false }, border: { color: '#a0a0a0' } } },
+      },
+    };
+    const svg = (await renderer.render(config, { width: 400, height: 300, format: 'svg', backgroundColor: '#1e1e1e' })).data.toString('utf8');
+    expect(svg).toContain('fill="#1e1e1e"');
+    expect(svg).toMatch(/fill="#ffffff"[^>]*>Dark<\/text>/);
+    expect(svg).toMatch(/fill="#d4d4d4"[^>]*>February<\/text>/);
+    expect(svg).toContain('stroke="#333333"');
+    expect(svg).toContain('stroke="#a0a0a0"');
+    expect(svg).not.toContain('#666666');
+  });
+
+  it('should title the SVG with the alt text', async () => {
+    const svg = (await renderer.render(barConfig, { width: 400, height: 300, format: 'svg', altText: 'Bar chart of sales & returns.' })).data.toString('utf8');
+    expect(svg).toMatch(/^<svg[^>]+role="img" aria-labelledby="chart-title">\n<title id="chart-title">Bar chart of sales &amp; returns.<\/title>/);
+  });
+
+  it('should rasterize to PNG', async () => {
+    const result = await renderer.render(barConfig, { width: 200, height: 150, format: 'png' });
+    expect(result.mimeType).toBe('image/png');
+    expect(result.data.subarray(1, 4).toString('ascii')).toBe('PNG');
+  });
+
+  it('should draw pie and doughnut slices with a per-label legend', async () => {
+    const config: ChartJsConfig = {
+      type: 'doughnut',
+      data: { labels: ['Red', 'Blue', 'Green'], datasets: [{ data: [3, 2, 1], backgroundColor: ['#f00', '#00f', '#0f0'] }] },
+    };
+    const svg = (await renderer.render(config, { width: 400, height: 300, format: 'svg' })).data.toString('utf8');
+    expect(svg.match(/<path d="M[^"]*A[^"]*"/g)).toHaveLength(3);
+    expect(svg).toContain('fill="#0f0"');
+    expect(svg).toContain('>Green</text>');
+  });
+
+  it('should draw a single-slice pie as a full circle', async () => {
+    const config: ChartJsConfig = { type: 'pie', data: { labels: ['All'], datasets: [{ data: [5] }] } };
+    const svg = (await renderer.render(config, { width: 300, height: 300, format: 'svg' })).data.toString('utf8');
+    expect(svg.match(/ A/g)?.length).toBe(2); // split into two half arcs
+  });
+
+  it('should draw radar, polar area, scatter, bubble and horizontal bar charts', async () => {
+    const labels = ['a', 'b', 'c'];
+    const configs: ChartJsConfig[] = [
+      { type: 'radar', data: { labels, datasets: [{ label: 'R', data: [1, 2, 3] }] } },
+      { type: 'polarArea', data: { labels, datasets: [{ data: [1, 2, 3] }] } },
+      { type: 'scatter', data: { datasets: [{ label: 'S', data: [{ x: 1, y: 2 }, { x: 3, y: 4 }] }] } },
+      { type: 'bubble', data: { datasets: [{ label: 'B', data: [{ x: 1, y: 2, r: 5 }, { x: 3, y: 4, r: 10 }] }] } },
+      { type: 'bar', data: { labels, datasets: [{ label: 'H', data: [1, 2, 3] }] }, options: { indexAxis: 'y' } },
+    ];
+    for (const config of configs) {
+      const svg = (await renderer.render(config, { width: 400, height: 300, format: 'svg' })).data.toString('utf8');
+      expect(svg).toMatch(/<svg[\s\S]*<\/svg>$/);
+    }
+    const bubble = (await renderer.render(configs[3], { width: 400, height: 300, format: 'svg' })).data.toString('utf8');
+    expect(bubble).toContain('r="10"');
+  });
+
+  it('should reject chart types it cannot draw', async () => {
+    await expect(renderer.render({ ...barConfig, type: 'sankey' }, { width: 200, height: 150, format: 'svg' }))
+      .rejects.toThrow("does not support chart type 'sankey'");
+  });
+});
+
+describe('createChartRenderer', () => {
+  it('should default to the local renderer', () => {
+    expect(createChartRenderer('local')).toBeInstanceOf(SvgChartRenderer);
+  });
+
+  it('should create the QuickChart backend on request', () => {
+    expect(createChartRenderer('quickchart')).toBeInstanceOf(QuickChartRenderer);
+  });
+
+  it('should throw for unknown renderers', () => {
+    expect(() => createChartRenderer('nope')).toThrow('Unknown chart renderer');
+  });
+});
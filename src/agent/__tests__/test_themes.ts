@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getTheme, listThemes, loadThemes, registerThemeFile, withAlpha } from '../themes';
+import { ChartInputSchema } from '../chartInputSchema';
+import { formatChartDataIssue } from '../chartTypes';
+
+describe('chart themes', () => {
+  it('should provide light, dark and high-contrast themes with light as the default', () => {
+    expect(listThemes().map(theme => theme.name)).toEqual(['light', 'dark', 'high-contrast']);
+    expect(getTheme()?.name).toBe('light');
+    expect(getTheme('dark')?.background).toBe('#1e1e1e');
+    expect(getTheme('sepia')).toBeUndefined();
+  });
+
+  it('should resolve a brand theme against the theme it extends', () => {
+    const theme = registerThemeFile({
+      name: 'acme',
+      extends: 'dark',
+      palette: ['#ff6600', '#333399'],
+      fontFamily: 'Acme Sans',
+      title: { size: 24 },
+    });
+
+    expect(theme.palette).toEqual(['#ff6600', '#333399']);
+    expect(theme.background).toBe('#1e1e1e');
+    expect(theme.title).toEqual({ size: 24, weight: 'bold', color: '#ffffff' });
+    expect(getTheme('acme')).toEqual(theme);
+  });
+
+  it('should reject invalid theme files with the offending setting', () => {
+    expect(() => registerThemeFile({ name: 'bad', palette: ['orange'] })).toThrow('palette.0: expected a #rgb, #rrggbb, rgb() or rgba() colour');
+    expect(() => registerThemeFile({ name: 'bad', extends: 'sepia' })).toThrow("extends unknown theme 'sepia'");
+  });
+
+  it('should load the JSON files in a directory and skip invalid ones', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'themes-'));
+    fs.writeFileSync(path.join(dir, 'a-brand.json'), JSON.stringify({ name: 'brand', palette: ['#123456'] }));
+    fs.writeFileSync(path.join(dir, 'b-brand-dark.json'), JSON.stringify({ name: 'brand-dark', extends: 'brand', background: '#000000' }));
+    fs.writeFileSync(path.join(dir, 'c-broken.json'), '{ "name": ');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(loadThemes(dir)).toEqual(['brand', 'brand-dark']);
+    expect(getTheme('brand-dark')?.palette).toEqual(['#123456']);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Skipping chart theme c-broken.json'));
+    expect(loadThemes(path.join(dir, 'missing'))).toEqual([]);
+    warn.mockRestore();
+  });
+
+  it('should only accept known theme names in chart requests', () => {
+    const request = { chartType: 'bar', data: [{ label: 'a', value: 1 }] };
+    expect(ChartInputSchema.safeParse({ ...request, options: { theme: 'high-contrast' } }).success).toBe(true);
+
+    const result = ChartInputSchema.safeParse({ ...request, options: { theme: 'sepia' } });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map(formatChartDataIssue)[0]).toMatch(/^options\.theme: unknown theme 'sepia' \(available: light, dark, high-contrast/);
+  });
+
+  it('should apply opacity to hex and rgb colours', () => {
+    expect(withAlpha('#f60', 0.5)).toBe('rgba(255, 102, 0, 0.5)');
+    expect(withAlpha('rgba(54, 162, 235, 1)', 0.2)).toBe('rgba(54, 162, 235, 0.2)');
+    expect(withAlpha('orange', 0.2)).toBe('orange');
+  });
+});
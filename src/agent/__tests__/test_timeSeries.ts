@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { parseTime, bucketStart, bucketRange, prepareTimeSeries, toTimeSeriesData, rollingAverage } from '../timeSeries';
+import { getChartTypeSpec, buildChartData } from '../chartTypes';
+import { ChartInputSchema } from '../chartInputSchema';
+
+const utc = (...fields: [number, number, number, number?, number?]) => Date.UTC(fields[0], fields[1] - 1, fields[2], fields[3] ?? 0, fields[4] ?? 0);
+const line = getChartTypeSpec('line')!;
+const bar = getChartTypeSpec('bar')!;
+
+describe('parseTime', () => {
+  it('should parse ISO dates, epoch milliseconds and common formats', () => {
+    const march1 = utc(2024, 3, 1);
+    for (const value of ['2024-03-01', '2024-03', '2024/03/01', '03/01/2024', '01.03.2024', 'Mar 2024', 'March 1, 2024', '1 March 2024', march1, String(march1)]) {
+      expect(parseTime(value), String(value)).toBe(march1);
+    }
+    expect(parseTime('2024-03-01T14:30+01:00')).toBe(utc(2024, 3, 1, 13, 30));
+    expect(parseTime('Mar 1 2024 2:30 pm')).toBe(utc(2024, 3, 1, 14, 30));
+    expect(parseTime('01/03/2024', { dayFirst: true })).toBe(march1);
+  });
+
+  it('should reject values that are not dates', () => {
+    for (const value of ['2024-02-30', '2024', 2024, 'Jan', 'North', '13/13/2024', true, null]) {
+      expect(parseTime(value), String(value)).toBeUndefined();
+    }
+  });
+
+  it('should read times without an offset in the given time zone', () => {
+    expect(parseTime('2024-07-01T12:00', { timezone: 'Europe/Berlin' })).toBe(utc(2024, 7, 1, 10));
+    expect(parseTime('2024-01-01T12:00', { timezone: 'Europe/Berlin' })).toBe(utc(2024, 1, 1, 11));
+    expect(parseTime('2024-07-01T12:00Z', { timezone: 'Europe/Berlin' })).toBe(utc(2024, 7, 1, 12));
+  });
+});
+
+describe('buckets', () => {
+  it('should start weeks on Monday and follow the calendar of the time zone', () => {
+    expect(bucketStart(utc(2024, 3, 6, 23, 30), 'week')).toBe(utc(2024, 3, 4));
+    expect(bucketStart(utc(2024, 3, 6, 23, 30), 'day', 'Europe/Berlin')).toBe(utc(2024, 3, 6, 23)); // already 7 March in Berlin
+    expect(bucketRange(utc(2024, 1, 15), utc(2024, 4, 2), 'month', 'America/New_York')).toEqual([
+      utc(2024, 1, 1, 5), utc(2024, 2, 1, 5), utc(2024, 3, 1, 5), utc(2024, 4, 1, 4),
+    ]);
+  });
+});
+
+describe('prepareTimeSeries', () => {
+  const daily = [
+    { date: '2024-01-03', region: 'North', sales: 5 },
+    { date: '2024-01-01', region: 'North', sales: 10 },
+    { date: '2024-02-10', region: 'North', sales: 7 },
+    { date: '2024-01-20', region: 'South', sales: 1 },
+    { date: '2024-04-02', region: 'South', sales: 2 },
+  ];
+
+  it('should detect date x values and sort the rows by time', () => {
+    const series = prepareTimeSeries(line, daily.slice(0, 3), { x: 'date', y: 'sales' })!;
+    expect(series.field).toBe('date');
+    expect(series.rows.map(row => row.date)).toEqual([utc(2024, 1, 1), utc(2024, 1, 3), utc(2024, 2, 10)]);
+    expect(prepareTimeSeries(line, [{ label: 'Jan', value: 1 }], undefined)).toBeUndefined();
+    expect(prepareTimeSeries(line, daily, { x: 'date', y: 'sales' }, { axis: 'category' })).toBeUndefined();
+    expect(prepareTimeSeries(getChartTypeSpec('pie')!, daily, { x: 'date', y: 'sales' })).toBeUndefined();
+  });
+
+  it('should resample per series into buckets and fill the gaps', () => {
+    const encoding = { x: 'date', y: 'sales', series: 'region' };
+    const series = prepareTimeSeries(line, daily, encoding, { resample: 'month' })!;
+    expect(series.rows).toEqual([
+      { date: utc(2024, 1, 1), region: 'North', sales: 15 },
+      { date: utc(2024, 1, 1), region: 'South', sales: 1 },
+      { date: utc(2024, 2, 1), region: 'North', sales: 7 },
+      { date: utc(2024, 4, 1), region: 'South', sales: 2 },
+    ]);
+    expect(series.buckets).toEqual([utc(2024, 1, 1), utc(2024, 2, 1), utc(2024, 3, 1), utc(2024, 4, 1)]);
+
+    const data = toTimeSeriesData(buildChartData(line, series.rows, 'Sales', encoding), series, { fillGaps: 'previous' });
+    expect(data.labels).toEqual(series.buckets);
+    expect(data.datasets.map(ds => ({ label: ds.label, data: ds.data }))).toEqual([
+      { label: 'North', data: [15, 7, 7, 7] },
+      { label: 'South', data: [1, 1, 1, 2] },
+    ]);
+    const interpolated = toTimeSeriesData(buildChartData(line, series.rows, 'Sales', encoding), series, { fillGaps: 'interpolate' });
+    expect(interpolated.datasets[1].data[0]).toBe(1);
+    expect(interpolated.datasets[1].data[3]).toBe(2);
+    expect(interpolated.datasets[1].data[1]).toBeCloseTo(1 + 31 / 91, 5); // by time, not by position
+  });
+
+  it('should add a rolling average series per dataset', () => {
+    expect(rollingAverage([2, 4, null, 6], 2)).toEqual([2, 3, 4, 6]);
+    const rows = [1, 2, 3, 4].map(day => ({ date: `2024-01-0${day}`, value: day * 10 }));
+    const series = prepareTimeSeries(bar, rows, undefined, { rollingAverage: 3 })!;
+    const data = toTimeSeriesData(buildChartData(bar, series.rows, 'Visits'), series, { rollingAverage: 3 });
+    expect(data.datasets).toHaveLength(2);
+    expect(data.datasets[1]).toMatchObject({ label: 'Visits (3-point average)', type: 'line', data: [10, 15, 20, 30] });
+  });
+});
+
+describe('ChartInputSchema time options', () => {
+  it('should reject a forced time axis over values that are not dates, and unknown time zones', () => {
+    const result = ChartInputSchema.safeParse({
+      chartType: 'line',
+      data: [{ label: '2024-01-01', value: 1 }, { label: 'soon', value: 2 }],
+      options: { time: { axis: 'time', timezone: 'Mars/Olympus' } },
+    });
+    expect(result.success).toBe(false);
+    expect(result.error!.issues.map(issue => [issue.path, issue.message])).toEqual([
+      [['options', 'time', 'timezone'], 'unknown time zone'],
+    ]);
+    const forced = ChartInputSchema.safeParse({
+      chartType: 'line',
+      data: [{ label: '2024-01-01', value: 1 }, { label: 'soon', value: 2 }],
+      options: { time: { axis: 'time' } },
+    });
+    expect(forced.error!.issues.map(issue => [issue.path, issue.message])).toEqual([[['data', 1], 'label is not a date ("soon")']]);
+  });
+
+  it('should reject resampling into too many buckets', () => {
+    const result = ChartInputSchema.safeParse({
+      chartType: 'line',
+      data: [{ date: '2000-01-01', value: 1 }, { date: '2024-01-01', value: 2 }],
+      options: { time: { resample: 'hour' } },
+    });
+    expect(result.error!.issues[0].path).toEqual(['options', 'time', 'resample']);
+  });
+});
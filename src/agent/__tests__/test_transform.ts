@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { applyTransforms, compileExpression, TransformError } from '../transform';
+import { ChartInputSchema } from '../chartInputSchema';
+
+const sales = [
+  { region: 'North', product: 'A', quarter: 'Q1', sales: 10 },
+  { region: 'North', product: 'B', quarter: 'Q2', sales: 30 },
+  { region: 'South', product: 'A', quarter: 'Q1', sales: 5 },
+  { region: 'East', product: 'C', quarter: 'Q2', sales: null },
+  { region: 'West', product: 'B', quarter: 'Q1', sales: 20 },
+];
+
+describe('compileExpression', () => {
+  it('should evaluate comparisons, logic, arithmetic and functions against a row', () => {
+    const row = { region: 'North', sales: 12, 'order total': 7.25, status: 'open' };
+    expect(compileExpression("region == 'North' && sales > 10").evaluate(row)).toBe(true);
+    expect(compileExpression('`order total` >= 10 or status in [\'open\', \'late\']').evaluate(row)).toBe(true);
+    expect(compileExpression('round(`order total` / sales * 100, 1)').evaluate(row)).toBe(60.4);
+    expect(compileExpression("lower(region) + '-' + sales").evaluate(row)).toBe('north-12');
+    expect(compileExpression('not (sales % 2 == 0)').evaluate(row)).toBe(false);
+    expect(compileExpression('-sales + 2 * 3').evaluate(row)).toBe(-6);
+  });
+
+  it('should propagate missing values instead of producing NaN', () => {
+    expect(compileExpression('sales * 2').evaluate({})).toBeNull();
+    expect(compileExpression('sales / 0').evaluate({ sales: 1 })).toBeNull();
+    expect(compileExpression('sales > 0').evaluate({ sales: null })).toBe(false);
+    expect(compileExpression('coalesce(sales, 0) + 1').evaluate({ sales: null })).toBe(1);
+  });
+
+  it('should list the fields it reads and report syntax errors with their position', () => {
+    expect(compileExpression('a > 1 && max(b, `c d`) < 5').fields).toEqual(['a', 'b', 'c d']);
+    expect(() => compileExpression('sales >')).toThrow('Invalid expression "sales >": unexpected end of expression');
+    expect(() => compileExpression('sales = 1')).toThrow("unexpected '=' at position 6");
+    expect(() => compileExpression('sqrt(sales)')).toThrow("unknown function 'sqrt' at position 0");
+  });
+});
+
+describe('applyTransforms', () => {
+  it('should filter, group, aggregate and sort', () => {
+    const rows = applyTransforms(sales, [
+      { type: 'filter', expr: "product != 'C'" },
+      { type: 'groupBy', by: 'region', aggregates: [{ op: 'sum', field: 'sales' }, { op: 'count' }, { op: 'avg', field: 'sales', as: 'mean' }] },
+      { type: 'sort', by: 'sum_sales', order: 'desc' },
+    ]);
+    expect(rows).toEqual([
+      { region: 'North', sum_sales: 40, count: 2, mean: 20 },
+      { region: 'West', sum_sales: 20, count: 1, mean: 20 },
+      { region: 'South', sum_sales: 5, count: 1, mean: 5 },
+    ]);
+    expect(sales[0]).toEqual({ region: 'North', product: 'A', quarter: 'Q1', sales: 10 });
+  });
+
+  it('should keep the top rows and collect the rest in an "other" row', () => {
+    expect(applyTransforms(sales, [{ type: 'top', count: 2, by: 'sales' }]).map(row => row.sales)).toEqual([30, 20]);
+    const rows = applyTransforms(sales, [
+      { type: 'groupBy', by: 'region', aggregates: [{ op: 'sum', field: 'sales', as: 'sales' }] },
+      { type: 'top', count: 2, by: 'sales', other: 'Other' },
+    ]);
+    expect(rows).toEqual([{ region: 'North', sales: 40 }, { region: 'West', sales: 20 }, { region: 'Other', sales: 5 }]);
+  });
+
+  it('should sort missing values last and limit the rows', () => {
+    const rows = applyTransforms(sales, [{ type: 'sort', by: 'sales' }, { type: 'limit', count: 5 }]);
+    expect(rows.map(row => row.sales)).toEqual([5, 10, 20, 30, null]);
+    expect(applyTransforms(sales, [{ type: 'sort', by: ['quarter', 'region'] }, { type: 'limit', count: 2 }]).map(row => row.region)).toEqual(['North', 'South']);
+  });
+
+  it('should pivot long rows into columns and unpivot them back', () => {
+    const wide = applyTransforms(sales, [{ type: 'pivot', key: 'quarter', value: 'sales', groupBy: 'product' }]);
+    expect(wide).toEqual([
+      { product: 'A', Q1: 15, Q2: null },
+      { product: 'B', Q1: 20, Q2: 30 },
+      { product: 'C', Q1: null, Q2: null },
+    ]);
+    const long = applyTransforms(wide, [{ type: 'unpivot', fields: ['Q1', 'Q2'], key: 'quarter', value: 'sales' }]);
+    expect(long.slice(0, 2)).toEqual([{ product: 'A', quarter: 'Q1', sales: 15 }, { product: 'A', quarter: 'Q2', sales: null }]);
+  });
+
+  it('should add derived fields', () => {
+    const rows = applyTransforms(sales.slice(0, 2), [{ type: 'derive', as: 'share', expr: 'sales / 40 * 100' }]);
+    expect(rows.map(row => row.share)).toEqual([25, 75]);
+  });
+
+  it('should report the step and part that cannot be applied', () => {
+    const error = (steps: any[]) => {
+      try {
+        applyTransforms(sales, steps);
+      } catch (e) {
+        return e as TransformError;
+      }
+      throw new Error('expected a TransformError');
+    };
+    expect(error([{ type: 'limit', count: 3 }, { type: 'sort', by: 'revenue' }])).toMatchObject({ path: [1, 'by'], message: "unknown field 'revenue'" });
+    expect(error([{ type: 'filter', expr: 'revenue > 1' }]).path).toEqual([0, 'expr']);
+    expect(error([{ type: 'groupBy', by: 'region', aggregates: [{ op: 'sum' }] }])).toMatchObject({ path: [0, 'aggregates', 0, 'field'] });
+    // Fields created by earlier steps are known to later ones
+    expect(() => applyTransforms(sales, [{ type: 'derive', as: 'double', expr: 'sales * 2' }, { type: 'sort', by: 'double' }])).not.toThrow();
+  });
+});
+
+describe('ChartInputSchema transform', () => {
+  it('should validate the transformed rows and report transform problems by step', () => {
+    const valid = ChartInputSchema.safeParse({
+      chartType: 'bar',
+      data: sales,
+      transform: [{ type: 'groupBy', by: 'region', aggregates: [{ op: 'sum', field: 'sales' }] }],
+      encoding: { x: 'region', y: 'sum_sales' },
+    });
+    expect(valid.success).toBe(true);
+
+    const badStep = ChartInputSchema.safeParse({ chartType: 'bar', data: sales, transform: [{ type: 'filter', expr: 'sales >' }] });
+    expect(badStep.success).toBe(false);
+    expect(badStep.error!.issues[0].path).toEqual(['transform', 0, 'expr']);
+
+    const empty = ChartInputSchema.safeParse({ chartType: 'bar', data: sales, transform: [{ type: 'filter', expr: 'sales > 100' }], encoding: { x: 'region', y: 'sales' } });
+    expect(empty.success).toBe(false);
+    expect(empty.error!.issues[0].path).toEqual(['transform']);
+    expect(empty.error!.issues[0].message).toMatch(/^transformed data/);
+  });
+});
@@ -0,0 +1,322 @@
+// src/agent/accessibility.ts
+// Text alternatives published with every chart: alt text summarising what the chart shows (type, axes,
+// ranges, extremes and trend) and a table of the plotted values. Both are read from the Chart.js data,
+// so they describe exactly what was drawn.
+import { TextPart } from '../core/a2a/src/types';
+import type { ChartJsConfig } from './render';
+import { ChartDataShape, ChartTypeSpec } from './chartTypes';
+import { TimeSeries, localTime } from './timeSeries';
+
+export type DataTableFormat = 'markdown' | 'html';
+
+export interface PlottedSeries {
+  name: string;
+  /** Category charts: one value per label, null where the value is missing */
+  values: (number | null)[];
+  /** Scatter and bubble charts */
+  points: { x: number; y: number; r?: number }[];
+  /** Computed from other series (rolling averages): tabulated, but left out of the alt text */
+  derived: boolean;
+}
+
+/** A chart's plotted values with readable names, as described by the alt text and the data table. */
+export interface PlottedChart {
+  /** e.g. "Horizontal bar chart" */
+  typeName: string;
+  shape: ChartDataShape;
+  /** Pie and doughnut slices: each value is a share of the series total */
+  shares: boolean;
+  /** The labels are in a meaningful order (a line or a time axis), so a trend can be described */
+  ordered: boolean;
+  title?: string;
+  /** Names of the category (or x), value (or y) and bubble size */
+  xName: string;
+  yName: string;
+  rName?: string;
+  labels: string[];
+  series: PlottedSeries[];
+}
+
+/** What `plottedChart` needs to know beyond the Chart.js configuration. */
+export interface PlotContext {
+  chartType: string;
+  spec: ChartTypeSpec;
+  title?: string;
+  xName: string;
+  yName: string;
+  rName?: string;
+  timeSeries?: TimeSeries;
+  /** Number of datasets at the end of the configuration that are derived from the others */
+  derivedDatasets?: number;
+}
+
+/** A chart's alt text and data table, as published with the chart. */
+export interface ChartDescription {
+  altText: string;
+  table: string;
+  tableFormat: DataTableFormat;
+}
+
+const TYPE_NAMES: Record<string, string> = {
+  bar: 'Bar chart',
+  horizontalBar: 'Horizontal bar chart',
+  line: 'Line chart',
+  pie: 'Pie chart',
+  doughnut: 'Doughnut chart',
+  polarArea: 'Polar area chart',
+  radar: 'Radar chart',
+  scatter: 'Scatter plot',
+  bubble: 'Bubble chart',
+};
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+// Category lists longer than this are summarised by their first and last label
+const MAX_LISTED_LABELS = 8;
+// Series beyond this many are counted in the alt text but not described one by one
+const MAX_DESCRIBED_SERIES = 6;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const formatNumber = (n: number) => n.toLocaleString('en-US', { maximumFractionDigits: 2 });
+
+const formatPercent = (fraction: number) => `${(fraction * 100).toLocaleString('en-US', { maximumFractionDigits: 1 })}%`;
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 || word.endsWith('s') ? '' : 's'}`;
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+// "a", "a and b", "a, b and c"
+const listOf = (items: string[]) => (items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`);
+
+// Time axis labels are timestamps; spell them out in the series' time zone at the resolution it was resampled to
+function dateLabel(ms: number, series: TimeSeries): string {
+  const t = localTime(ms, series.timezone);
+  if (series.unit === 'month') return `${MONTH_NAMES[t.month - 1]} ${t.year}`;
+  const date = `${t.year}-${pad(t.month)}-${pad(t.day)}`;
+  return series.unit === 'hour' || t.hour !== 0 || t.minute !== 0 ? `${date} ${pad(t.hour)}:${pad(t.minute)}` : date;
+}
+
+const toValue = (raw: unknown) => (typeof raw === 'number' && Number.isFinite(raw) ? raw : null);
+
+/** Read the plotted labels and series out of a built Chart.js configuration. */
+export function plottedChart(config: ChartJsConfig, context: PlotContext): PlottedChart {
+  const { spec, timeSeries } = context;
+  const datasets = config.data.datasets;
+  const firstDerived = datasets.length - (context.derivedDatasets ?? 0);
+  return {
+    typeName: TYPE_NAMES[context.chartType] ?? `${capitalize(context.chartType)} chart`,
+    shape: spec.shape,
+    shares: !!spec.perPointColors && spec.axes === 'none',
+    ordered: !!timeSeries || context.chartType === 'line',
+    title: context.title,
+    xName: context.xName,
+    yName: context.yName,
+    rName: context.rName,
+    labels: (config.data.labels || []).map(label => (timeSeries ? dateLabel(Number(label), timeSeries) : String(label))),
+    series: datasets.map((dataset, i) => {
+      const data: unknown[] = dataset.data || [];
+      return {
+        name: String(dataset.label ?? `Series ${i + 1}`),
+        values: spec.shape === 'category' ? data.map(toValue) : [],
+        points: spec.shape === 'category'
+          ? []
+          : data.flatMap((point: any) => (point && toValue(point.x) !== null && toValue(point.y) !== null ? [{ x: point.x, y: point.y, ...(toValue(point.r) !== null && { r: point.r }) }] : [])),
+        derived: i >= firstDerived,
+      };
+    }),
+  };
+}
+
+// Least-squares slope of the values against their position, relative to their mean size
+function relativeTrend(values: (number | null)[]): number {
+  const points = values.flatMap((value, i) => (value === null ? [] : [{ x: i, y: value }]));
+  if (points.length < 2) return 0;
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  const sxx = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+  const slope = points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0) / sxx;
+  const scale = points.reduce((sum, p) => sum + Math.abs(p.y), 0) / points.length;
+  return scale === 0 ? 0 : (slope * (points[points.length - 1].x - points[0].x)) / scale;
+}
+
+function correlation(points: { x: number; y: number }[]): number | undefined {
+  if (points.length < 3) return undefined;
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  const sxy = points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0);
+  const sxx = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+  const syy = points.reduce((sum, p) => sum + (p.y - meanY) ** 2, 0);
+  return sxx === 0 || syy === 0 ? undefined : sxy / Math.sqrt(sxx * syy);
+}
+
+function describeCategorySeries(chart: PlottedChart, series: PlottedSeries, named: boolean): string[] {
+  const present = series.values.flatMap((value, i) => (value === null ? [] : [{ value, label: chart.labels[i] ?? '' }]));
+  const subject = named ? series.name : 'Values';
+  if (present.length === 0) return [`${subject}: no values.`];
+  const min = present.reduce((a, b) => (b.value < a.value ? b : a));
+  const max = present.reduce((a, b) => (b.value > a.value ? b : a));
+  const sentences: string[] = [];
+
+  if (chart.shares) {
+    const total = present.reduce((sum, p) => sum + p.value, 0);
+    const share = (value: number) => (total > 0 ? ` (${formatPercent(value / total)})` : '');
+    sentences.push(`${named ? `${series.name}: t` : 'T'}otal ${formatNumber(total)}; largest ${max.label} at ${formatNumber(max.value)}${share(max.value)}, smallest ${min.label} at ${formatNumber(min.value)}${share(min.value)}.`);
+  } else if (present.length === 1) {
+    sentences.push(`${subject}: ${formatNumber(max.value)} (${max.label}).`);
+  } else {
+    sentences.push(`${named ? `${series.name} ranges` : 'Values range'} from ${formatNumber(min.value)} (${min.label}) to ${formatNumber(max.value)} (${max.label}).`);
+  }
+
+  if (chart.ordered && present.length >= 2) {
+    const first = present[0];
+    const last = present[present.length - 1];
+    const trend = relativeTrend(series.values);
+    const direction = trend > 0.05 ? 'upward' : trend < -0.05 ? 'downward' : 'flat';
+    const change = first.value !== 0 ? ` (${last.value >= first.value ? '+' : '−'}${formatPercent(Math.abs(last.value - first.value) / Math.abs(first.value))})` : '';
+    sentences.push(`${named ? `${series.name} t` : 'T'}rend: ${direction}, from ${formatNumber(first.value)} in ${first.label} to ${formatNumber(last.value)} in ${last.label}${change}.`);
+  }
+
+  const missing = series.values.length - present.length;
+  if (missing > 0) sentences.push(`${plural(missing, 'value')} missing.`);
+  return sentences;
+}
+
+function describePointSeries(chart: PlottedChart, series: PlottedSeries, named: boolean): string[] {
+  const { points } = series;
+  const prefix = named ? `${series.name}: ` : '';
+  if (points.length === 0) return [`${prefix}no points.`];
+  const range = (values: number[]) => `${formatNumber(Math.min(...values))} to ${formatNumber(Math.max(...values))}`;
+  const sentences = [
+    `${prefix}${plural(points.length, 'point')}, ${chart.xName} from ${range(points.map(p => p.x))} and ${chart.yName} from ${range(points.map(p => p.y))}.`,
+  ];
+  const sizes = points.flatMap(p => (p.r === undefined ? [] : [p.r]));
+  if (chart.rName && sizes.length > 0) sentences.push(`Bubble size shows ${chart.rName}, from ${range(sizes)}.`);
+  const r = correlation(points);
+  if (r !== undefined) {
+    const strength = Math.abs(r) >= 0.7 ? 'strong' : Math.abs(r) >= 0.4 ? 'moderate' : Math.abs(r) >= 0.2 ? 'weak' : undefined;
+    sentences.push(strength
+      ? `${capitalize(strength)} ${r > 0 ? 'positive' : 'negative'} correlation (r = ${r.toFixed(2)}).`
+      : `No clear correlation (r = ${r.toFixed(2)}).`);
+  }
+  return sentences;
+}
+
+/**
+ * Alt text for the chart: its type and title, what is plotted against what, and per series the range
+ * with its extremes, the trend (for lines and time axes), slice shares or x/y correlation.
+ */
+export function chartAltText(chart: PlottedChart): string {
+  const sentences = [`${chart.typeName}${chart.title ? ` titled "${chart.title}"` : ''}.`];
+  const described = chart.series.filter(series => !series.derived);
+
+  if (chart.shape === 'category') {
+    const { labels } = chart;
+    const subject = `${capitalize(chart.yName)} by ${chart.xName}`;
+    if (labels.length === 0) {
+      sentences.push(`${subject}, with no values.`);
+    } else if (chart.ordered || labels.length > MAX_LISTED_LABELS) {
+      sentences.push(`${subject} for ${plural(labels.length, chart.shares ? 'slice' : 'label')}, from ${labels[0]} to ${labels[labels.length - 1]}.`);
+    } else {
+      sentences.push(`${subject} for ${plural(labels.length, chart.shares ? 'slice' : 'label')}: ${listOf(labels)}.`);
+    }
+  } else {
+    sentences.push(`${capitalize(chart.yName)} against ${chart.xName}.`);
+  }
+
+  const named = described.length > 1;
+  if (named) {
+    const names = described.map(series => series.name);
+    sentences.push(`${plural(described.length, 'series')}: ${listOf(names.length > MAX_DESCRIBED_SERIES ? [...names.slice(0, MAX_DESCRIBED_SERIES), 'others'] : names)}.`);
+  }
+  for (const series of described.slice(0, MAX_DESCRIBED_SERIES)) {
+    sentences.push(...(chart.shape === 'category' ? describeCategorySeries(chart, series, named) : describePointSeries(chart, series, named)));
+  }
+  const derived = chart.series.filter(series => series.derived);
+  if (derived.length > 0) sentences.push(`Also shows ${listOf(derived.map(series => series.name))}.`);
+  return sentences.join(' ');
+}
+
+interface Table {
+  caption: string;
+  header: string[];
+  /** The first cell of each row is its header; numeric columns are right-aligned */
+  rows: string[][];
+  numeric: boolean[];
+}
+
+function tableOf(chart: PlottedChart): Table {
+  const caption = chart.title || `${chart.typeName} data`;
+  const cell = (value: number | null | undefined) => (value === null || value === undefined ? 'n/a' : formatNumber(value));
+
+  if (chart.shape !== 'category') {
+    const named = chart.series.length > 1;
+    const header = [...(named ? ['Series'] : []), chart.xName, chart.yName, ...(chart.rName ? [chart.rName] : [])];
+    const rows = chart.series.flatMap(series =>
+      series.points.map(p => [...(named ? [series.name] : []), cell(p.x), cell(p.y), ...(chart.rName ? [cell(p.r)] : [])])
+    );
+    return { caption, header, rows, numeric: header.map((_, i) => !(named && i === 0)) };
+  }
+
+  // A single pie or doughnut series gets a share column
+  if (chart.shares && chart.series.length === 1) {
+    const [series] = chart.series;
+    const total = series.values.reduce<number>((sum, value) => sum + (value ?? 0), 0);
+    const rows = chart.labels.map((label, i) => {
+      const value = series.values[i];
+      return [label, cell(value), value === null || total === 0 ? 'n/a' : formatPercent(value / total)];
+    });
+    return { caption, header: [chart.xName, chart.yName, 'Share'], rows, numeric: [false, true, true] };
+  }
+
+  // A single plotted series is headed by the value name; its dataset label is often just the chart title
+  const single = chart.series.filter(series => !series.derived).length === 1;
+  const header = [chart.xName, ...chart.series.map(series => (single && !series.derived ? chart.yName : series.name))];
+  const rows = chart.labels.map((label, i) => [label, ...chart.series.map(series => cell(series.values[i]))]);
+  return { caption, header, rows, numeric: header.map((_, i) => i > 0) };
+}
+
+const escapeMarkdown = (text: string) => text.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * A table of the plotted values: one row per label (or per point for scatter and bubble charts) and one
+ * column per series. HTML tables have a caption and scoped row and column headers for screen readers.
+ */
+export function chartDataTable(chart: PlottedChart, format: DataTableFormat = 'markdown'): string {
+  const { caption, header, rows, numeric } = tableOf(chart);
+  if (format === 'html') {
+    const headerCells = header.map(name => `<th scope="col">${escapeHtml(name)}</th>`).join('');
+    const bodyRows = rows.map(row =>
+      `    <tr>${row.map((value, i) => (i === 0 ? `<th scope="row">${escapeHtml(value)}</th>` : `<td>${escapeHtml(value)}</td>`)).join('')}</tr>`
+    );
+    return [
+      '<table>',
+      `  <caption>${escapeHtml(caption)}</caption>`,
+      `  <thead><tr>${headerCells}</tr></thead>`,
+      '  <tbody>',
+      ...bodyRows,
+      '  </tbody>',
+      '</table>',
+    ].join('\n');
+  }
+  const line = (cells: string[]) => `| ${cells.map(escapeMarkdown).join(' | ')} |`;
+  return [
+    line(header),
+    `| ${numeric.map(isNumeric => (isNumeric ? '---:' : '---')).join(' | ')} |`,
+    ...rows.map(line),
+  ].join('\n');
+}
+
+/**
+ * The description as message parts: the alt text and the data table, told apart by `metadata.kind`
+ * (`alt-text` or `data-table`, with the table's `contentType`).
+ */
+export function descriptionParts({ altText, table, tableFormat }: ChartDescription): TextPart[] {
+  return [
+    { type: 'text', text: altText, metadata: { kind: 'alt-text' } },
+    { type: 'text', text: table, metadata: { kind: 'data-table', contentType: tableFormat === 'html' ? 'text/html' : 'text/markdown' } },
+  ];
+}
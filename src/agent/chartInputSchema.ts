@@ -0,0 +1,265 @@
+// src/agent/chartInputSchema.ts
+// Zod schema for the chart request carried in a task's DataPart. It is the single source of truth for
+// validation and for the `inputSchema` advertised on the agent card.
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { SUPPORTED_CHART_TYPES, canonicalChartType, getChartTypeSpec, validateChartData, formatChartDataIssue } from './chartTypes';
+import { applyTransforms, TransformError } from './transform';
+import { RESAMPLE_UNITS, isTimeZone, validateTimeSeries } from './timeSeries';
+import { isDataFilePart, parseDataFile, withDataFileRows } from './dataFiles';
+import { getTheme, listThemes } from './themes';
+
+const FieldNameSchema = z.string().min(1);
+
+const ImageFormatSchema = z.enum(['svg', 'png']);
+
+export const ChartEncodingSchema = z.object({
+  x: FieldNameSchema.optional().describe('Field holding the category label (or the x value for scatter and bubble charts)'),
+  y: z.union([FieldNameSchema, z.array(FieldNameSchema).min(1)]).optional()
+    .describe('Value field, or several fields to draw one series each'),
+  series: FieldNameSchema.optional().describe('Field whose values group long-format rows into series'),
+  r: FieldNameSchema.optional().describe('Bubble radius field'),
+}).strict().describe("Maps data fields to chart roles. Roles that are omitted fall back to the default field names.");
+
+const AggregateOpSchema = z.enum(['sum', 'avg', 'min', 'max', 'count', 'median']);
+
+const FieldListSchema = z.union([FieldNameSchema, z.array(FieldNameSchema).min(1)]);
+
+export const TransformStepSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('filter'),
+    expr: z.string().min(1).describe("Keep the rows for which this expression is true, e.g. \"region == 'North' && sales > 100\""),
+  }).strict(),
+  z.object({
+    type: z.literal('derive'),
+    as: FieldNameSchema,
+    expr: z.string().min(1).describe('Expression computing the new field, e.g. "round(profit / revenue * 100, 1)"'),
+  }).strict(),
+  z.object({
+    type: z.literal('groupBy'),
+    by: FieldListSchema,
+    aggregates: z.array(z.object({
+      op: AggregateOpSchema,
+      field: FieldNameSchema.optional().describe("Field to aggregate; optional for 'count', which then counts rows"),
+      as: FieldNameSchema.optional().describe("Output field (default '<op>_<field>', or 'count')"),
+    }).strict()).min(1),
+  }).strict(),
+  z.object({
+    type: z.literal('sort'),
+    by: FieldListSchema,
+    order: z.enum(['asc', 'desc']).optional(),
+  }).strict(),
+  z.object({
+    type: z.literal('limit'),
+    count: z.number().int().nonnegative(),
+  }).strict(),
+  z.object({
+    type: z.literal('top'),
+    count: z.number().int().positive(),
+    by: FieldNameSchema.describe('Keep the rows with the largest values of this field'),
+    other: z.string().optional().describe('Label of a row collecting the remaining rows (numeric fields summed)'),
+  }).strict(),
+  z.object({
+    type: z.literal('pivot'),
+    key: FieldNameSchema.describe('Field whose values become columns'),
+    value: FieldNameSchema.describe('Field holding the column values'),
+    op: AggregateOpSchema.optional().describe('How values for the same row and column combine (default sum)'),
+    groupBy: FieldListSchema.optional().describe('Fields identifying a row (default: all other fields)'),
+  }).strict(),
+  z.object({
+    type: z.literal('unpivot'),
+    fields: z.array(FieldNameSchema).min(1).describe('Columns to turn into rows'),
+    key: FieldNameSchema.optional().describe("Field receiving the column name (default 'key')"),
+    value: FieldNameSchema.optional().describe("Field receiving the column value (default 'value')"),
+  }).strict(),
+]);
+
+export type TransformStep = z.infer<typeof TransformStepSchema>;
+export type AggregateOp = z.infer<typeof AggregateOpSchema>;
+
+export const TimeOptionsSchema = z.object({
+  axis: z.enum(['auto', 'time', 'category']).optional()
+    .describe("'auto' (default) uses a time axis for bar and line charts whose x values are all dates; 'category' keeps them as labels"),
+  resample: z.enum(RESAMPLE_UNITS).optional().describe('Aggregate the rows into buckets of this size'),
+  aggregate: AggregateOpSchema.optional().describe('How values in the same bucket combine (default sum)'),
+  fillGaps: z.enum(['none', 'zero', 'previous', 'interpolate']).optional()
+    .describe('What missing values (e.g. empty buckets) become (default none: a gap in the line)'),
+  timezone: z.string().refine(isTimeZone, { message: 'unknown time zone' }).optional()
+    .describe("IANA time zone for dates without an offset, bucket boundaries and axis labels (default 'UTC')"),
+  dayFirst: z.boolean().optional().describe('Read 01/02/2024 as 1 February (detected when a value only makes sense day first)'),
+  rollingAverage: z.number().int().min(2).optional()
+    .describe('Add a rolling average series per dataset over this many points (buckets when resampling)'),
+}).strict();
+
+export type TimeOptions = z.infer<typeof TimeOptionsSchema>;
+
+export const AccessibilityOptionsSchema = z.object({
+  dataTable: z.enum(['markdown', 'html']).optional().describe('Format of the data table returned with the chart (default markdown)'),
+  colorblindSafe: z.boolean().optional().describe("Colour the series with a colour-blind safe palette instead of the theme's palette"),
+}).strict();
+
+export type AccessibilityOptions = z.infer<typeof AccessibilityOptionsSchema>;
+
+export const ChartOptionsSchema = z.object({
+  title: z.string().optional(),
+  xAxisLabel: z.string().optional(),
+  yAxisLabel: z.string().optional(),
+  valueScale: z.enum(['linear', 'logarithmic']).optional().describe('Scale of the value axis of bar, line, scatter and bubble charts (default linear)'),
+  width: z.number().int().positive().max(4096).optional().describe('Image width in pixels (default 800)'),
+  height: z.number().int().positive().max(4096).optional().describe('Image height in pixels (default 600)'),
+  theme: z.string()
+    .refine(name => !!getTheme(name), name => ({
+      message: `unknown theme '${name}' (available: ${listThemes().map(theme => theme.name).join(', ')})`,
+    }))
+    .optional()
+    .describe('Named look: series palette, fonts, gridlines, background and title style (default light; see the agent card for all themes)'),
+  fontFamily: z.string().optional().describe("Font for all text (default: the theme's font)"),
+  format: z.union([ImageFormatSchema, z.array(ImageFormatSchema).min(1)]).optional()
+    .describe('Image format, or several formats to attach to the chart artifact (default svg)'),
+  backgroundColor: z.string().optional().describe("Image background, or 'transparent' (default: the theme's background)"),
+  time: TimeOptionsSchema.optional().describe('Time axis, resampling and rolling averages for bar and line charts over dates'),
+  accessibility: AccessibilityOptionsSchema.optional().describe('Alt text and data table returned with every chart, and colour-blind safe colours'),
+}).passthrough().describe('Chart options. Unrecognised keys are passed through to the Chart.js configuration.');
+
+export const ChartInputSchema = z.object({
+  chartType: z.preprocess(
+    value => (typeof value === 'string' ? canonicalChartType(value) ?? value : value),
+    z.enum(SUPPORTED_CHART_TYPES)
+  ).describe(
+    "Type of chart to generate. Category charts (bar, horizontalBar, line, pie, doughnut, polarArea, radar) read 'label' and 'value' from each data point; scatter reads 'x' and 'y'; bubble reads 'x', 'y' and 'r'."
+  ),
+  data: z.array(z.record(z.any())).describe('Data for the chart, one object per row. Omit it when the rows are attached as a CSV, TSV or JSON Lines file part.'),
+  transform: z.array(TransformStepSchema).optional()
+    .describe('Steps applied to the rows, in order, before they are charted (filter, derive, groupBy, sort, limit, top, pivot, unpivot)'),
+  encoding: ChartEncodingSchema.optional(),
+  options: ChartOptionsSchema.optional(),
+}).superRefine((input, ctx) => {
+  // Checks that depend on the row contents (missing values, unknown encoding fields). With a transform,
+  // the transformed rows are checked and their problems are reported against the transform.
+  let rows = input.data;
+  if (input.transform) {
+    try {
+      rows = applyTransforms(input.data, input.transform);
+    } catch (error) {
+      if (!(error instanceof TransformError)) throw error;
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['transform', ...error.path], message: error.message });
+      return;
+    }
+  }
+  const spec = getChartTypeSpec(input.chartType)!;
+  const issues = [...validateChartData(spec, rows, input.encoding), ...validateTimeSeries(spec, rows, input.encoding, input.options?.time)];
+  for (const issue of issues) {
+    const transformed = input.transform && issue.path[0] === 'data';
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: transformed ? ['transform'] : issue.path,
+      message: transformed ? `transformed ${formatChartDataIssue(issue)}` : issue.message,
+    });
+  }
+});
+
+export type ChartInput = z.infer<typeof ChartInputSchema>;
+
+/** JSON Schema for the chart request, published as the agent card's `inputSchema`. */
+export const chartInputJsonSchema = (() => {
+  const { $schema, ...schema } = zodToJsonSchema(ChartInputSchema, { $refStrategy: 'none' }) as Record<string, unknown>;
+  return schema;
+})();
+
+/** Most charts a single batch request may ask for */
+export const MAX_BATCH_CHARTS = 100;
+
+/**
+ * A batch request: several charts rendered in parallel, each as a child task of one parent task.
+ * Each chart is validated on its own when it is rendered, so one bad chart only fails its child task.
+ */
+export const ChartBatchInputSchema = z.object({
+  charts: z.array(z.union([
+    z.record(z.any()).describe('A chart request, as for a single chart'),
+    z.string().trim().min(1).describe('A chart described in plain language'),
+  ])).min(1).max(MAX_BATCH_CHARTS),
+  maxConcurrency: z.number().int().min(1).max(16).optional().describe('How many charts to render at the same time'),
+}).strict();
+
+export type ChartBatchInput = z.infer<typeof ChartBatchInputSchema>;
+
+/** Index of the DataPart carrying a batch request (its data holds a `charts` array), or -1. */
+export function findChartBatchPart(parts: any[]): number {
+  return parts.findIndex(part =>
+    part?.type === 'data' && part.data && typeof part.data === 'object' && Array.isArray(part.data.charts)
+  );
+}
+
+/** Index of the DataPart carrying a structured chart request (its data names a `chartType`), or -1. */
+export function findChartRequestPart(parts: any[]): number {
+  return parts.findIndex(part =>
+    part?.type === 'data' && part.data && typeof part.data === 'object' && !Array.isArray(part.data) && 'chartType' in part.data
+  );
+}
+
+/**
+ * Validate the chart request inside a task payload, for use as the A2A handlers' `validateInput` hook.
+ * Issue paths are relative to the task payload (e.g. `input.parts.0.data.data.2`) so clients can locate them;
+ * problems with rows from a data file point at the file part and the row within it (`input.parts.1.rows.2`).
+ * Natural-language requests (a TextPart without a structured request) are checked after the LLM has answered.
+ * For a batch request only the batch itself is checked (see ChartBatchInputSchema).
+ */
+export function validateChartTaskInput(payload: any): { success: boolean; error?: z.ZodError } {
+  const parts: any[] = Array.isArray(payload?.input?.parts) ? payload.input.parts : [];
+  const fail = (issues: z.ZodIssue[]) => ({ success: false as const, error: new z.ZodError(issues) });
+
+  // Batches are checked as a whole here; their charts are validated one by one as they are rendered
+  const batchIndex = findChartBatchPart(parts);
+  if (batchIndex !== -1) {
+    const batch = ChartBatchInputSchema.safeParse(parts[batchIndex].data);
+    if (batch.success) return { success: true as const };
+    return fail(batch.error.issues.map(issue => ({ ...issue, path: ['input', 'parts', batchIndex, 'data', ...issue.path] })));
+  }
+
+  // Parse attached data files first, remembering where each row came from
+  const fileRows: Record<string, any>[] = [];
+  const rowOrigins: (string | number)[][] = [];
+  const fileIssues: z.ZodIssue[] = [];
+  parts.forEach((part, i) => {
+    if (!isDataFilePart(part)) return;
+    try {
+      parseDataFile(part).rows.forEach((row, r) => {
+        fileRows.push(row);
+        rowOrigins.push(['input', 'parts', i, 'rows', r]);
+      });
+    } catch (error) {
+      fileIssues.push({ code: z.ZodIssueCode.custom, path: ['input', 'parts', i, 'data'], message: (error as Error).message });
+    }
+  });
+  if (fileIssues.length > 0) return fail(fileIssues);
+  const hasFiles = rowOrigins.length > 0 || parts.some(part => isDataFilePart(part));
+
+  let index = findChartRequestPart(parts);
+  if (index === -1) {
+    if (parts.some(part => part?.type === 'text' && typeof part.text === 'string' && part.text.trim())) {
+      return { success: true as const };
+    }
+    index = parts.findIndex(part => part?.type === 'data');
+  }
+  if (index === -1) {
+    return fail([
+      { code: z.ZodIssueCode.custom, path: ['input', 'parts'], message: 'Expected a data part containing the chart request or a text part describing it' },
+    ]);
+  }
+  const prefix = ['input', 'parts', index, 'data'];
+  let request = parts[index].data;
+  if (hasFiles) {
+    try {
+      request = withDataFileRows(request, fileRows);
+    } catch (error) {
+      return fail([{ code: z.ZodIssueCode.custom, path: [...prefix, 'data'], message: (error as Error).message }]);
+    }
+  }
+  const result = ChartInputSchema.safeParse(request);
+  if (result.success) return result;
+  return fail(result.error.issues.map(issue => {
+    const [key, row, ...rest] = issue.path;
+    const fromFile = hasFiles && key === 'data' && typeof row === 'number' && rowOrigins[row];
+    return { ...issue, path: fromFile ? [...fromFile, ...rest] : [...prefix, ...issue.path] };
+  }));
+}
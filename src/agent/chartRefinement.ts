@@ -0,0 +1,138 @@
+// src/agent/chartRefinement.ts
+// Follow-up messages on a chart task: answers to the agent's question and change requests such as
+// "make it a line chart" or "log scale on y", applied to the task's current chart request.
+import { Part } from '../core/a2a/src/types';
+import { LLMClient } from '../core/llm/LLMClient';
+import { ChartInput, ChartInputSchema } from './chartInputSchema';
+import { ChartEncoding, SupportedChartType, formatChartDataIssue } from './chartTypes';
+import { interpretChartRefinement } from './chartRequestInterpreter';
+import { isDataFilePart, rowsFromDataFiles } from './dataFiles';
+import { listThemes } from './themes';
+
+/** A question the agent asked because the request was ambiguous; the answer fills in `encoding[field]`. */
+export interface ChartQuestion {
+  field: 'x';
+  text: string;
+  options: string[];
+}
+
+/**
+ * Partial chart request; encoding and options (including `options.time` and `options.accessibility`) are merged
+ * into the current ones key by key, `transform` replaces the steps.
+ */
+export interface ChartRequestPatch {
+  chartType?: string;
+  data?: Record<string, any>[];
+  transform?: Record<string, any>[];
+  encoding?: ChartEncoding;
+  options?: Record<string, any>;
+}
+
+// Phrases naming a chart type, checked in order so "horizontal bar" wins over "bar"
+const CHART_TYPE_PHRASES: [RegExp, SupportedChartType][] = [
+  [/\bhorizontal[\s-]?bars?\b/, 'horizontalBar'],
+  [/\bpolar[\s-]?area\b/, 'polarArea'],
+  [/\b(doughnut|donut)s?\b/, 'doughnut'],
+  [/\bpies?\b/, 'pie'],
+  [/\bradar\b/, 'radar'],
+  [/\bscatter\b/, 'scatter'],
+  [/\bbubbles?\b/, 'bubble'],
+  [/\blines?\b/, 'line'],
+  [/\bbars?\b/, 'bar'],
+];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const RESAMPLE_PHRASES: [RegExp, string][] = [
+  [/\b(hourly|per hour|by hour)\b/, 'hour'],
+  [/\b(daily|per day|by day)\b/, 'day'],
+  [/\b(weekly|per week|by week)\b/, 'week'],
+  [/\b(monthly|per month|by month)\b/, 'month'],
+];
+
+/**
+ * Recognise the common follow-ups without an LLM: the answer to a pending question, a chart type,
+ * a linear or log value scale, a quoted title, a resampling ("weekly"), a rolling average
+ * ("7-day rolling average"), a theme ("dark theme", "high contrast mode") and colour-blind safe colours.
+ * Returns undefined when nothing was recognised.
+ */
+export function parseRefinement(text: string, question?: ChartQuestion): ChartRequestPatch | undefined {
+  const lower = text.toLowerCase();
+  const patch: ChartRequestPatch = {};
+
+  const answer = question?.options.find(option => new RegExp(`(^|\\W)${escapeRegExp(option.toLowerCase())}($|\\W)`).test(lower));
+  if (question && answer) patch.encoding = { [question.field]: answer };
+
+  const chartType = CHART_TYPE_PHRASES.find(([phrase]) => phrase.test(lower))?.[1];
+  if (chartType) patch.chartType = chartType;
+
+  const options: Record<string, any> = {};
+  if (/\blog(arithmic)?\b/.test(lower)) options.valueScale = 'logarithmic';
+  else if (/\blinear\b/.test(lower)) options.valueScale = 'linear';
+  const title = text.match(/\btitle\b[^"“]*["“]([^"”]+)["”]/i);
+  if (title) options.title = title[1];
+  const theme = listThemes().find(({ name }) =>
+    new RegExp(`\\b${name.split('-').map(escapeRegExp).join('[\\s-]?')}\\s+(theme|mode)\\b`).test(lower)
+  );
+  if (theme) options.theme = theme.name;
+  if (/\bcolou?r[\s-]?blind(ness)?[\s-]?(safe|friendly)\b/.test(lower)) options.accessibility = { colorblindSafe: true };
+  const time: Record<string, any> = {};
+  const resample = RESAMPLE_PHRASES.find(([phrase]) => phrase.test(lower))?.[1];
+  if (resample) time.resample = resample;
+  const rolling = lower.match(/\b(\d+)[\s-]?(?:point|day|week|month|hour)?s?\s+(?:rolling|moving)\s+(?:average|mean)\b/);
+  if (rolling && Number(rolling[1]) >= 2) time.rollingAverage = Number(rolling[1]);
+  if (Object.keys(time).length > 0) options.time = time;
+  if (Object.keys(options).length > 0) patch.options = options;
+
+  return Object.keys(patch).length > 0 ? patch : undefined;
+}
+
+/** Apply a patch to a chart request. The result still has to be validated. */
+export function mergeChartRequest(current: ChartInput, patch: ChartRequestPatch): Record<string, any> {
+  return {
+    ...current,
+    ...(patch.chartType && { chartType: patch.chartType }),
+    ...(patch.data && { data: patch.data }),
+    ...(patch.transform && { transform: patch.transform }),
+    ...(patch.encoding && { encoding: { ...current.encoding, ...patch.encoding } }),
+    ...(patch.options && {
+      options: {
+        ...current.options,
+        ...patch.options,
+        ...(patch.options.time && { time: { ...current.options?.time, ...patch.options.time } }),
+        ...(patch.options.accessibility && { accessibility: { ...current.options?.accessibility, ...patch.options.accessibility } }),
+      },
+    }),
+  };
+}
+
+/**
+ * Produce the next version of a chart request from a follow-up message.
+ * DataParts are applied as patches (`{ "options": { "title": "Q3" } }`) and data files replace the rows;
+ * text is matched against `parseRefinement` first and otherwise handed to the LLM with the current request.
+ */
+export async function refineChartRequest(
+  current: ChartInput,
+  parts: Part[],
+  question?: ChartQuestion,
+  client?: LLMClient
+): Promise<ChartInput> {
+  const patches = parts.flatMap(part =>
+    part.type === 'data' && part.data && typeof part.data === 'object' && !Array.isArray(part.data) ? [part.data as ChartRequestPatch] : []
+  );
+  if (parts.some(isDataFilePart)) patches.push({ data: rowsFromDataFiles(parts) });
+  const text = parts.flatMap(part => (part.type === 'text' ? [part.text] : [])).join('\n').trim();
+  const parsed = text ? parseRefinement(text, question) : undefined;
+  if (parsed) patches.push(parsed);
+
+  if (patches.length === 0) {
+    if (!text) throw new Error('The message has no change to apply to the chart.');
+    return interpretChartRefinement(current, text, client);
+  }
+
+  const result = ChartInputSchema.safeParse(patches.reduce<Record<string, any>>((request, patch) => mergeChartRequest(request as ChartInput, patch), current));
+  if (!result.success) {
+    throw new Error(`Could not apply the change to the chart: ${result.error.issues.map(formatChartDataIssue).join('; ')}`);
+  }
+  return result.data;
+}
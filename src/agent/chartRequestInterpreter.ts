@@ -0,0 +1,161 @@
+// src/agent/chartRequestInterpreter.ts
+// Turns a natural-language chart request ("bar chart of revenue by region") into a validated chart request
+// by asking an LLM for the chart type, encoding and titles.
+import { LLMClient, LLMMessage } from '../core/llm/LLMClient';
+import { OpenAIClient } from '../core/llm/OpenAIClient';
+import { Part } from '../core/a2a/src/types';
+import { ChartInputSchema, ChartInput } from './chartInputSchema';
+import { SUPPORTED_CHART_TYPES, formatChartDataIssue } from './chartTypes';
+import { listThemes } from './themes';
+
+// Rows shown to the LLM; the full data set is attached after it answers
+const SAMPLE_ROWS = 20;
+
+let llmClient: LLMClient | undefined;
+
+/**
+ * Override the LLM used for natural-language requests (e.g. with a mock in tests).
+ */
+export function setLLMClient(client: LLMClient | undefined): void {
+  llmClient = client;
+}
+
+/**
+ * The configured LLM client, falling back to OpenAI when OPENAI_API_KEY is set.
+ */
+export function getLLMClient(): LLMClient {
+  if (!llmClient) {
+    if (!process.env.OPENAI_API_KEY) {
+      throw new Error('Natural-language chart requests need an LLM: set OPENAI_API_KEY or send a structured DataPart.');
+    }
+    llmClient = new OpenAIClient();
+  }
+  return llmClient;
+}
+
+// How to ask for filtered, aggregated or ranked data instead of the raw rows
+const TRANSFORM_HINT = [
+  '"transform" is an optional list of steps applied to the rows in order: {"type": "filter", "expr": "region == \'North\' && sales > 100"},',
+  ' {"type": "groupBy", "by": string | string[], "aggregates": [{"op": "sum" | "avg" | "min" | "max" | "count" | "median", "field"?: string, "as"?: string}]},',
+  ' {"type": "sort", "by": string | string[], "order"?: "asc" | "desc"}, {"type": "limit", "count": number},',
+  ' {"type": "top", "count": number, "by": string, "other"?: string}, {"type": "pivot", "key": string, "value": string},',
+  ' {"type": "derive", "as": string, "expr": string}. Aggregated fields are named "<op>_<field>" unless "as" is given.',
+].join('\n');
+
+// Bar and line charts over dates get a time axis automatically; these options shape it
+const TIME_HINT = [
+  'For bar and line charts over dates, "options" may have "time": {"resample"?: "hour" | "day" | "week" | "month",',
+  ' "aggregate"?: "sum" | "avg" | "min" | "max" | "count" | "median", "fillGaps"?: "none" | "zero" | "previous" | "interpolate",',
+  ' "timezone"?: string, "rollingAverage"?: number}.',
+].join('\n');
+
+// Themes can be added at startup, so the list is read when the prompt is built. Also covers colour-blind safe colours.
+const themeHint = () =>
+  `"options" may name a "theme" for the look of the chart: ${listThemes().map(theme => theme.name).join(', ')}. Only set it when the request asks for a look.\n` +
+  'Set "options": {"accessibility": {"colorblindSafe": true}} when colour-blind safe colours are asked for.';
+
+function buildPrompt(request: string, rows: Record<string, any>[]): LLMMessage[] {
+  const fields = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+  const system = [
+    'You turn chart requests into a JSON chart specification. Reply with a single JSON object and nothing else.',
+    'Shape: {"chartType": string, "encoding"?: {"x"?: string, "y"?: string | string[], "series"?: string, "r"?: string},',
+    ' "options"?: {"title"?: string, "xAxisLabel"?: string, "yAxisLabel"?: string, "valueScale"?: "linear" | "logarithmic"},',
+    ' "transform"?: object[], "data"?: object[]}',
+    TRANSFORM_HINT,
+    TIME_HINT,
+    themeHint(),
+    `chartType must be one of: ${SUPPORTED_CHART_TYPES.join(', ')}.`,
+    'Encoding values must be field names from the data, or fields produced by the transform. Use "series" for long-format rows and a "y" array for wide-format rows.',
+    rows.length > 0
+      ? 'Do not include "data"; the rows are attached after you answer.'
+      : 'No data is attached: put the values mentioned in the request in "data" as objects with "label" and "value".',
+  ].join('\n');
+  const user = rows.length > 0
+    ? `Request: ${request}\n\nFields: ${fields.join(', ')}\nSample rows (${Math.min(rows.length, SAMPLE_ROWS)} of ${rows.length}):\n${JSON.stringify(rows.slice(0, SAMPLE_ROWS))}`
+    : `Request: ${request}`;
+  return [{ role: 'system', content: system }, { role: 'user', content: user }];
+}
+
+// LLMs often wrap JSON in a markdown code fence or add a sentence around it
+function extractJson(reply: string): any {
+  const fenced = reply.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1] : reply.slice(reply.indexOf('{'), reply.lastIndexOf('}') + 1);
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    throw new Error(`LLM reply is not valid JSON: ${reply.slice(0, 200)}`);
+  }
+}
+
+/**
+ * Collect data rows from the DataParts of a natural-language request.
+ * A part may hold the rows directly or under `data` (`{ data: [...] }`).
+ */
+export function rowsFromParts(parts: Part[]): Record<string, any>[] {
+  return parts.flatMap(part => {
+    if (part.type !== 'data') return [];
+    const rows = Array.isArray(part.data) ? part.data : Array.isArray(part.data?.data) ? part.data.data : [];
+    return rows.filter((row: unknown) => row && typeof row === 'object' && !Array.isArray(row));
+  });
+}
+
+/**
+ * Infer a chart request from free text and optional data rows.
+ * The LLM's answer is validated against `ChartInputSchema` exactly like a structured request.
+ */
+export async function interpretChartRequest(
+  request: string,
+  rows: Record<string, any>[] = [],
+  client: LLMClient = getLLMClient()
+): Promise<ChartInput> {
+  const reply = await client.generate(buildPrompt(request, rows));
+  const suggestion = extractJson(reply);
+  if (!suggestion || typeof suggestion !== 'object' || Array.isArray(suggestion)) {
+    throw new Error('LLM reply is not a JSON object.');
+  }
+  const candidate = rows.length > 0 ? { ...suggestion, data: rows } : suggestion;
+  const parsed = ChartInputSchema.safeParse(candidate);
+  if (!parsed.success) {
+    throw new Error(`Could not build a valid chart from the request: ${parsed.error.issues.map(formatChartDataIssue).join('; ')}`);
+  }
+  return parsed.data;
+}
+
+function buildRefinementPrompt(current: ChartInput, instruction: string): LLMMessage[] {
+  const { data, ...spec } = current;
+  const fields = Array.from(new Set(data.flatMap(row => Object.keys(row))));
+  const system = [
+    'You update a JSON chart specification according to an instruction. Reply with the complete updated JSON object and nothing else.',
+    'Shape: {"chartType": string, "encoding"?: {"x"?: string, "y"?: string | string[], "series"?: string, "r"?: string},',
+    ' "options"?: {"title"?: string, "xAxisLabel"?: string, "yAxisLabel"?: string, "valueScale"?: "linear" | "logarithmic"},',
+    ' "transform"?: object[]}',
+    TRANSFORM_HINT,
+    TIME_HINT,
+    themeHint(),
+    `chartType must be one of: ${SUPPORTED_CHART_TYPES.join(', ')}.`,
+    'Encoding values must be field names from the data, or fields produced by the transform. Do not include "data"; the rows stay attached.',
+  ].join('\n');
+  const user = `Current specification: ${JSON.stringify(spec)}\nFields: ${fields.join(', ')}\n\nInstruction: ${instruction}`;
+  return [{ role: 'system', content: system }, { role: 'user', content: user }];
+}
+
+/**
+ * Apply a free-text follow-up ("make the title shorter") to an existing chart request.
+ * The LLM only sees the current spec and the field names; the rows are kept as they are.
+ */
+export async function interpretChartRefinement(
+  current: ChartInput,
+  instruction: string,
+  client: LLMClient = getLLMClient()
+): Promise<ChartInput> {
+  const reply = await client.generate(buildRefinementPrompt(current, instruction));
+  const suggestion = extractJson(reply);
+  if (!suggestion || typeof suggestion !== 'object' || Array.isArray(suggestion)) {
+    throw new Error('LLM reply is not a JSON object.');
+  }
+  const parsed = ChartInputSchema.safeParse({ ...suggestion, data: current.data });
+  if (!parsed.success) {
+    throw new Error(`Could not apply the change to the chart: ${parsed.error.issues.map(formatChartDataIssue).join('; ')}`);
+  }
+  return parsed.data;
+}
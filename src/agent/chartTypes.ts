@@ -0,0 +1,319 @@
+// src/agent/chartTypes.ts
+// Supported chart types and how input rows map onto Chart.js data for each of them.
+import { ChartTheme, getTheme, withAlpha } from './themes';
+
+/**
+ * How a chart type reads its input rows:
+ * - `category`: one label and one numeric value per row (bar, line, pie, ...)
+ * - `xy`: numeric x and y per row (scatter)
+ * - `xyr`: numeric x, y and bubble radius per row (bubble)
+ */
+export type ChartDataShape = 'category' | 'xy' | 'xyr';
+
+export interface ChartTypeSpec {
+  /** Chart.js `type` to render with */
+  chartJsType: string;
+  shape: ChartDataShape;
+  /** Which scales the chart uses: x/y, a single radial `r` scale, or none */
+  axes: 'cartesian' | 'radial' | 'none';
+  /** Chart.js `indexAxis`; 'y' turns bars horizontal */
+  indexAxis?: 'x' | 'y';
+  /** Values must be >= 0 (slice sizes) */
+  nonNegative?: boolean;
+  /** Colour each data point individually instead of each dataset */
+  perPointColors?: boolean;
+}
+
+// Keyed by the lower-cased chartType accepted in task input
+const CHART_TYPES: Record<string, ChartTypeSpec> = {
+  bar: { chartJsType: 'bar', shape: 'category', axes: 'cartesian' },
+  horizontalbar: { chartJsType: 'bar', shape: 'category', axes: 'cartesian', indexAxis: 'y' },
+  line: { chartJsType: 'line', shape: 'category', axes: 'cartesian' },
+  pie: { chartJsType: 'pie', shape: 'category', axes: 'none', nonNegative: true, perPointColors: true },
+  doughnut: { chartJsType: 'doughnut', shape: 'category', axes: 'none', nonNegative: true, perPointColors: true },
+  polararea: { chartJsType: 'polarArea', shape: 'category', axes: 'radial', nonNegative: true, perPointColors: true },
+  radar: { chartJsType: 'radar', shape: 'category', axes: 'radial' },
+  scatter: { chartJsType: 'scatter', shape: 'xy', axes: 'cartesian' },
+  bubble: { chartJsType: 'bubble', shape: 'xyr', axes: 'cartesian' },
+};
+
+/** Chart type names accepted in task input, as advertised on the agent card */
+export const SUPPORTED_CHART_TYPES = ['bar', 'horizontalBar', 'line', 'pie', 'doughnut', 'polarArea', 'radar', 'scatter', 'bubble'] as const;
+
+export type SupportedChartType = (typeof SUPPORTED_CHART_TYPES)[number];
+
+// Field names tried, in order, when reading each role from an input row
+const FIELD_CANDIDATES = {
+  label: ['label', 'month', 'category', 'name', 'date', 'time', 'timestamp'],
+  value: ['value', 'sales', 'count', 'y'],
+  x: ['x'],
+  y: ['y', 'value'],
+  r: ['r', 'radius', 'size'],
+};
+
+const normalizeChartType = (chartType: string) => chartType.replace(/[\s_-]/g, '').toLowerCase();
+
+export function getChartTypeSpec(chartType: string): ChartTypeSpec | undefined {
+  return CHART_TYPES[normalizeChartType(chartType)];
+}
+
+/** Map a loosely written chart type ('Pie', 'horizontal-bar') to its advertised name, if supported. */
+export function canonicalChartType(chartType: string): SupportedChartType | undefined {
+  const normalized = normalizeChartType(chartType);
+  return SUPPORTED_CHART_TYPES.find(name => name.toLowerCase() === normalized);
+}
+
+/**
+ * Explicit mapping from input row fields to chart roles.
+ * - Wide format: several `y` fields become one dataset each (`{ x: 'region', y: ['q1', 'q2'] }`).
+ * - Long format: rows are grouped into datasets by the `series` field (`{ x: 'month', y: 'sales', series: 'product' }`).
+ * Roles that are omitted fall back to the default field names.
+ */
+export interface ChartEncoding {
+  x?: string;
+  y?: string | string[];
+  series?: string;
+  r?: string;
+}
+
+type Accessor = (row: Record<string, any>) => any;
+
+interface FieldAccessor {
+  name: string;
+  candidates: string[];
+  get: Accessor;
+}
+
+interface ResolvedEncoding {
+  explicit: boolean;
+  x: FieldAccessor;
+  y: FieldAccessor[];
+  r: FieldAccessor;
+  series?: Accessor;
+}
+
+function pickField(row: Record<string, any>, candidates: string[]): any {
+  const key = candidates.find(name => row[name] !== undefined && row[name] !== null);
+  return key === undefined ? undefined : row[key];
+}
+
+function toNumber(raw: any): number | undefined {
+  const value = typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw;
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function field(name: string | undefined, role: string, candidates: string[]): FieldAccessor {
+  return name
+    ? { name, candidates: [name], get: (row: Record<string, any>) => row[name] }
+    : { name: role, candidates, get: (row: Record<string, any>) => pickField(row, candidates) };
+}
+
+function resolveEncoding(spec: ChartTypeSpec, encoding?: ChartEncoding): ResolvedEncoding {
+  const ys = encoding?.y === undefined ? [undefined] : Array.isArray(encoding.y) ? encoding.y : [encoding.y];
+  const yRole = spec.shape === 'category' ? 'value' : 'y';
+  const yCandidates = spec.shape === 'category' ? FIELD_CANDIDATES.value : FIELD_CANDIDATES.y;
+  const seriesField = encoding?.series;
+  return {
+    explicit: !!encoding,
+    x: field(encoding?.x, spec.shape === 'category' ? 'label' : 'x', spec.shape === 'category' ? FIELD_CANDIDATES.label : FIELD_CANDIDATES.x),
+    y: ys.map(name => field(name, yRole, yCandidates)),
+    r: field(encoding?.r, 'r', FIELD_CANDIDATES.r),
+    series: seriesField ? row => row[seriesField] : undefined,
+  };
+}
+
+/** A problem with the chart data, located by its path within the chart input (e.g. `['data', 2]`). */
+export interface ChartDataIssue {
+  path: (string | number)[];
+  message: string;
+}
+
+/** Render an issue the way error messages show it, e.g. `data[2]: missing numeric value`. */
+export function formatChartDataIssue({ path, message }: ChartDataIssue): string {
+  const location = path.map((key, i) => (typeof key === 'number' ? `[${key}]` : i === 0 ? key : `.${key}`)).join('');
+  return location ? `${location}: ${message}` : message;
+}
+
+// Encoding fields must name a field that appears in at least one row
+function validateEncodingFields(encoding: ChartEncoding, data: Record<string, any>[]): ChartDataIssue[] {
+  const known = new Set(data.flatMap(row => (row && typeof row === 'object' ? Object.keys(row) : [])));
+  const issues: ChartDataIssue[] = [];
+  const check = (path: (string | number)[], name: string) => {
+    if (!known.has(name)) issues.push({ path, message: `unknown field '${name}'` });
+  };
+  for (const role of ['x', 'series', 'r'] as const) {
+    if (encoding[role] !== undefined) check(['encoding', role], encoding[role]!);
+  }
+  if (Array.isArray(encoding.y)) encoding.y.forEach((name, i) => check(['encoding', 'y', i], name));
+  else if (encoding.y !== undefined) check(['encoding', 'y'], encoding.y);
+  return issues;
+}
+
+/**
+ * Check every input row against the needs of the chart type and the optional encoding.
+ * The input structure is checked by `ChartInputSchema`; this covers what depends on the row contents.
+ * An empty array means the data is usable.
+ *
+ * Without an encoding every row must provide each required value. With an explicit encoding a missing
+ * value is a gap in that series (long-format data rarely has every series for every x), but a value
+ * that is present and not numeric is still an error.
+ */
+export function validateChartData(spec: ChartTypeSpec, data: Record<string, any>[], encoding?: ChartEncoding): ChartDataIssue[] {
+  if (data.length === 0) return [{ path: ['data'], message: 'at least one row is required' }];
+  if (encoding) {
+    const encodingIssues = validateEncodingFields(encoding, data);
+    if (encodingIssues.length > 0) return encodingIssues;
+  }
+
+  const resolved = resolveEncoding(spec, encoding);
+  const issues: ChartDataIssue[] = [];
+  const required: { field: FieldAccessor; allowGaps: boolean }[] = [
+    ...(spec.shape === 'category' ? [] : [{ field: resolved.x, allowGaps: false }]),
+    ...resolved.y.map(y => ({ field: y, allowGaps: resolved.explicit })),
+    ...(spec.shape === 'xyr' ? [{ field: resolved.r, allowGaps: false }] : []),
+  ];
+
+  data.forEach((row, i) => {
+    const path = ['data', i];
+    for (const { field, allowGaps } of required) {
+      const raw = field.get(row);
+      const value = toNumber(raw);
+      if (value === undefined) {
+        if (raw !== undefined && raw !== null) {
+          issues.push({ path, message: `${field.name} is not a number (${JSON.stringify(raw)})` });
+        } else if (!allowGaps) {
+          issues.push({ path, message: `missing numeric ${field.name} (expected one of ${field.candidates.join(', ')})` });
+        }
+      } else if (value < 0 && (spec.nonNegative || field === resolved.r)) {
+        issues.push({ path, message: `${field.name} must not be negative for this chart type` });
+      }
+    }
+  });
+  return issues;
+}
+
+/**
+ * The row fields a chart reads for x, y and series: the encoded fields, or for omitted roles the first
+ * default field present in the rows (e.g. `label`, then `month`). Roles no row provides are left out.
+ */
+export function chartFields(spec: ChartTypeSpec, data: Record<string, any>[], encoding?: ChartEncoding): { x?: string; y: string[]; series?: string } {
+  const resolved = resolveEncoding(spec, encoding);
+  const present = (field: FieldAccessor) => field.candidates.find(name => data.some(row => row[name] !== undefined && row[name] !== null));
+  return {
+    x: present(resolved.x),
+    y: resolved.y.map(present).filter((name): name is string => name !== undefined),
+    series: encoding?.series,
+  };
+}
+
+/**
+ * Fields that could label the categories when neither `encoding.x` nor any of the usual label fields
+ * (`label`, `month`, ...) is given: the fields holding text, in first-appearance order.
+ * Empty when the labels are already known or the chart type has no categories.
+ */
+export function labelFieldCandidates(spec: ChartTypeSpec, data: Record<string, any>[], encoding?: ChartEncoding): string[] {
+  if (spec.shape !== 'category' || encoding?.x) return [];
+  if (data.some(row => pickField(row, FIELD_CANDIDATES.label) !== undefined)) return [];
+  const textFields = new Set<string>();
+  for (const row of data) {
+    for (const [name, value] of Object.entries(row)) {
+      if (name !== encoding?.series && typeof value === 'string' && toNumber(value) === undefined) textFields.add(name);
+    }
+  }
+  return Array.from(textFields);
+}
+
+/** The parts of a theme that colour the data: series colours, fill opacity and the slice separators. */
+export type ChartColors = Pick<ChartTheme, 'palette' | 'fillOpacity' | 'background'>;
+
+/**
+ * Build Chart.js `data` (labels and datasets) from validated input rows.
+ * Produces one dataset per series value and `y` field; `datasetLabel` names the dataset when there is only one.
+ * Series are coloured from the theme's palette (the default theme unless `colors` is given).
+ */
+export function buildChartData(
+  spec: ChartTypeSpec,
+  data: Record<string, any>[],
+  datasetLabel: string,
+  encoding?: ChartEncoding,
+  colors: ChartColors = getTheme()!
+) {
+  const resolved = resolveEncoding(spec, encoding);
+  const { palette } = colors;
+  const seriesColor = (index: number, alpha: number) => withAlpha(palette[index % palette.length], alpha);
+
+  // Group rows by series value, keeping first-appearance order
+  const groups = new Map<string, Record<string, any>[]>();
+  for (const row of data) {
+    const key = resolved.series ? String(resolved.series(row) ?? 'Unknown') : '';
+    const group = groups.get(key);
+    if (group) group.push(row);
+    else groups.set(key, [row]);
+  }
+  const series = Array.from(groups, ([key, rows]) => resolved.y.map(y => ({ key, y, rows }))).flat();
+  const nameOf = (key: string, yName: string) => {
+    if (series.length === 1) return datasetLabel;
+    if (!resolved.series) return yName;
+    return resolved.y.length > 1 ? `${key} ${yName}` : key;
+  };
+
+  if (spec.shape !== 'category') {
+    return {
+      datasets: series.map(({ key, y, rows }, i) => ({
+        label: nameOf(key, y.name),
+        data: rows
+          .map(row => ({
+            x: toNumber(resolved.x.get(row))!,
+            y: toNumber(y.get(row))!,
+            ...(spec.shape === 'xyr' && { r: toNumber(resolved.r.get(row))! }),
+          }))
+          .filter(point => point.y !== undefined),
+        backgroundColor: seriesColor(i, colors.fillOpacity),
+        borderColor: seriesColor(i, 1),
+        borderWidth: 1,
+      })),
+    };
+  }
+
+  // Category labels are the distinct x values across all series, in first-appearance order
+  const labels = Array.from(new Set(data.map(row => String(resolved.x.get(row) ?? 'Unknown'))));
+  const indexOf = new Map(labels.map((label, i) => [label, i]));
+  const valuesFor = (y: FieldAccessor, rows: Record<string, any>[]) => {
+    const values: (number | null)[] = labels.map(() => null);
+    for (const row of rows) {
+      const value = toNumber(y.get(row));
+      if (value !== undefined) values[indexOf.get(String(resolved.x.get(row) ?? 'Unknown'))!] = value;
+    }
+    return values;
+  };
+
+  if (spec.perPointColors) {
+    const pointColors = labels.map((_, i) => palette[i % palette.length]);
+    // Slices are separated by lines in the background colour
+    const separator = colors.background === 'transparent' ? '#ffffff' : colors.background;
+    return {
+      labels,
+      datasets: series.map(({ key, y, rows }) => ({
+        label: nameOf(key, y.name),
+        data: valuesFor(y, rows),
+        backgroundColor: spec.axes === 'radial' ? pointColors.map(c => withAlpha(c, 0.5)) : pointColors,
+        borderColor: spec.axes === 'radial' ? pointColors : separator,
+        borderWidth: spec.axes === 'radial' ? 1 : 2,
+      })),
+    };
+  }
+
+  const isLine = spec.chartJsType === 'line';
+  return {
+    labels,
+    datasets: series.map(({ key, y, rows }, i) => ({
+      label: nameOf(key, y.name),
+      data: valuesFor(y, rows),
+      backgroundColor: isLine ? undefined : seriesColor(i, colors.fillOpacity),
+      borderColor: seriesColor(i, 1),
+      borderWidth: 1,
+      fill: isLine ? false : spec.chartJsType === 'radar' ? true : undefined,
+      tension: isLine ? 0.1 : undefined,
+    })),
+  };
+}
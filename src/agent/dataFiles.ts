@@ -0,0 +1,212 @@
+// src/agent/dataFiles.ts
+// Chart rows attached as files: CSV, TSV and JSON Lines FileParts are parsed into the same row objects
+// a DataPart's `data` array holds, with numbers, booleans and dates recognised per column.
+import { FilePart, Part } from '../core/a2a/src/types';
+import { decodeFilePart } from '../core/a2a/src/message';
+
+export type DataFileFormat = 'csv' | 'tsv' | 'ndjson';
+
+export type ColumnType = 'number' | 'boolean' | 'date' | 'string';
+
+export interface DataTable {
+  columns: { name: string; type: ColumnType }[];
+  rows: Record<string, any>[];
+}
+
+// Keyed by content type (without parameters such as `; charset=utf-8`)
+const CONTENT_TYPES: Record<string, DataFileFormat> = {
+  'text/csv': 'csv',
+  'application/csv': 'csv',
+  'text/tab-separated-values': 'tsv',
+  'application/x-ndjson': 'ndjson',
+  'application/jsonl': 'ndjson',
+  'application/x-jsonlines': 'ndjson',
+};
+
+// Content types that say nothing about the format; the file extension decides for these
+const GENERIC_CONTENT_TYPES = ['', 'text/plain', 'application/octet-stream'];
+
+const EXTENSIONS: Record<string, DataFileFormat> = {
+  csv: 'csv',
+  tsv: 'tsv',
+  tab: 'tsv',
+  ndjson: 'ndjson',
+  jsonl: 'ndjson',
+};
+
+/** Content types accepted for data files, as advertised in the README and agent card. */
+export const DATA_FILE_CONTENT_TYPES = Object.keys(CONTENT_TYPES);
+
+/** The tabular format of a FilePart, or undefined if it is not a data file. */
+export function dataFileFormat(part: FilePart): DataFileFormat | undefined {
+  const contentType = part.contentType.split(';')[0].trim().toLowerCase();
+  if (CONTENT_TYPES[contentType]) return CONTENT_TYPES[contentType];
+  const extension = part.filename.split('.').pop()?.toLowerCase() ?? '';
+  return GENERIC_CONTENT_TYPES.includes(contentType) ? EXTENSIONS[extension] : undefined;
+}
+
+export function isDataFilePart(part: Part): part is FilePart {
+  return part.type === 'file' && dataFileFormat(part) !== undefined;
+}
+
+const NUMBER = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?$/i;
+const BOOLEAN = /^(?:true|false)$/i;
+// ISO 8601 dates and date-times (2024-03-01, 2024-03-01T12:00, 2024-03-01 12:00:00Z)
+const DATE = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/i;
+
+const isDate = (value: string) => DATE.test(value) && !Number.isNaN(Date.parse(value.replace(' ', 'T')));
+
+/**
+ * Infer a column's type from its non-empty values: every value must match for the column to be typed.
+ * Dates stay ISO strings (JSON has no date type); numbers and booleans are converted.
+ */
+function inferColumnType(values: string[]): ColumnType {
+  const present = values.map(value => value.trim()).filter(value => value !== '');
+  if (present.length === 0) return 'string';
+  if (present.every(value => NUMBER.test(value))) return 'number';
+  if (present.every(value => BOOLEAN.test(value))) return 'boolean';
+  if (present.every(isDate)) return 'date';
+  return 'string';
+}
+
+function convert(value: string, type: ColumnType): any {
+  const trimmed = value.trim();
+  if (trimmed === '') return null;
+  if (type === 'number') return Number(trimmed);
+  if (type === 'boolean') return trimmed.toLowerCase() === 'true';
+  if (type === 'date') return trimmed;
+  return value;
+}
+
+/**
+ * Split delimited text into records of fields. Fields may be quoted ("a, b"), with "" for a literal quote
+ * and line breaks inside quotes. Blank lines are skipped; each record keeps the line it started on.
+ */
+function splitRecords(text: string, delimiter: string): { line: number; fields: string[] }[] {
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+  let fieldStarted = false;
+
+  const endRecord = () => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0] !== '' || fieldStarted) records.push({ line: recordLine, fields });
+    fields = [];
+    field = '';
+    fieldStarted = false;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+      fieldStarted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+      fieldStarted = true;
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) throw new Error(`unterminated quoted field starting on line ${recordLine}`);
+  endRecord();
+  return records;
+}
+
+function parseDelimited(text: string, delimiter: string): DataTable {
+  const [header, ...records] = splitRecords(text, delimiter);
+  if (!header) throw new Error('the file is empty');
+  const names = header.fields.map((name, i) => name.trim() || `column${i + 1}`);
+  const duplicate = names.find((name, i) => names.indexOf(name) !== i);
+  if (duplicate) throw new Error(`duplicate column '${duplicate}' in the header`);
+
+  for (const { line, fields } of records) {
+    if (fields.length !== names.length) {
+      throw new Error(`line ${line} has ${fields.length} fields, expected ${names.length}`);
+    }
+  }
+  const columns = names.map((name, i) => ({ name, type: inferColumnType(records.map(record => record.fields[i])) }));
+  const rows = records.map(({ fields }) =>
+    Object.fromEntries(columns.map(({ name, type }, i) => [name, convert(fields[i], type)]))
+  );
+  return { columns, rows };
+}
+
+function typeOfValue(value: unknown): ColumnType | undefined {
+  if (value === null || value === undefined) return undefined;
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'string' && isDate(value)) return 'date';
+  return 'string';
+}
+
+function parseJsonLines(text: string): DataTable {
+  const rows: Record<string, any>[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return;
+    let row: unknown;
+    try {
+      row = JSON.parse(line);
+    } catch {
+      throw new Error(`line ${i + 1} is not valid JSON`);
+    }
+    if (!row || typeof row !== 'object' || Array.isArray(row)) throw new Error(`line ${i + 1} is not a JSON object`);
+    rows.push(row as Record<string, any>);
+  });
+  // JSON values are already typed; a column keeps a type only if all its values share it
+  const names = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+  const columns = names.map(name => {
+    const types = new Set(rows.map(row => typeOfValue(row[name])).filter(type => type !== undefined));
+    return { name, type: types.size === 1 ? [...types][0]! : 'string' };
+  });
+  return { columns, rows };
+}
+
+/**
+ * Parse a CSV, TSV or JSON Lines FilePart into rows. The first line of CSV and TSV files is the header.
+ * Throws an error naming the file and the offending line when the file cannot be read as a table.
+ */
+export function parseDataFile(part: FilePart): DataTable {
+  const format = dataFileFormat(part);
+  if (!format) throw new Error(`${part.filename}: unsupported data file type '${part.contentType}'`);
+  const text = decodeFilePart(part).toString('utf8').replace(/^\uFEFF/, '');
+  try {
+    return format === 'ndjson' ? parseJsonLines(text) : parseDelimited(text, format === 'tsv' ? '\t' : ',');
+  } catch (error) {
+    throw new Error(`${part.filename}: ${(error as Error).message}`);
+  }
+}
+
+/** Rows of all data files in a message, in part order. */
+export function rowsFromDataFiles(parts: Part[]): Record<string, any>[] {
+  return parts.filter(isDataFilePart).flatMap(part => parseDataFile(part).rows);
+}
+
+/**
+ * Use data file rows as the `data` of a chart request whose DataPart carries only the chart type,
+ * encoding and options. A request with rows of its own is rejected rather than silently merged.
+ */
+export function withDataFileRows(request: unknown, rows: Record<string, any>[]): unknown {
+  if (!request || typeof request !== 'object' || Array.isArray(request)) return request;
+  if ('data' in request) throw new Error("The chart request has its own 'data': send the rows either there or as a data file, not both.");
+  return { ...request, data: rows };
+}
@@ -9,68 +9,93 @@ import {
   listTasks,
   addMessageToTask,
   cancelTask,
-} from './myAgentTaskLogic';
-import {
-  addArtifact,
+  chartsDir,
   getArtifactById,
-  getArtifactsForTask
-} from '../core/a2a/src/artifacts';
+  getArtifactsForTask,
+} from './myAgentTaskLogic';
 import {
   validateMessage,
   validateTask
 } from '../core/a2a/src/schema';
 import { createHandlers } from '../core/a2a/src/server';
+import { createJsonRpcHandler, handleJsonRpcParseError } from '../core/a2a/src/jsonrpc';
+import { authSecretsFromEnv, captureRawBody, createAuthMiddleware } from '../core/a2a/src/auth';
+import { CreateTaskOptions, Message } from '../core/a2a/src/types';
 import agentCard from './agent.json';
+import { chartInputJsonSchema, validateChartTaskInput } from './chartInputSchema';
+import { listThemes, loadThemes } from './themes';
 import { validateAgentCard } from '../core/a2a/src/agentCard';
 
 console.log(`[Server Setup] Current working directory (process.cwd()): ${process.cwd()}`);
 
-const chartsDir = path.join('public', 'generated_charts');
 if (!fs.existsSync(chartsDir)) {
   fs.mkdirSync(chartsDir, { recursive: true });
   console.log(`📁 Created charts directory at ${chartsDir}`);
 }
 
+// Brand themes, one JSON file per theme, added to the built-in light, dark and high-contrast themes
+const themesDir = process.env.CHART_THEMES_DIR || path.join('src', 'assets', 'themes');
+const brandThemes = loadThemes(themesDir);
+if (brandThemes.length > 0) console.log(`🎨 Loaded chart themes from ${themesDir}: ${brandThemes.join(', ')}`);
+
 const app = express();
-app.use(express.json());
+// The raw body is kept for checking HMAC request signatures
+app.use(express.json({ verify: captureRawBody }));
 app.use('/charts', express.static(chartsDir));
 
+// Base URL for the chart links in task results
+const agentBaseUrl = () => process.env.AGENT_BASE_URL || 'http://localhost:3001';
+
 const wrappedTaskLogic = {
-  createTask: async (payload: any, req: any) => {
-    let baseUrl = process.env.AGENT_BASE_URL || 'http://localhost:3001';
-    if (req) baseUrl = `${req.protocol}://${req.get('host')}`;
-    return createTask(payload, baseUrl);
-  },
+  createTask: async (payload: any, options?: CreateTaskOptions) => createTask(payload, agentBaseUrl(), options),
   getTask,
   listTasks,
-  addMessageToTask,
+  addMessageToTask: async (id: string, message: Message) => addMessageToTask(id, message, agentBaseUrl()),
   cancelTask,
 };
 
-const handlers = createHandlers({
+const handlerDeps = {
   tasks: wrappedTaskLogic,
-  artifacts: { getArtifactsForTask },
+  artifacts: { getArtifactsForTask, getArtifactById },
   validateTask,
-  validateMessage
-});
+  validateMessage,
+  validateInput: validateChartTaskInput,
+};
+const handlers = createHandlers(handlerDeps);
+const handleJsonRpc = createJsonRpcHandler(handlerDeps);
+
+// Enforces the agent card's authentication block; secrets come from the environment (A2A_API_KEYS etc.)
+const requireAuth = createAuthMiddleware(agentCard.authentication, authSecretsFromEnv());
+console.log(`🔐 A2A task endpoints use '${agentCard.authentication?.type ?? 'none'}' authentication`);
 
 const router = Router();
+router.post('/', requireAuth, handleJsonRpc);
+router.use('/tasks', requireAuth);
 router.post('/tasks/send', handlers.handleSendTask);
 router.post('/tasks/sendSubscribe', handlers.handleSendSubscribe);
 router.get('/tasks/:id', handlers.handleGetTask);
 router.post('/tasks/:id/messages', handlers.handleSendMessage);
 router.post('/tasks/:id/cancel', handlers.handleCancelTask);
 router.get('/tasks/:id/artifacts', handlers.handleGetArtifacts);
+router.get('/tasks/:id/artifacts/:artifactId', handlers.handleGetArtifact);
 router.get('/tasks', handlers.handleListTasks);
 router.get('/.well-known/agent.json', (req, res) => {
   const host = req.get('host');
   const protocol = req.protocol;
   const a2aBasePath = `${protocol}://${host}/a2a`;
-  const fullCard = { ...agentCard, endpoint: a2aBasePath };
+  // The input schema is generated from the zod chart request schema rather than kept by hand in agent.json
+  const fullCard = {
+    ...agentCard,
+    endpoint: a2aBasePath,
+    inputSchema: chartInputJsonSchema,
+    themes: listThemes().map(({ name, description }) => ({ name, description })),
+  };
   res.json(fullCard);
 });
 
 app.use('/a2a', router);
+// Bodies express.json cannot parse never reach the router; the JSON-RPC endpoint answers them with -32700
+app.use('/a2a', handleJsonRpcParseError);
 app.get('/', (req, res) => {
   res.status(200).send('Minimal Agent is running with custom A2A handlers.');
 });
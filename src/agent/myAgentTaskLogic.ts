@@ -1,9 +1,64 @@
 // src/agent/myAgentTaskLogic.ts
-import { Task, Message, TaskStatus, Part, DataPart } from '../core/a2a/src/types';
+import { Task, Message, TaskStatus, DataPart, Part, Artifact, CreateTaskOptions, TaskEventListener } from '../core/a2a/src/types';
 import { v4 as uuidv4 } from 'uuid'; // For generating message IDs
-import QuickChart from 'quickchart-js'; // Standard default import
+import path from 'path';
+import { createChartRenderer } from './render';
+import { addArtifact, getArtifactsForTask as getPublishedArtifacts } from '../core/a2a/src/artifacts';
+import { getTaskStore, saveWithTransitions, transitionTask, updateTask, cancelTask as cancelStoredTask } from '../core/a2a/src/tasks';
+import { ChartPipelineDeps, ChartPipelineState, runChartPipeline } from './pipeline';
+import { ChartBatchItem, DEFAULT_BATCH_CONCURRENCY, runChartBatch as renderChartBatch } from './pipeline/batch';
+import { ChartBatchInput, ChartBatchInputSchema, ChartInput, findChartBatchPart } from './chartInputSchema';
+import { ChartQuestion, refineChartRequest } from './chartRefinement';
+import { descriptionParts } from './accessibility';
 
-// --- Simple in-memory store for chart data URLs (can store QuickChart URLs now) ---
+// Directory served under /charts by index.ts
+export const chartsDir = path.join('public', 'generated_charts');
+
+// Pluggable renderer: the offline local renderer unless CHART_RENDERER=quickchart
+const chartRenderer = createChartRenderer();
+
+// Steps of the chart pipeline that talk to the outside world. A hosted renderer falls back to the local one.
+const pipelineDeps: ChartPipelineDeps = {
+  renderer: chartRenderer,
+  fallbackRenderer: chartRenderer.name === 'local' ? undefined : createChartRenderer('local'),
+  chartsDir,
+  addArtifact,
+};
+
+/**
+ * A new task in the `submitted` state, saved before its chart is drawn so it can be read (and canceled) meanwhile.
+ * Tasks live in the store of tasks.ts: persisted to TASK_STORE_PATH when set, otherwise kept in memory.
+ */
+function submittedTask(fields: Partial<Task> & Pick<Task, 'id' | 'createdAt' | 'input'>): Promise<Task> {
+  return saveWithTransitions({
+    ...fields,
+    updatedAt: fields.createdAt,
+    history: [fields.input],
+    status: { state: 'submitted', timestamp: fields.createdAt },
+    statusHistory: [{ to: 'submitted', timestamp: fields.createdAt, reason: 'created' }],
+  });
+}
+
+/**
+ * Record how a run of task `id` ended: its result joins the history, a new chart joins the artifacts,
+ * and the task moves to the run's state. A task canceled while it ran stays canceled.
+ */
+async function finishRun(id: string, run: ChartRunResult, updates: Partial<Task> = {}, reason?: string): Promise<Task> {
+  const task = (await getTaskStore().get(id))!;
+  if (task.status.state === 'canceled') {
+    console.log(`   🛑 Task ${id} was canceled while its chart was drawn`);
+    return task;
+  }
+  return (await updateTask(id, {
+    ...updates,
+    history: [...(task.history || [task.input]), run.result],
+    ...(run.artifact && { artifacts: [...(task.artifacts || []), run.artifact] }),
+    ...(run.chart && { metadata: { ...task.metadata, chart: run.chart } }),
+    status: { state: run.status, message: run.result, timestamp: new Date().toISOString() },
+  }, reason))!;
+}
+
+// --- Simple in-memory store for chart image URLs ---
 const chartDataStore = new Map<string, string>();
 
 // Function to retrieve stored data URL
@@ -11,43 +66,173 @@ export function getChartDataUrl(id: string): string | undefined {
   return chartDataStore.get(id);
 }
 
-const customFontFamily = 'sans-serif';
+console.log(`💡 Custom task logic ready (using '${chartRenderer.name}' chart renderer)!`);
+
+interface ChartOutputContent {
+  message?: string;
+  chartRenderUrl?: string;
+  artifactId?: string;
+  version?: number;
+  question?: string;
+  options?: string[];
+  errorMessage?: string;
+  /** Outcome of each chart of a batch request, in request order */
+  items?: ({ index: number; taskId: string; status: TaskStatus } & ChartOutputContent)[];
+}
+
+/**
+ * Conversation state kept in `task.metadata.chart`: the current chart request (or the one waiting for
+ * an answer), the open question if any, and how many chart versions have been published.
+ */
+interface ChartConversation {
+  request: ChartInput;
+  question?: ChartQuestion;
+  version: number;
+}
 
-console.log('💡 Custom task logic ready (using QuickChart.io for SVG generation)!');
+// Follow-up messages refine the chart while it is waiting for an answer or after it has been drawn
+const REFINABLE_STATES: TaskStatus[] = ['input-required', 'completed'];
 
-interface ChartInputDataPoint {
-  month?: string;
-  sales?: number;
-  category?: string;
-  value?: number;
-  label?: string;
-  [key: string]: any;
+interface ChartRunResult {
+  status: TaskStatus;
+  result: Message;
+  artifact?: Artifact;
+  chart?: ChartConversation;
 }
 
-interface ChartInputContent {
-  chartType: string;
-  data: ChartInputDataPoint[];
-  options?: {
-    title?: string;
-    xAxisLabel?: string;
-    yAxisLabel?: string;
-    width?: number;
-    height?: number;
-    fontFamily?: string;
-    [key: string]: any;
+const agentMessage = (data: ChartOutputContent, text?: string, extraParts: Part[] = []): Message => ({
+  id: uuidv4(),
+  role: 'agent',
+  parts: [
+    ...(text ? [{ type: 'text' as const, text }] : []),
+    { type: 'data', mimeType: 'application/json', data } satisfies DataPart,
+    ...extraParts,
+  ],
+});
+
+/**
+ * Turn the final state of a chart pipeline run into a task status: `completed` with the new artifact
+ * (the result message also carries the chart's alt text and data table) or `input-required` with the agent's question.
+ */
+function chartRunResult(taskId: string, state: ChartPipelineState): ChartRunResult {
+  const version = state.version ?? 1;
+  if (state.question) {
+    console.log(`   ❓ Asking: ${state.question.text}`);
+    const { text, options } = state.question;
+    return {
+      status: 'input-required',
+      result: agentMessage({ question: text, options }, text),
+      chart: { request: state.request!, question: state.question, version: version - 1 },
+    };
+  }
+  const artifact = state.artifact!;
+  const chartRenderUrl = state.chartRenderUrl!;
+  const formats = state.renders!.map(r => r.format.toUpperCase());
+  console.log(`   📊 Chart '${state.request?.chartType}' v${version} rendered by '${state.rendererName}' (${formats.join(', ')}): ${chartRenderUrl}`);
+
+  chartDataStore.set(taskId, chartRenderUrl);
+  console.log(`   💾 Stored chart URL in memory for task ID: ${taskId}`);
+
+  return {
+    status: 'completed',
+    result: agentMessage({
+      message: `Chart generated successfully (${formats.join(', ')}).`,
+      chartRenderUrl,
+      artifactId: artifact.id,
+      version,
+    }, undefined, state.description ? descriptionParts(state.description) : []),
+    artifact,
+    chart: { request: state.request!, version },
   };
 }
 
-interface ChartOutputContent {
-  message?: string;
-  chartRenderUrl?: string; // This will now be a QuickChart URL
-  errorMessage?: string;
+function chartFailure(taskId: string, error: any): ChartRunResult {
+  console.error(`🔥 Chart error (task ${taskId}): ${error.message}`);
+  console.error(error.stack);
+  return { status: 'failed', result: agentMessage({ errorMessage: error.message }) };
+}
+
+/**
+ * Run the chart pipeline for one version of a task's chart and turn the outcome into a task status:
+ * `completed`, `input-required` or `failed` (see chartRunResult).
+ */
+async function runChart(taskId: string, baseUrl: string, parts: Part[], version: number, onEvent?: TaskEventListener): Promise<ChartRunResult> {
+  // ParseInput → [InferSpec] → ValidateSpec → TransformData → PrepareTimeSeries → BuildChartConfig → DescribeChart → Render → PublishArtifact
+  const state: ChartPipelineState = { taskId, baseUrl, parts, version, onEvent };
+  try {
+    return chartRunResult(taskId, await runChartPipeline(state, pipelineDeps));
+  } catch (error: any) {
+    return chartFailure(taskId, error);
+  }
+}
+
+// Charts of a batch rendered at the same time, unless the request sets `maxConcurrency`
+const batchConcurrency = Number(process.env.CHART_BATCH_CONCURRENCY) || DEFAULT_BATCH_CONCURRENCY;
+
+const chartMessage = (chart: ChartBatchInput['charts'][number]): Message => ({
+  id: uuidv4(),
+  role: 'user',
+  parts: [typeof chart === 'string'
+    ? { type: 'text', text: chart }
+    : { type: 'data', mimeType: 'application/json', data: chart }],
+});
+
+/** Ids of the child tasks of a batch, one per chart in request order */
+const batchChildIds = (taskId: string, batch: ChartBatchInput) => batch.charts.map((_, index) => `${taskId}-${index + 1}`);
+
+/**
+ * Render the charts of a batch request in parallel, each as a child task of the parent task `taskId`.
+ * Every child is saved when the batch is submitted and goes `working` when its chart starts.
+ * The parent lists its children and collects their artifacts; its result reports every chart's outcome,
+ * so a partly failed batch still completes. It only fails when no chart could be drawn.
+ */
+async function runChartBatch(taskId: string, baseUrl: string, batch: ChartBatchInput, onEvent?: TaskEventListener) {
+  const startedAt = new Date().toISOString();
+  const inputs = batch.charts.map(chartMessage);
+  const items: ChartBatchItem[] = batchChildIds(taskId, batch).map((id, index) => ({ index, taskId: id, parts: inputs[index].parts }));
+  await Promise.all(items.map(item => submittedTask({
+    id: item.taskId,
+    createdAt: startedAt,
+    input: inputs[item.index],
+    name: `Chart ${item.index + 1} of ${taskId}`,
+    parentId: taskId,
+  })));
+  const onItemStart = async (item: ChartBatchItem) => { await transitionTask(item.taskId, 'working'); };
+  const results = await renderChartBatch({ baseUrl, items, onEvent, onItemStart }, pipelineDeps, batch.maxConcurrency ?? batchConcurrency);
+
+  const runs = results.map(({ item, state, error }) => state ? chartRunResult(item.taskId, state) : chartFailure(item.taskId, error));
+  const children = await Promise.all(results.map(({ item }, index) => {
+    const run = runs[index];
+    return finishRun(item.taskId, run, { result: run.result });
+  }));
+
+  const outcomes = children.map((child, index) => {
+    const { chartRenderUrl, artifactId, question, errorMessage } = runs[index].result.parts
+      .find((part): part is DataPart => part.type === 'data')!.data as ChartOutputContent;
+    return { index, taskId: child.id, status: child.status.state, chartRenderUrl, artifactId, question, errorMessage };
+  });
+  const drawn = outcomes.filter(outcome => outcome.status === 'completed').length;
+  const failed = outcomes.filter(outcome => outcome.status === 'failed').length;
+  const message = `Generated ${drawn} of ${children.length} charts${failed ? ` (${failed} failed)` : ''}.`;
+  console.log(`   📚 Batch ${taskId}: ${message}`);
+
+  return {
+    status: (failed === children.length ? 'failed' : 'completed') as TaskStatus,
+    result: agentMessage({ message, items: outcomes }, message),
+    children,
+  };
 }
 
 /**
  * YOUR CUSTOM LOGIC: Create a new task (generate a chart).
+ * The task is saved as soon as it is submitted and again when it starts working, so it can be read
+ * and canceled while the chart (or batch) is drawn.
  */
-export async function createTask(payload: Partial<Task> & { input: Message }, baseUrl: string): Promise<Task> {
+export async function createTask(
+  payload: Partial<Task> & { input: Message },
+  baseUrl: string,
+  { onEvent }: CreateTaskOptions = {}
+): Promise<Task> {
   const taskName = payload.name || `Chart Task ${Date.now()}`;
   let chartTypeDisplay = 'Unknown';
   if (payload.input?.parts?.[0]?.type === 'data') {
@@ -57,176 +242,125 @@ export async function createTask(payload: Partial<Task> & { input: Message }, ba
   console.log(`🚀 New task: "${taskName}" (Input Type: ${chartTypeDisplay})`);
   // console.log(`   🌍 Base URL for links: ${baseUrl}`); // BaseUrl might be less relevant if QuickChart provides full URLs
 
-  const taskId = `agent-task-${Date.now()}`;
-  const now = new Date().toISOString();
+  const taskId = uuidv4();
 
-  let taskStatus: TaskStatus = 'working';
-  let taskResult: Message | undefined = undefined;
-  let inputContent: ChartInputContent | undefined = undefined;
+  // Progress events for streaming subscribers (no-op for plain /tasks/send)
+  const emitStatus = (state: TaskStatus, message?: Message, final = false) =>
+    onEvent?.({ id: taskId, status: { state, timestamp: new Date().toISOString(), message }, final });
 
-  try {
-    if (!payload.input || !payload.input.parts || payload.input.parts.length === 0) {
-      throw new Error('Input message or parts are missing.');
-    }
-    const firstPart = payload.input.parts[0];
-    if (firstPart.type !== 'data' || !firstPart.data) {
-      throw new Error('Invalid input part type or missing data. Expected DataPart.');
-    }
-    inputContent = firstPart.data as ChartInputContent;
-    if (!inputContent || !inputContent.chartType || !inputContent.data) {
-      throw new Error('Missing required fields (chartType, data) in input data part.');
-    }
-    const { chartType, data, options = {} } = inputContent;
-    console.log(`   ⚙️ Generating '${chartType}' chart using QuickChart.io...`);
-
-    const chartWidth = options.width || 800;
-    const chartHeight = options.height || 600;
-    const effectiveFontFamily = options.fontFamily || customFontFamily;
-
-    const chartJsConfig: any = {
-        type: chartType.toLowerCase(),
-        data: {},
-        options: {
-            responsive: false, // QuickChart handles dimensions
-            animation: false, // Animations not relevant for static image
-            plugins: {
-                title: { display: !!options.title, text: options.title, font: { family: effectiveFontFamily, size: 18, weight: 'bold' } },
-                legend: { labels: { font: { family: effectiveFontFamily } } },
-                tooltip: { bodyFont: { family: effectiveFontFamily }, titleFont: { family: effectiveFontFamily } }
-            },
-            scales: {
-                y: {
-                    beginAtZero: true,
-                    title: { display: !!options.yAxisLabel, text: options.yAxisLabel, font: { family: effectiveFontFamily } },
-                    ticks: { font: { family: effectiveFontFamily } }
-                },
-                x: {
-                    title: { display: !!options.xAxisLabel, text: options.xAxisLabel, font: { family: effectiveFontFamily } },
-                    ticks: { font: { family: effectiveFontFamily } }
-                }
-            },
-            ...options // Spread other options from input
-        }
-    };
-
-    if (chartJsConfig.type === 'bar' || chartJsConfig.type === 'line') {
-        chartJsConfig.data.labels = data.map(d => d.label || d.month || d.category || 'Unknown');
-        chartJsConfig.data.datasets = [{
-            label: options.title || 'Dataset',
-            data: data.map(d => d.value || d.sales || 0),
-            backgroundColor: chartJsConfig.type === 'bar' ? 'rgba(75, 192, 192, 0.2)' : undefined,
-            borderColor: 'rgba(75, 192, 192, 1)',
-            borderWidth: 1,
-            fill: chartJsConfig.type === 'line' ? false : undefined,
-            tension: chartJsConfig.type === 'line' ? 0.1 : undefined,
-        }];
-    } else {
-        throw new Error(`Unsupported chartType: ${chartType}. Implemented types for direct config: 'bar', 'line'.`);
-    }
-
-    const chart = new QuickChart();
-    chart.setConfig(chartJsConfig);
-    chart.setWidth(chartWidth);
-    chart.setHeight(chartHeight);
-    chart.setFormat('svg'); // Specify SVG format
-    // chart.setBackgroundColor('transparent'); // Optional
-
-    // Get the public URL from QuickChart
-    const quickChartUrl = await chart.getShortUrl(); // Using short URL for brevity; getUrl() for full one.
-    // const quickChartUrl = chart.getUrl(); // Alternative for longer, direct URL
-
-    if (!quickChartUrl) {
-        throw new Error('Failed to generate chart URL from QuickChart.io.');
-    }
-    console.log(`   📊 QuickChart.io URL (SVG): ${quickChartUrl}`);
-
-    // Store the QuickChart URL in the in-memory map
-    chartDataStore.set(taskId, quickChartUrl);
-    console.log(`   💾 Stored QuickChart URL in memory for task ID: ${taskId}`);
-
-    // Return a success message and the QuickChart URL
-    // const renderUrl = `${baseUrl}/charts/${chartFilename}`; // No longer relevant
-    const outputData: ChartOutputContent = {
-      message: 'Chart generated successfully via QuickChart.io.',
-      chartRenderUrl: quickChartUrl
-    };
-    const resultPart: DataPart = { type: 'data', mimeType: 'application/json', data: outputData };
-    taskResult = { id: uuidv4(), role: 'agent', parts: [resultPart] };
-    taskStatus = 'completed';
-
-  } catch (error: any) {
-    console.error(`🔥 Task error ("${taskName}"): ${error.message}`);
-    console.error(error.stack);
-    taskStatus = 'failed';
-    const errorOutput: ChartOutputContent = { errorMessage: error.message };
-    const errorPart: DataPart = { type: 'data', mimeType: 'application/json', data: errorOutput };
-    taskResult = { id: uuidv4(), role: 'agent', parts: [errorPart] };
-  }
+  // A batch request becomes a parent task whose children each hold one chart
+  const parts = payload.input?.parts || [];
+  const batchIndex = findChartBatchPart(parts);
+  const batch = batchIndex === -1 ? undefined : ChartBatchInputSchema.parse((parts[batchIndex] as DataPart).data);
+  const childIds = batch ? batchChildIds(taskId, batch) : [];
 
-  const task: Task = {
+  await submittedTask({
     id: taskId,
-    status: taskStatus,
-    createdAt: now,
-    updatedAt: new Date().toISOString(),
+    createdAt: new Date().toISOString(),
     input: payload.input,
     name: payload.name || `Chart Task ${taskId}`,
-    description: payload.description || `Generates a ${inputContent?.chartType || 'chart'} viewable at ${chartDataStore.get(taskId) || 'a QuickChart URL'}`, // Updated description
-    result: taskResult,
     // Any other fields from payload that should be preserved
+    ...(payload.description && { description: payload.description }),
+    ...(payload.sessionId && { sessionId: payload.sessionId }),
     ...(payload.endpoint && { endpoint: payload.endpoint }),
     ...(payload.progress && { progress: payload.progress }),
     ...(payload.parentId && { parentId: payload.parentId }),
-    ...(payload.children && { children: payload.children }),
+    ...((payload.children || batch) && { children: [...(payload.children || []), ...childIds] }),
     ...(payload.metadata && { metadata: payload.metadata }),
-  };
+  });
+  emitStatus('submitted');
+  await transitionTask(taskId, 'working');
+  emitStatus('working');
+
+  const run: ChartRunResult & { children?: Task[] } = batch
+    ? await runChartBatch(taskId, baseUrl, batch, onEvent)
+    : await runChart(taskId, baseUrl, parts, 1, onEvent);
+  const { chart, children } = run;
+  const artifacts = children?.flatMap(child => child.artifacts || []);
+  const description = children
+    ? `Generates ${children.length} charts as child tasks`
+    : `Generates a ${chart?.request.chartType || 'chart'} viewable at ${chartDataStore.get(taskId) || 'the chart URL'}`;
+
+  const task = await finishRun(taskId, run, {
+    description: payload.description || description,
+    result: run.result,
+    ...(artifacts?.length && { artifacts }),
+  });
+  emitStatus(task.status.state, task.status.message, true);
   return task;
 }
 
+/**
+ * Artifacts published for a task. A batch parent also lists those of its children, including the charts
+ * already drawn while the rest of the batch runs.
+ */
+export async function getArtifactsForTask(taskId: string): Promise<Artifact[]> {
+  const task = await getTaskStore().get(taskId);
+  const published = await Promise.all([taskId, ...(task?.children || [])].map(id => getPublishedArtifacts(id)));
+  return published.flat();
+}
+
+/**
+ * Get one artifact of a task (or of its children, for a batch parent) by ID.
+ */
+export async function getArtifactById(taskId: string, artifactId: string): Promise<Artifact | undefined> {
+  return (await getArtifactsForTask(taskId)).find(artifact => artifact.id === artifactId);
+}
+
 /**
  * YOUR CUSTOM LOGIC: Get a specific task by ID.
  */
 export async function getTask(id: string): Promise<Task | undefined> {
-  // This is a placeholder. You'll need to implement actual task retrieval logic,
-  // potentially from a database or an in-memory store if tasks are managed within this agent.
-  // For now, it returns undefined as if the task is not found.
   console.log(`🔎 Getting task by ID: ${id}`);
-  // Example: If you were storing tasks in a Map called 'allTasks'
-  // return allTasks.get(id);
-  return undefined;
+  return getTaskStore().get(id);
 }
 
 /**
  * YOUR CUSTOM LOGIC: Add a message to a task (e.g., user feedback or new instructions).
+ * While the task waits for input or after its chart is done, the message refines the chart: an answer
+ * to the agent's question or a change such as "make it a line chart" produces a new chart version.
+ * The task goes back to `working` while the new version is drawn, then to `completed` or `input-required`;
+ * if the change cannot be applied, it returns to its previous state and the agent replies with the error.
  */
-export async function addMessageToTask(id: string, message: Message): Promise<Task | undefined> {
+export async function addMessageToTask(id: string, message: Message, baseUrl: string): Promise<Task | undefined> {
   console.log(`💬 Adding message to task ID: ${id}`, message);
-  // Placeholder: Implement logic to find the task and add the message.
-  // This might involve updating the task's message history or re-evaluating the task.
-  const task = await getTask(id); // Example: retrieve the task
-  if (task) {
-    // task.messages.push(message); // Example: if tasks have a messages array
-    task.updatedAt = new Date().toISOString();
-    // Potentially update task status or result based on the new message
-    // await saveTask(task); // Example: persist changes
-    return task;
+  const task = await getTask(id);
+  if (!task) return undefined;
+  const history = [...(task.history || [task.input]), message];
+  const chart = task.metadata?.chart as ChartConversation | undefined;
+
+  if (!chart || !REFINABLE_STATES.includes(task.status.state)) {
+    return updateTask(id, { history });
   }
-  return undefined;
+
+  const previousState = task.status.state;
+  // Readers see the task working while the new version is drawn
+  await updateTask(id, { history, status: { state: 'working', timestamp: new Date().toISOString() } }, 'refining the chart');
+  let run: ChartRunResult;
+  try {
+    const request = await refineChartRequest(chart.request, message.parts, chart.question);
+    const parts: Part[] = [{ type: 'data', mimeType: 'application/json', data: request }];
+    run = await runChart(id, baseUrl, parts, chart.version + 1);
+  } catch (error: any) {
+    console.error(`🔥 Could not refine chart (task ${id}): ${error.message}`);
+    run = { status: 'failed', result: agentMessage({ errorMessage: error.message }) };
+  }
+
+  if (run.status === 'failed') {
+    // The previous chart (or question) stays current; only the reply explains what went wrong
+    return finishRun(id, { ...run, status: previousState }, {}, 'the chart could not be refined');
+  }
+  const reason = run.artifact ? `version ${run.chart!.version} drawn` : 'waiting for an answer';
+  return finishRun(id, run, run.artifact ? { result: run.result } : {}, reason);
 }
 
 /**
  * YOUR CUSTOM LOGIC: Cancel a running task.
+ * Finished tasks cannot be cancelled: the lifecycle throws InvalidTransitionError (409 from the handlers).
  */
 export async function cancelTask(id: string): Promise<Task | undefined> {
   console.log(`🛑 Cancelling task ID: ${id}`);
-  const task = await getTask(id); // Example: retrieve the task
-  // Ensure task status is one that can be cancelled, e.g., 'in_progress' or 'submitted'
-  if (task && (task.status === 'in_progress' || task.status === 'submitted')) {
-    task.status = 'canceled'; // Corrected to match TaskStatus type
-    task.updatedAt = new Date().toISOString();
-    // await saveTask(task); // Example: persist changes
-    return task;
-  }
-  return undefined;
+  return cancelStoredTask(id);
 }
 
 /**
@@ -234,7 +368,5 @@ export async function cancelTask(id: string): Promise<Task | undefined> {
  */
 export async function listTasks(): Promise<Task[]> {
   console.log('📋 Listing all tasks');
-  // Placeholder: Implement logic to retrieve all tasks.
-  // Example: return Array.from(allTasks.values());
-  return [];
-} 
\ No newline at end of file
+  return getTaskStore().list();
+}
@@ -0,0 +1,93 @@
+// src/agent/pipeline/batch.ts
+// Batch chart generation: one chart pipeline per item, run in parallel by a PocketFlow batch node.
+// A failing chart is reported in its item's result and does not stop the others.
+import { AsyncParallelBatchNodeImpl, BatchItemResult, DEFAULT_ACTION, NodeAction, NodeParams } from '../../core/pocketflow/node';
+import { Part, TaskStreamEvent } from '../../core/a2a/src/types';
+import { PocketFlowLogger } from '../../core/pocketflow/logger';
+import { ChartPipelineState } from './nodes';
+import { ChartPipelineDeps, runChartPipeline } from './index';
+
+/** Default number of charts rendered at the same time (`CHART_BATCH_CONCURRENCY`) */
+export const DEFAULT_BATCH_CONCURRENCY = 4;
+
+const logger = PocketFlowLogger.getInstance();
+
+/** One chart of a batch, rendered as its own (child) task. */
+export interface ChartBatchItem {
+  index: number;
+  taskId: string;
+  parts: Part[];
+}
+
+/** The final pipeline state of a chart that was drawn (or that needs an answer), or the error it failed with. */
+export interface ChartBatchItemResult {
+  item: ChartBatchItem;
+  state?: ChartPipelineState;
+  error?: Error;
+}
+
+export interface ChartBatchState {
+  baseUrl: string;
+  items: ChartBatchItem[];
+  onEvent?: (event: TaskStreamEvent) => void;
+  /** Called when an item's chart starts (e.g. to mark its task working); an error fails the item */
+  onItemStart?: (item: ChartBatchItem) => Promise<void>;
+  /** One result per item, in item order (ChartBatchNode) */
+  results?: ChartBatchItemResult[];
+}
+
+interface PreparedItem extends ChartBatchItem {
+  baseUrl: string;
+  onEvent?: (event: TaskStreamEvent) => void;
+  onItemStart?: (item: ChartBatchItem) => Promise<void>;
+}
+
+/**
+ * Runs the chart pipeline for every item of a batch, at most `maxConcurrency` at a time.
+ * Items that fail (after the pipeline's own per-node retries) continue with the result of `execItemFallback`,
+ * so one failed chart does not fail the batch.
+ */
+export class ChartBatchNode extends AsyncParallelBatchNodeImpl<ChartBatchState, NodeParams, PreparedItem, NodeAction> {
+  // Final pipeline state of each chart that was drawn, by item index
+  private readonly states = new Map<number, ChartPipelineState>();
+
+  constructor(private readonly deps: ChartPipelineDeps, maxConcurrency = DEFAULT_BATCH_CONCURRENCY) {
+    super(1, 0, { failurePolicy: 'continue', maxConcurrency });
+  }
+
+  async prep(shared: ChartBatchState): Promise<PreparedItem[]> {
+    return shared.items.map(item => ({ ...item, baseUrl: shared.baseUrl, onEvent: shared.onEvent, onItemStart: shared.onItemStart }));
+  }
+
+  async execItem({ taskId, index, parts, baseUrl, onEvent, onItemStart }: PreparedItem): Promise<NodeAction> {
+    await onItemStart?.({ index, taskId, parts });
+    this.states.set(index, await runChartPipeline({ taskId, baseUrl, parts, version: 1, onEvent }, this.deps));
+    return DEFAULT_ACTION;
+  }
+
+  async execItemFallback(item: PreparedItem, error: Error): Promise<NodeAction> {
+    logger.warn(this.constructor.name, `Chart ${item.index + 1} of the batch failed: ${error.message}`);
+    return DEFAULT_ACTION;
+  }
+
+  async post(shared: ChartBatchState, _items: PreparedItem[], _action: NodeAction | void, itemResults: BatchItemResult<PreparedItem, NodeAction>[] = []) {
+    shared.results = itemResults.map(({ item: { taskId, index, parts }, error }) => ({
+      item: { taskId, index, parts },
+      ...(error ? { error } : { state: this.states.get(index) }),
+    }));
+    return DEFAULT_ACTION;
+  }
+}
+
+/**
+ * Render every chart of a batch and return one result per item, in item order.
+ * Never throws for a failing chart; its result holds the error instead.
+ */
+export async function runChartBatch(
+  state: ChartBatchState,
+  deps: ChartPipelineDeps,
+  maxConcurrency?: number
+): Promise<ChartBatchItemResult[]> {
+  await new ChartBatchNode(deps, maxConcurrency).run(state);
+  return state.results!;
+}
@@ -0,0 +1,65 @@
+// src/agent/pipeline/index.ts
+// Chart generation as a PocketFlow pipeline:
+// ParseInput → [InferSpec] → ValidateSpec → TransformData → PrepareTimeSeries → BuildChartConfig → DescribeChart → Render → PublishArtifact
+// ValidateSpec ends the flow early with a question when the request is ambiguous.
+import { FlowBuilder, AsyncFlow } from '../../core/pocketflow/flow';
+import { LLMClient } from '../../core/llm/LLMClient';
+import { ChartRenderer } from '../render';
+import {
+  ChartPipelineState,
+  ChartPublisher,
+  ParseInputNode,
+  InferSpecNode,
+  ValidateSpecNode,
+  TransformDataNode,
+  PrepareTimeSeriesNode,
+  BuildChartConfigNode,
+  DescribeChartNode,
+  RenderNode,
+  PublishArtifactNode,
+} from './nodes';
+
+export * from './nodes';
+
+export interface ChartPipelineDeps extends ChartPublisher {
+  renderer: ChartRenderer;
+  /** Used when `renderer` keeps failing after its retries */
+  fallbackRenderer?: ChartRenderer;
+  /** LLM for natural-language requests; defaults to the interpreter's configured client */
+  llm?: LLMClient;
+}
+
+/**
+ * Wire up a fresh set of nodes (they hold per-run retry state) around the given shared state.
+ */
+export function createChartFlow(state: ChartPipelineState, deps: ChartPipelineDeps): AsyncFlow<ChartPipelineState> {
+  const parse = new ParseInputNode();
+  const infer = new InferSpecNode(deps.llm);
+  const validate = new ValidateSpecNode();
+
+  parse.next(validate);
+  parse.next(infer, 'infer');
+  infer.next(validate);
+  validate
+    .next(new TransformDataNode())
+    .next(new PrepareTimeSeriesNode())
+    .next(new BuildChartConfigNode())
+    .next(new DescribeChartNode())
+    .next(new RenderNode(deps.renderer, deps.fallbackRenderer))
+    .next(new PublishArtifactNode(deps));
+
+  return new FlowBuilder<ChartPipelineState>().withStartNode(parse).withSharedState(state).buildAsync();
+}
+
+/**
+ * Run the chart pipeline to completion and return the final shared state.
+ * The state holds either the published `artifact` or, for an ambiguous request, the `question` to ask.
+ * Throws the error of the failing node, or if the flow stopped without either.
+ */
+export async function runChartPipeline(state: ChartPipelineState, deps: ChartPipelineDeps): Promise<ChartPipelineState> {
+  await createChartFlow(state, deps).run();
+  if (!state.artifact && !state.question) {
+    throw new Error('Chart pipeline stopped before publishing the chart.');
+  }
+  return state;
+}
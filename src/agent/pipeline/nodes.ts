@@ -0,0 +1,528 @@
+// src/agent/pipeline/nodes.ts
+// The chart generation steps as PocketFlow nodes. Each node reads its input from the shared pipeline state
+// in `prep`, does its work in `exec` (retried per node) and writes its output back in `post`.
+import fs from 'fs';
+import path from 'path';
+import { AsyncNodeImpl, DEFAULT_ACTION, NodeAction, NodeParams } from '../../core/pocketflow/node';
+import { Artifact, FilePart, Part, TaskStreamEvent } from '../../core/a2a/src/types';
+import { ChartRenderer, ChartJsConfig, ChartImageFormat, RenderedChart } from '../render';
+import { ChartInput, ChartInputSchema, ChartOptionsSchema, findChartRequestPart } from '../chartInputSchema';
+import { ChartTypeSpec, getChartTypeSpec, buildChartData, chartFields, formatChartDataIssue, labelFieldCandidates } from '../chartTypes';
+import { interpretChartRequest, rowsFromParts } from '../chartRequestInterpreter';
+import { ChartQuestion } from '../chartRefinement';
+import { isDataFilePart, rowsFromDataFiles, withDataFileRows } from '../dataFiles';
+import { applyTransforms } from '../transform';
+import { TimeSeries, prepareTimeSeries, toTimeSeriesData, timeScale } from '../timeSeries';
+import { COLORBLIND_SAFE_PALETTE, ChartTheme, getTheme } from '../themes';
+import { ChartDescription, chartAltText, chartDataTable, descriptionParts, plottedChart } from '../accessibility';
+import { PocketFlowLogger } from '../../core/pocketflow/logger';
+import { LLMClient } from '../../core/llm/LLMClient';
+
+// MIME type of the DataPart that carries the Chart.js configuration inside a chart artifact
+export const CHART_SPEC_MIME_TYPE = 'application/vnd.chartjs.config+json';
+
+const logger = PocketFlowLogger.getInstance();
+
+/**
+ * State shared by all nodes of one chart pipeline run.
+ * Only `taskId`, `baseUrl`, `parts` and `version` are set up front; every other field is filled in by a node.
+ */
+export interface ChartPipelineState {
+  taskId: string;
+  baseUrl: string;
+  parts: Part[];
+  /** Version of the chart within its task: 1 for the first chart, +1 for each refinement (default 1) */
+  version?: number;
+  onEvent?: (event: TaskStreamEvent) => void;
+
+  /** Raw chart request: a structured DataPart's data or the LLM's answer (ParseInput / InferSpec) */
+  rawRequest?: unknown;
+  /** Free-text request and attached rows, when the input has no structured request (ParseInput) */
+  prompt?: { text: string; rows: Record<string, any>[] };
+  /** Validated request and the resolved chart type (ValidateSpec) */
+  request?: ChartInput;
+  spec?: ChartTypeSpec;
+  /** Set when the request is ambiguous; the pipeline stops to wait for the answer (ValidateSpec) */
+  question?: ChartQuestion;
+  /** Rows to plot (TransformData; sorted and resampled by PrepareTimeSeries for a time axis) */
+  rows?: Record<string, any>[];
+  /** Set when the x values are dates and the chart gets a time axis (PrepareTimeSeries) */
+  timeSeries?: TimeSeries;
+  /** Chart.js configuration, image size and the theme it was styled with (BuildChartConfig) */
+  chartConfig?: ChartJsConfig;
+  size?: { width: number; height: number };
+  theme?: ChartTheme;
+  /** Alt text and data table of the plotted values (DescribeChart) */
+  description?: ChartDescription;
+  /** One render per requested format, primary format first, and the renderer that produced them (Render) */
+  renders?: RenderedChart[];
+  rendererName?: string;
+  /** Published results (PublishArtifact) */
+  chartRenderUrl?: string;
+  artifact?: Artifact;
+}
+
+type Action = NodeAction | void;
+
+/**
+ * Base class for pipeline nodes: a fixed retry policy and, by default, no fallback.
+ */
+abstract class ChartNode<Prep, Result> extends AsyncNodeImpl<ChartPipelineState, NodeParams, any> {
+  constructor(maxRetries = 1, waitMs = 0) {
+    super(maxRetries, waitMs);
+  }
+
+  abstract prep(shared: ChartPipelineState): Promise<Prep>;
+  abstract exec(prepResult: Prep): Promise<Result>;
+  abstract post(shared: ChartPipelineState, prepResult: Prep, execResult: Result): Promise<Action>;
+
+  async execFallback(prepResult: Prep, error: Error): Promise<Result> {
+    throw error;
+  }
+}
+
+/**
+ * Picks the chart request out of the input message. A DataPart naming a `chartType` goes straight to
+ * validation; a TextPart without one is sent to the 'infer' successor (LLM spec inference).
+ * Rows attached as CSV, TSV or JSON Lines FileParts become the request's `data`.
+ */
+export class ParseInputNode extends ChartNode<Part[], { rawRequest?: unknown; prompt?: ChartPipelineState['prompt'] }> {
+  async prep(shared: ChartPipelineState): Promise<Part[]> {
+    return shared.parts;
+  }
+
+  async exec(parts: Part[]) {
+    if (parts.length === 0) throw new Error('Input message or parts are missing.');
+    const index = findChartRequestPart(parts);
+    const fileRows = parts.some(isDataFilePart) ? rowsFromDataFiles(parts) : undefined;
+    const textPart = parts.find(part => part.type === 'text' && !!part.text.trim());
+    if (index === -1 && textPart?.type === 'text') {
+      return { prompt: { text: textPart.text, rows: [...rowsFromParts(parts), ...(fileRows ?? [])] } };
+    }
+    const dataPart = parts[index === -1 ? parts.findIndex(part => part.type === 'data') : index];
+    if (!dataPart || dataPart.type !== 'data' || !dataPart.data) {
+      throw new Error('Invalid input part type or missing data. Expected DataPart.');
+    }
+    return { rawRequest: fileRows ? withDataFileRows(dataPart.data, fileRows) : dataPart.data };
+  }
+
+  async post(shared: ChartPipelineState, _parts: Part[], result: { rawRequest?: unknown; prompt?: ChartPipelineState['prompt'] }) {
+    if (result.prompt) {
+      shared.prompt = result.prompt;
+      return 'infer';
+    }
+    shared.rawRequest = result.rawRequest;
+    return DEFAULT_ACTION;
+  }
+}
+
+/**
+ * Asks an LLM to turn a free-text request into a chart request. Retried because a second answer
+ * is often valid when the first one is not.
+ */
+export class InferSpecNode extends ChartNode<ChartPipelineState['prompt'], ChartInput> {
+  constructor(private readonly llm?: LLMClient, maxRetries = 2) {
+    super(maxRetries);
+  }
+
+  async prep(shared: ChartPipelineState) {
+    return shared.prompt;
+  }
+
+  async exec(prompt: ChartPipelineState['prompt']): Promise<ChartInput> {
+    if (!prompt) throw new Error('No natural-language request to interpret.');
+    logger.info(this.constructor.name, `Interpreting request: "${prompt.text}"`);
+    return interpretChartRequest(prompt.text, prompt.rows, this.llm);
+  }
+
+  async post(shared: ChartPipelineState, _prompt: ChartPipelineState['prompt'], request: ChartInput) {
+    shared.rawRequest = request;
+    return DEFAULT_ACTION;
+  }
+}
+
+interface ValidatedSpec {
+  request: ChartInput;
+  spec: ChartTypeSpec;
+  question?: ChartQuestion;
+}
+
+/**
+ * Validates the raw request against the chart schema and resolves the chart type.
+ * When the rows have no obvious label field the only text field is used; with several, the pipeline
+ * ends with a question for the user instead of guessing.
+ */
+export class ValidateSpecNode extends ChartNode<unknown, ValidatedSpec> {
+  async prep(shared: ChartPipelineState) {
+    return shared.rawRequest;
+  }
+
+  async exec(rawRequest: unknown) {
+    const parsed = ChartInputSchema.safeParse(rawRequest);
+    if (!parsed.success) {
+      throw new Error(`Invalid chart request: ${parsed.error.issues.map(formatChartDataIssue).join('; ')}`);
+    }
+    const request = parsed.data;
+    const spec = getChartTypeSpec(request.chartType)!;
+    // The label field is looked for in the rows as they will be charted, i.e. after the transform
+    const candidates = labelFieldCandidates(spec, applyTransforms(request.data, request.transform), request.encoding);
+    if (candidates.length === 1) {
+      return { request: { ...request, encoding: { ...request.encoding, x: candidates[0] } }, spec };
+    }
+    if (candidates.length > 1) {
+      const question: ChartQuestion = {
+        field: 'x',
+        text: `Which field should label the ${request.chartType} chart: ${candidates.join(', ')}?`,
+        options: candidates,
+      };
+      return { request, spec, question };
+    }
+    return { request, spec };
+  }
+
+  async post(shared: ChartPipelineState, _raw: unknown, { request, spec, question }: ValidatedSpec) {
+    shared.request = request;
+    shared.spec = spec;
+    if (question) {
+      shared.question = question;
+      return undefined;
+    }
+    return DEFAULT_ACTION;
+  }
+}
+
+/**
+ * Produces the rows to plot by applying the request's `transform` steps (filter, groupBy, sort, top, pivot, ...).
+ * Rows are copied so later steps may modify them.
+ */
+export class TransformDataNode extends ChartNode<ChartInput | undefined, Record<string, any>[]> {
+  async prep(shared: ChartPipelineState) {
+    return shared.request;
+  }
+
+  async exec(request: ChartInput | undefined) {
+    if (!request) throw new Error('TransformData requires a validated request.');
+    return applyTransforms(request.data, request.transform).map(row => ({ ...row }));
+  }
+
+  async post(shared: ChartPipelineState, _request: ChartInput | undefined, rows: Record<string, any>[]) {
+    shared.rows = rows;
+    return DEFAULT_ACTION;
+  }
+}
+
+interface BuildPrep {
+  request: ChartInput;
+  spec: ChartTypeSpec;
+  rows: Record<string, any>[];
+  timeSeries?: TimeSeries;
+}
+
+/**
+ * Detects bar and line charts over dates. Their x values are parsed into timestamps and the rows are
+ * resampled and sorted so BuildChartConfig can put them on a time axis; other charts pass through.
+ */
+export class PrepareTimeSeriesNode extends ChartNode<BuildPrep, { timeSeries?: TimeSeries }> {
+  async prep(shared: ChartPipelineState): Promise<BuildPrep> {
+    if (!shared.request || !shared.spec || !shared.rows) throw new Error('PrepareTimeSeries requires validated, transformed data.');
+    return { request: shared.request, spec: shared.spec, rows: shared.rows };
+  }
+
+  async exec({ request, spec, rows }: BuildPrep) {
+    // Wrapped because the flow skips a node's action when exec resolves to undefined
+    return { timeSeries: prepareTimeSeries(spec, rows, request.encoding, request.options?.time) };
+  }
+
+  async post(shared: ChartPipelineState, _prep: BuildPrep, { timeSeries }: { timeSeries?: TimeSeries }) {
+    if (timeSeries) {
+      shared.timeSeries = timeSeries;
+      shared.rows = timeSeries.rows;
+    }
+    return DEFAULT_ACTION;
+  }
+}
+
+// Options the request schema defines (size, theme, time axis...) are read by the pipeline, not by Chart.js
+const REQUEST_OPTION_KEYS = new Set(Object.keys(ChartOptionsSchema.shape));
+
+function chartJsOptions(options: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(options).filter(([key]) => !REQUEST_OPTION_KEYS.has(key)));
+}
+
+interface BuiltConfig {
+  config: ChartJsConfig;
+  width: number;
+  height: number;
+  theme: ChartTheme;
+}
+
+/**
+ * Builds the Chart.js configuration (data, scales, titles, fonts) for the request, styled with its theme:
+ * series colours, text and gridline colours and the title style. `fontFamily` overrides the theme's font,
+ * and `accessibility.colorblindSafe` its palette.
+ */
+export class BuildChartConfigNode extends ChartNode<BuildPrep, BuiltConfig> {
+  async prep(shared: ChartPipelineState): Promise<BuildPrep> {
+    if (!shared.request || !shared.spec || !shared.rows) throw new Error('BuildChartConfig requires validated, transformed data.');
+    return { request: shared.request, spec: shared.spec, rows: shared.rows, timeSeries: shared.timeSeries };
+  }
+
+  async exec({ request, spec, rows, timeSeries }: BuildPrep) {
+    const { encoding, options = {} } = request;
+    // The schema only accepts known themes, but one may have been replaced since the request was validated
+    const named = getTheme(options.theme) ?? getTheme()!;
+    const theme = options.accessibility?.colorblindSafe ? { ...named, palette: COLORBLIND_SAFE_PALETTE } : named;
+    const fontFamily = options.fontFamily || theme.fontFamily;
+    const font = { family: fontFamily };
+    const color = theme.textColor;
+    const axisTitle = (text?: string) => ({ display: !!text, text, color, font });
+    const ticks = { color, font };
+    const grid = { display: theme.grid.display, color: theme.grid.color };
+    const border = { color: theme.grid.axisColor };
+    // Horizontal bars swap the axes: the value axis (which starts at zero) is x
+    const horizontal = spec.indexAxis === 'y';
+    // A log scale has no zero, so the value axis only begins at zero on a linear scale
+    const logarithmic = options.valueScale === 'logarithmic';
+    const valueAxis = { beginAtZero: !logarithmic, ...(logarithmic && { type: 'logarithmic' }) };
+    // Pie and doughnut charts have no scales; polar area and radar use a single radial scale
+    const scales =
+      spec.axes === 'cartesian' ? {
+        y: { ...(horizontal ? { beginAtZero: false } : valueAxis), title: axisTitle(options.yAxisLabel), ticks, grid, border },
+        x: {
+          ...(horizontal ? valueAxis : { beginAtZero: false }),
+          ...(timeSeries && timeScale(timeSeries)),
+          title: axisTitle(options.xAxisLabel),
+          ticks,
+          grid,
+          border,
+        },
+      } : spec.axes === 'radial' ? {
+        r: {
+          beginAtZero: true,
+          // Tick labels sit on the grid; Chart.js gives them a white backdrop by default
+          ticks: { ...ticks, backdropColor: 'transparent' },
+          grid,
+          angleLines: { display: theme.grid.display, color: theme.grid.color },
+          pointLabels: { color, font },
+        },
+      } : undefined;
+
+    const data = buildChartData(spec, rows, options.title || 'Dataset', encoding, theme);
+
+    const config: ChartJsConfig = {
+      type: spec.chartJsType,
+      data: timeSeries ? toTimeSeriesData(data, timeSeries, options.time) : data,
+      options: {
+        responsive: false, // The renderer handles dimensions
+        animation: false, // Animations not relevant for static image
+        ...(spec.indexAxis && { indexAxis: spec.indexAxis }),
+        color,
+        plugins: {
+          title: {
+            display: !!options.title,
+            text: options.title,
+            color: theme.title.color,
+            font: { family: fontFamily, size: theme.title.size, weight: theme.title.weight },
+          },
+          legend: { labels: { color, font } },
+          tooltip: { bodyFont: font, titleFont: font },
+        },
+        ...(scales && { scales }),
+        ...chartJsOptions(options), // Unrecognised options pass through to Chart.js
+      },
+    };
+    return { config, width: options.width || 800, height: options.height || 600, theme };
+  }
+
+  async post(shared: ChartPipelineState, _prep: BuildPrep, { config, width, height, theme }: BuiltConfig) {
+    shared.chartConfig = config;
+    shared.size = { width, height };
+    shared.theme = theme;
+    return DEFAULT_ACTION;
+  }
+}
+
+interface DescribePrep {
+  request: ChartInput;
+  spec: ChartTypeSpec;
+  rows: Record<string, any>[];
+  timeSeries?: TimeSeries;
+  config: ChartJsConfig;
+}
+
+/**
+ * Writes the chart's alt text and a data table of its plotted values, in the format the request asks for.
+ */
+export class DescribeChartNode extends ChartNode<DescribePrep, ChartDescription> {
+  async prep(shared: ChartPipelineState): Promise<DescribePrep> {
+    if (!shared.request || !shared.spec || !shared.rows || !shared.chartConfig) throw new Error('DescribeChart requires a chart configuration.');
+    return { request: shared.request, spec: shared.spec, rows: shared.rows, timeSeries: shared.timeSeries, config: shared.chartConfig };
+  }
+
+  async exec({ request, spec, rows, timeSeries, config }: DescribePrep): Promise<ChartDescription> {
+    const { encoding, options = {} } = request;
+    const fields = chartFields(spec, rows, encoding);
+    // Horizontal bars put the categories on the y axis
+    const [categoryLabel, valueLabel] = spec.indexAxis === 'y' ? [options.yAxisLabel, options.xAxisLabel] : [options.xAxisLabel, options.yAxisLabel];
+    const chart = plottedChart(config, {
+      chartType: request.chartType,
+      spec,
+      title: options.title,
+      xName: categoryLabel || fields.x || (spec.shape === 'category' ? 'label' : 'x'),
+      yName: valueLabel || (fields.y.length === 1 ? fields.y[0] : 'value'),
+      rName: spec.shape === 'xyr' ? encoding?.r || 'r' : undefined,
+      timeSeries,
+      // A rolling average adds one dataset per plotted dataset
+      derivedDatasets: timeSeries && options.time?.rollingAverage ? config.data.datasets.length / 2 : 0,
+    });
+    const tableFormat = options.accessibility?.dataTable ?? 'markdown';
+    return { altText: chartAltText(chart), table: chartDataTable(chart, tableFormat), tableFormat };
+  }
+
+  async post(shared: ChartPipelineState, _prep: DescribePrep, description: ChartDescription) {
+    shared.description = description;
+    return DEFAULT_ACTION;
+  }
+}
+
+interface RenderPrep {
+  config: ChartJsConfig;
+  width: number;
+  height: number;
+  formats: ChartImageFormat[];
+  backgroundColor?: string;
+  altText?: string;
+}
+
+/**
+ * Renders the chart once per requested format. Retried for flaky hosted backends; when retries run out
+ * and a fallback renderer is configured (e.g. the local renderer behind QuickChart), that one is used.
+ */
+export class RenderNode extends ChartNode<RenderPrep, { renders: RenderedChart[]; rendererName: string }> {
+  constructor(private readonly renderer: ChartRenderer, private readonly fallbackRenderer?: ChartRenderer, maxRetries = 2, waitMs = 200) {
+    super(maxRetries, waitMs);
+  }
+
+  async prep(shared: ChartPipelineState): Promise<RenderPrep> {
+    if (!shared.chartConfig || !shared.size || !shared.request) throw new Error('Render requires a chart configuration.');
+    const options = shared.request.options || {};
+    return {
+      config: shared.chartConfig,
+      ...shared.size,
+      // The first requested format is the primary image (file on disk, chartRenderUrl)
+      formats: ([] as ChartImageFormat[]).concat(options.format || 'svg'),
+      backgroundColor: options.backgroundColor ?? shared.theme?.background,
+      altText: shared.description?.altText,
+    };
+  }
+
+  async exec(prep: RenderPrep) {
+    return this.renderWith(this.renderer, prep);
+  }
+
+  async execFallback(prep: RenderPrep, error: Error) {
+    if (!this.fallbackRenderer) throw error;
+    logger.warn(this.constructor.name, `'${this.renderer.name}' renderer failed, falling back to '${this.fallbackRenderer.name}'`, error);
+    return this.renderWith(this.fallbackRenderer, prep);
+  }
+
+  async post(shared: ChartPipelineState, _prep: RenderPrep, { renders, rendererName }: { renders: RenderedChart[]; rendererName: string }) {
+    shared.renders = renders;
+    shared.rendererName = rendererName;
+    return DEFAULT_ACTION;
+  }
+
+  private async renderWith(renderer: ChartRenderer, { config, width, height, formats, backgroundColor, altText }: RenderPrep) {
+    const renders: RenderedChart[] = [];
+    for (const format of formats) {
+      renders.push(await renderer.render(config, { width, height, format, backgroundColor, altText }));
+    }
+    return { renders, rendererName: renderer.name };
+  }
+}
+
+/** Where PublishArtifact puts its output. */
+export interface ChartPublisher {
+  chartsDir: string;
+  addArtifact: (taskId: string, artifact: Omit<Artifact, 'id'> & { type: string }) => Promise<Artifact>;
+}
+
+interface PublishPrep {
+  taskId: string;
+  version: number;
+  baseUrl: string;
+  request: ChartInput;
+  renders: RenderedChart[];
+  config: ChartJsConfig;
+  size: { width: number; height: number };
+  rendererName?: string;
+  themeName?: string;
+  description?: ChartDescription;
+}
+
+/**
+ * Writes the primary image to the charts directory (unless the renderer hosts it) and stores the chart
+ * as a task artifact holding every rendered format, the Chart.js configuration, the alt text and the data table.
+ * Ends the pipeline.
+ */
+export class PublishArtifactNode extends ChartNode<PublishPrep, { chartRenderUrl: string; artifact: Artifact }> {
+  constructor(private readonly publisher: ChartPublisher) {
+    super();
+  }
+
+  async prep(shared: ChartPipelineState): Promise<PublishPrep> {
+    const { taskId, version = 1, baseUrl, request, renders, chartConfig, size, rendererName, theme, description } = shared;
+    if (!request || !renders?.length || !chartConfig || !size) throw new Error('PublishArtifact requires rendered charts.');
+    return { taskId, version, baseUrl, request, renders, config: chartConfig, size, rendererName, themeName: theme?.name, description };
+  }
+
+  async exec({ taskId, version, baseUrl, request, renders, config, size, rendererName, themeName, description }: PublishPrep) {
+    const [primary] = renders;
+    // Refined versions get their own files so earlier versions stay available
+    const baseName = version > 1 ? `${taskId}-v${version}` : taskId;
+    // Hosted backends return their own URL; local renders are written to the static charts directory
+    let chartRenderUrl = primary.url;
+    if (!chartRenderUrl) {
+      const chartFilename = `${baseName}.${primary.format}`;
+      await fs.promises.mkdir(this.publisher.chartsDir, { recursive: true });
+      await fs.promises.writeFile(path.join(this.publisher.chartsDir, chartFilename), primary.data);
+      chartRenderUrl = `${baseUrl}/charts/${chartFilename}`;
+    }
+
+    const title = request.options?.title;
+    const artifact = await this.publisher.addArtifact(taskId, {
+      type: primary.mimeType,
+      name: `${baseName}.${primary.format}`,
+      description: `${request.chartType} chart${title ? `: ${title}` : ''}`,
+      url: chartRenderUrl,
+      parts: [
+        ...renders.map((r): FilePart => ({
+          type: 'file',
+          filename: `${baseName}.${r.format}`,
+          contentType: r.mimeType,
+          data: r.data.toString('base64'),
+        })),
+        // The Chart.js configuration that produced the images, so clients can re-render or tweak it
+        { type: 'data', mimeType: CHART_SPEC_MIME_TYPE, data: config },
+        ...(description ? descriptionParts(description) : []),
+      ],
+      metadata: {
+        chartType: request.chartType,
+        width: size.width,
+        height: size.height,
+        formats: renders.map(r => r.format),
+        renderer: rendererName,
+        theme: themeName,
+        version,
+      },
+    });
+    return { chartRenderUrl, artifact };
+  }
+
+  async post(shared: ChartPipelineState, _prep: PublishPrep, { chartRenderUrl, artifact }: { chartRenderUrl: string; artifact: Artifact }) {
+    shared.chartRenderUrl = chartRenderUrl;
+    shared.artifact = artifact;
+    shared.onEvent?.({ id: shared.taskId, artifact, final: true });
+    return undefined;
+  }
+}
@@ -0,0 +1,43 @@
+// ChartRenderer.ts - Generic interface for chart rendering backends used by the chart agent
+
+export type ChartImageFormat = 'svg' | 'png';
+
+/**
+ * Minimal shape of a Chart.js configuration as built by the chart agent.
+ */
+export interface ChartJsConfig {
+  type: string;
+  data: {
+    labels?: any[];
+    datasets: any[];
+  };
+  options?: Record<string, any>;
+}
+
+export interface RenderOptions {
+  width: number;
+  height: number;
+  format: ChartImageFormat;
+  backgroundColor?: string;
+  /** Text alternative embedded in formats that can carry one (the SVG `<title>`) */
+  altText?: string;
+}
+
+export interface RenderedChart {
+  format: ChartImageFormat;
+  mimeType: string;
+  width: number;
+  height: number;
+  data: Buffer;
+  url?: string; // Set by backends that host the image themselves
+}
+
+export interface ChartRenderer {
+  readonly name: string;
+  render(config: ChartJsConfig, options: RenderOptions): Promise<RenderedChart>;
+}
+
+export const CHART_MIME_TYPES: Record<ChartImageFormat, string> = {
+  svg: 'image/svg+xml',
+  png: 'image/png',
+};
@@ -0,0 +1,33 @@
+import QuickChart from 'quickchart-js';
+import { ChartRenderer, ChartJsConfig, RenderOptions, RenderedChart, CHART_MIME_TYPES } from './ChartRenderer';
+
+/**
+ * Renders charts through the hosted QuickChart.io service.
+ * Requires network access and sends the chart data to a third party; prefer SvgChartRenderer.
+ */
+export class QuickChartRenderer implements ChartRenderer {
+  readonly name = 'quickchart';
+
+  async render(config: ChartJsConfig, options: RenderOptions): Promise<RenderedChart> {
+    const chart = new QuickChart();
+    chart.setConfig(config as any);
+    chart.setWidth(options.width);
+    chart.setHeight(options.height);
+    chart.setFormat(options.format);
+    if (options.backgroundColor) chart.setBackgroundColor(options.backgroundColor);
+
+    const url = await chart.getShortUrl();
+    if (!url) {
+      throw new Error('Failed to generate chart URL from QuickChart.io.');
+    }
+    const data = await chart.toBinary();
+    return {
+      format: options.format,
+      mimeType: CHART_MIME_TYPES[options.format],
+      width: options.width,
+      height: options.height,
+      data,
+      url,
+    };
+  }
+}
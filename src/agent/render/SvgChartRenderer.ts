@@ -0,0 +1,754 @@
+import { Resvg } from '@resvg/resvg-js';
+import { ChartRenderer, ChartJsConfig, RenderOptions, RenderedChart, CHART_MIME_TYPES } from './ChartRenderer';
+import { TimeUnit, addUnits, bucketStart, formatTime } from '../timeSeries';
+import { withAlpha } from '../themes';
+
+const DEFAULT_FONT_FAMILY = 'sans-serif';
+const DEFAULT_PALETTE = [
+  'rgba(75, 192, 192, 1)',
+  'rgba(54, 162, 235, 1)',
+  'rgba(255, 99, 132, 1)',
+  'rgba(255, 159, 64, 1)',
+  'rgba(153, 102, 255, 1)',
+  'rgba(255, 205, 86, 1)',
+  'rgba(201, 203, 207, 1)',
+];
+const PADDING = 16;
+const TEXT_COLOR = '#666666';
+const GRID_COLOR = 'rgba(0, 0, 0, 0.1)';
+// Chart types whose legend lists one entry per label (slice) instead of per dataset
+const SLICE_TYPES = ['pie', 'doughnut', 'polararea'];
+
+/**
+ * Renders Chart.js configurations in-process, without a browser, canvas or network access.
+ * SVG is produced directly; PNG is rasterized from that SVG with resvg, using the system fonts
+ * plus any `fontFiles` (.ttf/.otf paths) so brand fonts render without being installed.
+ */
+export class SvgChartRenderer implements ChartRenderer {
+  readonly name = 'local';
+
+  constructor(private fontFiles: string[] = []) {}
+
+  async render(config: ChartJsConfig, options: RenderOptions): Promise<RenderedChart> {
+    const svg = renderChartToSvg(config, options.width, options.height, options.backgroundColor, options.altText);
+    const base = { width: options.width, height: options.height };
+    if (options.format === 'png') {
+      const png = new Resvg(svg, { font: { fontFiles: this.fontFiles, loadSystemFonts: true } }).render().asPng();
+      return { ...base, format: 'png', mimeType: CHART_MIME_TYPES.png, data: Buffer.from(png) };
+    }
+    return { ...base, format: 'svg', mimeType: CHART_MIME_TYPES.svg, data: Buffer.from(svg, 'utf8') };
+  }
+}
+
+interface Box {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+interface FontSpec {
+  family: string;
+  size: number;
+  weight?: string | number;
+  color: string;
+}
+
+/**
+ * Collects SVG elements and serializes them into a document.
+ */
+class SvgBuilder {
+  private elements: string[] = [];
+
+  constructor(private width: number, private height: number, private altText?: string) {}
+
+  rect(x: number, y: number, w: number, h: number, attrs: Record<string, any> = {}): void {
+    this.push('rect', { x, y, width: Math.max(0, w), height: Math.max(0, h), ...attrs });
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, attrs: Record<string, any> = {}): void {
+    this.push('line', { x1, y1, x2, y2, ...attrs });
+  }
+
+  path(d: string, attrs: Record<string, any> = {}): void {
+    this.push('path', { d, ...attrs });
+  }
+
+  circle(cx: number, cy: number, r: number, attrs: Record<string, any> = {}): void {
+    this.push('circle', { cx, cy, r, ...attrs });
+  }
+
+  text(x: number, y: number, value: string, font: FontSpec, attrs: Record<string, any> = {}): void {
+    const fontAttrs = {
+      x,
+      y,
+      'font-family': font.family,
+      'font-size': font.size,
+      'font-weight': font.weight,
+      fill: font.color,
+      ...attrs,
+    };
+    this.elements.push(`<text${serializeAttrs(fontAttrs)}>${escapeXml(value)}</text>`);
+  }
+
+  toString(): string {
+    // With alt text the image is announced as one graphic by screen readers, instead of as loose text
+    const label = this.altText ? ' role="img" aria-labelledby="chart-title"' : '';
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${this.width}" height="${this.height}" viewBox="0 0 ${this.width} ${this.height}"${label}>`,
+      ...(this.altText ? [`<title id="chart-title">${escapeXml(this.altText)}</title>`] : []),
+      ...this.elements,
+      '</svg>',
+    ].join('\n');
+  }
+
+  private push(tag: string, attrs: Record<string, any>): void {
+    this.elements.push(`<${tag}${serializeAttrs(attrs)}/>`);
+  }
+}
+
+/**
+ * Render a Chart.js configuration to an SVG document string, titled with the alt text when one is given.
+ */
+export function renderChartToSvg(config: ChartJsConfig, width: number, height: number, backgroundColor = '#ffffff', altText?: string): string {
+  const svg = new SvgBuilder(width, height, altText);
+  const options = config.options || {};
+  const plugins = options.plugins || {};
+  const family = plugins.title?.font?.family || options.font?.family || DEFAULT_FONT_FAMILY;
+  const color = textColor(config);
+  const box: Box = { left: PADDING, top: PADDING, right: width - PADDING, bottom: height - PADDING };
+
+  if (backgroundColor !== 'transparent') {
+    svg.rect(0, 0, width, height, { fill: backgroundColor });
+  }
+
+  const title = plugins.title;
+  if (title?.display && title.text) {
+    const font = resolveFont(title.font, family, 18, title.color || color, 'bold');
+    const lines = Array.isArray(title.text) ? title.text : [String(title.text)];
+    for (const line of lines) {
+      box.top += font.size;
+      svg.text(width / 2, box.top, line, font, { 'text-anchor': 'middle' });
+      box.top += 4;
+    }
+    box.top += 8;
+  }
+
+  const type = config.type.toLowerCase();
+  const perSlice = SLICE_TYPES.includes(type);
+  const legendEntries = perSlice
+    ? (config.data.labels || []).map((label, i) => ({
+        label: String(label),
+        color: colorAt(config.data.datasets[0]?.backgroundColor, i) || paletteColor(i),
+      }))
+    : config.data.datasets.map((ds, i) => ({
+        label: ds.label !== undefined ? String(ds.label) : '',
+        color: firstColor(ds.borderColor) || firstColor(ds.backgroundColor) || paletteColor(i),
+      }));
+  const visibleEntries = legendEntries.filter(entry => entry.label);
+  if (plugins.legend?.display !== false && visibleEntries.length > 0) {
+    box.top = drawLegend(svg, visibleEntries, box, resolveFont(plugins.legend?.labels?.font, family, 12, plugins.legend?.labels?.color || color));
+  }
+
+  switch (type) {
+    case 'bar':
+    case 'line':
+    case 'scatter':
+    case 'bubble':
+      drawCartesian(svg, config, box, family);
+      break;
+    case 'pie':
+    case 'doughnut':
+      drawPie(svg, config, box);
+      break;
+    case 'polararea':
+      drawPolarArea(svg, config, box, family);
+      break;
+    case 'radar':
+      drawRadar(svg, config, box, family);
+      break;
+    default:
+      throw new Error(`Local chart renderer does not support chart type '${config.type}'.`);
+  }
+
+  return svg.toString();
+}
+
+function drawLegend(svg: SvgBuilder, entries: { label: string; color: string }[], box: Box, font: FontSpec): number {
+  const swatch = font.size;
+  const gap = 10;
+  const rowHeight = font.size + 8;
+  const maxWidth = box.right - box.left;
+  const rows: { label: string; color: string; width: number }[][] = [[]];
+  let rowWidth = 0;
+  for (const entry of entries) {
+    const itemWidth = swatch * 2 + 6 + measureText(entry.label, font.size) + gap;
+    if (rowWidth + itemWidth > maxWidth && rows[rows.length - 1].length > 0) {
+      rows.push([]);
+      rowWidth = 0;
+    }
+    rows[rows.length - 1].push({ ...entry, width: itemWidth });
+    rowWidth += itemWidth;
+  }
+
+  let y = box.top;
+  for (const row of rows) {
+    const total = row.reduce((sum, item) => sum + item.width, 0) - gap;
+    let x = box.left + (maxWidth - total) / 2;
+    for (const item of row) {
+      svg.rect(x, y, swatch * 2, swatch, { fill: item.color });
+      svg.text(x + swatch * 2 + 6, y + swatch - 2, item.label, font);
+      x += item.width;
+    }
+    y += rowHeight;
+  }
+  return y + 4;
+}
+
+/**
+ * An axis maps data coordinates to a 0..1 fraction of the plot size.
+ * Category axes place each label at the centre of its band; linear axes use nice tick values and
+ * time axes ticks on calendar boundaries.
+ */
+interface Axis {
+  kind: 'category' | 'linear';
+  tickLabels: string[];
+  tickFractions: number[];
+  band: number; // Fraction of the axis covered by one category (1 for linear axes)
+  map(value: number): number;
+}
+
+function categoryAxis(labels: string[], reverse = false): Axis {
+  const n = Math.max(labels.length, 1);
+  const map = (i: number) => (reverse ? 1 - (i + 0.5) / n : (i + 0.5) / n);
+  return { kind: 'category', tickLabels: labels, tickFractions: labels.map((_, i) => map(i)), band: 1 / n, map };
+}
+
+function linearAxis(values: number[], scale: any, beginAtZero: boolean): Axis & { min: number; max: number } {
+  const ticks = niceTicks(values, scale?.beginAtZero ?? beginAtZero, scale?.min, scale?.max);
+  const map = (v: number) => (v - ticks.min) / (ticks.max - ticks.min || 1);
+  return {
+    kind: 'linear',
+    tickLabels: ticks.values.map(formatTick),
+    tickFractions: ticks.values.map(map),
+    band: 1,
+    map,
+    min: ticks.min,
+    max: ticks.max,
+  };
+}
+
+// Decade ticks (1, 10, 100, ...) spanning the positive values; non-positive values sit at the bottom
+function logAxis(values: number[], scale: any): Axis & { min: number; max: number } {
+  const positive = values.filter(v => v > 0);
+  const lowest = scale?.min > 0 ? scale.min : positive.length > 0 ? Math.min(...positive) : 1;
+  const highest = scale?.max > 0 ? scale.max : positive.length > 0 ? Math.max(...positive) : 10;
+  const lo = Math.floor(Math.log10(lowest));
+  const hi = Math.max(Math.ceil(Math.log10(highest)), lo + 1);
+  const map = (v: number) => (v > 0 ? Math.min(Math.max((Math.log10(v) - lo) / (hi - lo), 0), 1) : 0);
+  const tickValues = Array.from({ length: hi - lo + 1 }, (_, i) => Math.pow(10, lo + i));
+  return {
+    kind: 'linear',
+    tickLabels: tickValues.map(formatTick),
+    tickFractions: tickValues.map(map),
+    band: 1,
+    map,
+    min: tickValues[0],
+    max: tickValues[tickValues.length - 1],
+  };
+}
+
+const DAY_MS = 86_400_000;
+
+// Tick unit for a time span, unless the scale names one (`time.unit`)
+function timeTickUnit(span: number, unit?: TimeUnit): TimeUnit {
+  if (unit) return unit;
+  if (span <= 3 * 3_600_000) return 'minute';
+  if (span <= 2 * DAY_MS) return 'hour';
+  if (span <= 62 * DAY_MS) return 'day';
+  if (span <= 3 * 366 * DAY_MS) return 'month';
+  return 'year';
+}
+
+/**
+ * Time axis over timestamps, labelled in the zone of the scale's date adapter (`adapters.date.zone`).
+ * With bars the axis extends half the closest spacing beyond the first and last time, and `band` is that
+ * spacing so bars get a sensible width.
+ */
+function timeAxis(values: number[], scale: any, bars: boolean): Axis {
+  const zone = scale?.adapters?.date?.zone || 'UTC';
+  const times = Array.from(new Set(values)).sort((a, b) => a - b);
+  const gaps = times.slice(1).map((t, i) => t - times[i]);
+  const spacing = gaps.length > 0 ? Math.min(...gaps) : DAY_MS;
+  let min = times[0] ?? 0;
+  let max = times[times.length - 1] ?? DAY_MS;
+  if (bars || min === max) {
+    min -= spacing / 2;
+    max += spacing / 2;
+  }
+  const unit = timeTickUnit(max - min, scale?.time?.unit);
+  const ticks: number[] = [];
+  for (let t = bucketStart(min, unit, zone); t <= max && ticks.length < 1000; t = addUnits(t, unit, 1, zone)) {
+    if (t >= min) ticks.push(t);
+  }
+  // Keep about ten labels
+  const every = Math.ceil(ticks.length / 10);
+  const shown = ticks.filter((_, i) => i % every === 0);
+  const map = (v: number) => (v - min) / (max - min);
+  return {
+    kind: 'linear',
+    tickLabels: shown.map(t => formatTime(t, unit, zone)),
+    tickFractions: shown.map(map),
+    band: bars ? spacing / (max - min) : 1,
+    map,
+  };
+}
+
+interface PlotPoint {
+  index: number; // Category index, or the numeric x value on a linear index axis
+  value: number;
+  r?: number;
+}
+
+function toPlotPoint(raw: any, i: number, numericIndex: boolean): PlotPoint | null {
+  if (typeof raw === 'number') return Number.isFinite(raw) ? { index: i, value: raw } : null;
+  if (raw && typeof raw === 'object' && typeof raw.y === 'number' && Number.isFinite(raw.y)) {
+    const index = numericIndex ? Number(raw.x) : i;
+    if (!Number.isFinite(index)) return null;
+    return { index, value: raw.y, r: typeof raw.r === 'number' ? raw.r : undefined };
+  }
+  return null;
+}
+
+/**
+ * Draws bar, line, scatter and bubble charts (including mixed charts).
+ * Bars and lines use a category index axis unless `scales.x.type` is 'linear' or 'time' (the labels are
+ * then timestamps); scatter and bubble charts always use linear x and y axes. `indexAxis: 'y'` draws horizontal bars. The value axis may be 'logarithmic'.
+ */
+function drawCartesian(svg: SvgBuilder, config: ChartJsConfig, box: Box, family: string): void {
+  const options = config.options || {};
+  const scales = options.scales || {};
+  const datasets = config.data.datasets;
+  const chartType = config.type.toLowerCase();
+  const horizontal = options.indexAxis === 'y';
+  const timeIndex = scales.x?.type === 'time' && !horizontal;
+  const numericIndex = chartType === 'scatter' || chartType === 'bubble' || scales.x?.type === 'linear' || timeIndex;
+  const labels = config.data.labels || [];
+  const color = textColor(config);
+  const tickFont = resolveFont(scales.y?.ticks?.font, family, 12, scales.y?.ticks?.color || color);
+  const titleFont = (scale: any) => resolveFont(scale?.title?.font, family, 12, scale?.title?.color || color);
+
+  const points = datasets.map(ds =>
+    (ds.data || []).map((raw: any, i: number) => toPlotPoint(raw, timeIndex ? Number(labels[i]) : i, numericIndex))
+  );
+  const flat = points.flat().filter((p): p is PlotPoint => p !== null);
+  const hasBars = datasets.some(ds => (ds.type || chartType) === 'bar');
+
+  // Point charts get a margin around the data so markers are not clipped at the plot edges
+  const padPoints = chartType === 'scatter' || chartType === 'bubble';
+  const valueScale = horizontal ? scales.x : scales.y;
+  const valueAxis = valueScale?.type === 'logarithmic'
+    ? logAxis(flat.map(p => p.value), valueScale)
+    : linearAxis(withMargin(flat.map(p => p.value), padPoints), valueScale, hasBars);
+  const indexAxis: Axis = timeIndex
+    ? timeAxis(flat.map(p => p.index), scales.x, hasBars)
+    : numericIndex
+      ? linearAxis(withMargin(flat.map(p => p.index), padPoints), scales.x, false)
+      : categoryAxis(labels.map(label => String(label)), horizontal);
+  const bottomAxis = horizontal ? valueAxis : indexAxis;
+  const leftAxis = horizontal ? indexAxis : valueAxis;
+
+  const plot: Box = { ...box };
+  if (scales.y?.title?.display && scales.y.title.text) {
+    const font = titleFont(scales.y);
+    const cx = plot.left + font.size;
+    const cy = (plot.top + plot.bottom) / 2;
+    svg.text(cx, cy, String(scales.y.title.text), font, { 'text-anchor': 'middle', transform: `rotate(-90 ${cx} ${cy})` });
+    plot.left += font.size + 8;
+  }
+  if (scales.x?.title?.display && scales.x.title.text) {
+    const font = titleFont(scales.x);
+    svg.text((plot.left + plot.right) / 2, plot.bottom, String(scales.x.title.text), font, { 'text-anchor': 'middle' });
+    plot.bottom -= font.size + 8;
+  }
+  plot.left += Math.max(...leftAxis.tickLabels.map(t => measureText(t, tickFont.size)), 0) + 8;
+
+  const widest = Math.max(...bottomAxis.tickLabels.map(l => measureText(l, tickFont.size)), 0);
+  const slot = (plot.right - plot.left) * (bottomAxis.kind === 'category' ? bottomAxis.band : 1 / Math.max(bottomAxis.tickLabels.length, 1));
+  const rotateLabels = widest > slot - 4;
+  plot.bottom -= rotateLabels ? Math.min(widest * 0.71 + tickFont.size, (plot.bottom - plot.top) / 3) : tickFont.size + 8;
+
+  const plotWidth = plot.right - plot.left;
+  const plotHeight = plot.bottom - plot.top;
+  const px = (fraction: number) => plot.left + fraction * plotWidth;
+  const py = (fraction: number) => plot.bottom - fraction * plotHeight;
+  // Screen position of a (index, value) pair
+  const screen = (index: number, value: number) =>
+    horizontal ? { x: px(valueAxis.map(value)), y: py(indexAxis.map(index)) } : { x: px(indexAxis.map(index)), y: py(valueAxis.map(value)) };
+
+  const leftGrid = gridColor(scales.y);
+  const bottomGrid = gridColor(scales.x);
+  leftAxis.tickFractions.forEach((fraction, i) => {
+    const y = py(fraction);
+    if (leftAxis.kind === 'linear' && leftGrid) svg.line(plot.left, y, plot.right, y, { stroke: leftGrid, 'stroke-width': 1 });
+    svg.text(plot.left - 8, y + tickFont.size / 3, leftAxis.tickLabels[i], tickFont, { 'text-anchor': 'end' });
+  });
+  bottomAxis.tickFractions.forEach((fraction, i) => {
+    const x = px(fraction);
+    const y = plot.bottom + tickFont.size + 6;
+    if (bottomAxis.kind === 'linear' && bottomGrid) svg.line(x, plot.top, x, plot.bottom, { stroke: bottomGrid, 'stroke-width': 1 });
+    if (rotateLabels) {
+      svg.text(x, y, bottomAxis.tickLabels[i], tickFont, { 'text-anchor': 'end', transform: `rotate(-45 ${x} ${y})` });
+    } else {
+      svg.text(x, y, bottomAxis.tickLabels[i], tickFont, { 'text-anchor': 'middle' });
+    }
+  });
+  svg.line(plot.left, plot.bottom, plot.right, plot.bottom, { stroke: scales.x?.border?.color || TEXT_COLOR, 'stroke-width': 1 });
+  svg.line(plot.left, plot.top, plot.left, plot.bottom, { stroke: scales.y?.border?.color || TEXT_COLOR, 'stroke-width': 1 });
+
+  const barDatasets = datasets.filter(ds => (ds.type || chartType) === 'bar');
+  const bandPx = (horizontal ? plotHeight : plotWidth) * indexAxis.band;
+  const groupPx = bandPx * 0.8;
+  const barPx = barDatasets.length > 0 ? groupPx / barDatasets.length : 0;
+  const zero = Math.min(Math.max(0, valueAxis.min), valueAxis.max);
+
+  datasets.forEach((ds, dsIndex) => {
+    const fallback = paletteColor(dsIndex);
+    const dsType = ds.type || chartType;
+    const dsPoints = points[dsIndex];
+
+    if (dsType === 'bar') {
+      const slotIndex = barDatasets.indexOf(ds);
+      dsPoints.forEach((p: PlotPoint | null, i: number) => {
+        if (!p) return;
+        const start = screen(p.index, zero);
+        const end = screen(p.index, p.value);
+        const offset = -groupPx / 2 + barPx * slotIndex;
+        const attrs = {
+          fill: colorAt(ds.backgroundColor, i) || withAlpha(fallback, 0.5),
+          stroke: colorAt(ds.borderColor, i) || fallback,
+          'stroke-width': ds.borderWidth ?? 1,
+        };
+        if (horizontal) {
+          svg.rect(Math.min(start.x, end.x), start.y + offset, Math.abs(end.x - start.x), barPx, attrs);
+        } else {
+          svg.rect(start.x + offset, Math.min(start.y, end.y), barPx, Math.abs(end.y - start.y), attrs);
+        }
+      });
+      return;
+    }
+
+    if (dsType === 'scatter' || dsType === 'bubble') {
+      dsPoints.forEach((p: PlotPoint | null, i: number) => {
+        if (!p) return;
+        const { x, y } = screen(p.index, p.value);
+        const radius = dsType === 'bubble' ? Math.max(p.r ?? 0, 0) : ds.pointRadius ?? 3;
+        svg.circle(x, y, radius, {
+          fill: colorAt(ds.backgroundColor, i) || withAlpha(fallback, dsType === 'bubble' ? 0.5 : 1),
+          stroke: colorAt(ds.borderColor, i) || fallback,
+          'stroke-width': ds.borderWidth ?? 1,
+        });
+      });
+      return;
+    }
+
+    const color = firstColor(ds.borderColor) || fallback;
+    const coords = dsPoints.map((p: PlotPoint | null) => (p ? screen(p.index, p.value) : null));
+    const baseline = screen(0, zero);
+    const segments: { x: number; y: number }[][] = [[]];
+    for (const c of coords) {
+      if (c) segments[segments.length - 1].push(c);
+      else if (segments[segments.length - 1].length > 0 && !ds.spanGaps) segments.push([]);
+    }
+    for (const segment of segments.filter(seg => seg.length > 0)) {
+      const d = segment.map((c, i) => `${i === 0 ? 'M' : 'L'}${round(c.x)} ${round(c.y)}`).join(' ');
+      if (ds.fill) {
+        const last = segment[segment.length - 1];
+        svg.path(`${d} L${round(last.x)} ${round(baseline.y)} L${round(segment[0].x)} ${round(baseline.y)} Z`, {
+          fill: firstColor(ds.backgroundColor) || withAlpha(color, 0.2),
+          stroke: 'none',
+        });
+      }
+      svg.path(d, { fill: 'none', stroke: color, 'stroke-width': ds.borderWidth ?? 2, 'stroke-dasharray': ds.borderDash?.join(' ') });
+    }
+    const radius = ds.pointRadius ?? 3;
+    if (radius > 0) {
+      coords.forEach((c: { x: number; y: number } | null, i: number) => {
+        if (c) svg.circle(c.x, c.y, radius, { fill: colorAt(ds.pointBackgroundColor, i) || color });
+      });
+    }
+  });
+}
+
+/**
+ * Draws pie and doughnut charts. Each dataset is drawn as its own ring, outermost first.
+ */
+function drawPie(svg: SvgBuilder, config: ChartJsConfig, box: Box): void {
+  const datasets = config.data.datasets;
+  const { cx, cy, radius } = radialFrame(box);
+  const cutout = parseCutout(config.options?.cutout, config.type.toLowerCase() === 'doughnut' ? 0.5 : 0, radius);
+  const ringWidth = (radius - cutout) / Math.max(datasets.length, 1);
+
+  datasets.forEach((ds, dsIndex) => {
+    const values: number[] = (ds.data || []).map((v: any) => (typeof v === 'number' && v > 0 ? v : 0));
+    const total = values.reduce((sum, v) => sum + v, 0);
+    if (total === 0) return;
+    const outer = radius - ringWidth * dsIndex;
+    const inner = outer - ringWidth;
+    let angle = -Math.PI / 2;
+    values.forEach((v, i) => {
+      const sweep = (v / total) * Math.PI * 2;
+      if (sweep > 0) {
+        svg.path(arcPath(cx, cy, outer, inner, angle, angle + sweep), {
+          fill: colorAt(ds.backgroundColor, i) || paletteColor(i),
+          stroke: colorAt(ds.borderColor, i) || '#ffffff',
+          'stroke-width': ds.borderWidth ?? 2,
+        });
+      }
+      angle += sweep;
+    });
+  });
+}
+
+/**
+ * Draws polar area charts: equal-angle slices whose radius follows a linear radial scale.
+ */
+function drawPolarArea(svg: SvgBuilder, config: ChartJsConfig, box: Box, family: string): void {
+  const ds = config.data.datasets[0];
+  if (!ds) return;
+  const scale = config.options?.scales?.r;
+  const { cx, cy, radius } = radialFrame(box);
+  const values: number[] = (ds.data || []).map((v: any) => (typeof v === 'number' && v > 0 ? v : 0));
+  const axis = linearAxis(values, scale, true);
+  drawRadialGrid(svg, cx, cy, radius, axis, scale, resolveFont(scale?.ticks?.font, family, 10, scale?.ticks?.color || textColor(config)), null);
+
+  const sweep = (Math.PI * 2) / Math.max(values.length, 1);
+  values.forEach((v, i) => {
+    const start = -Math.PI / 2 + sweep * i;
+    svg.path(arcPath(cx, cy, radius * axis.map(v), 0, start, start + sweep), {
+      fill: colorAt(ds.backgroundColor, i) || withAlpha(paletteColor(i), 0.5),
+      stroke: colorAt(ds.borderColor, i) || '#ffffff',
+      'stroke-width': ds.borderWidth ?? 1,
+    });
+  });
+}
+
+/**
+ * Draws radar charts: one spoke per label, one polygon per dataset.
+ */
+function drawRadar(svg: SvgBuilder, config: ChartJsConfig, box: Box, family: string): void {
+  const scale = config.options?.scales?.r;
+  const labels = (config.data.labels || []).map(label => String(label));
+  const color = textColor(config);
+  const labelFont = resolveFont(scale?.pointLabels?.font, family, 12, scale?.pointLabels?.color || color);
+  const frame = radialFrame(box);
+  const radius = frame.radius - labelFont.size * 1.5;
+  const { cx, cy } = frame;
+  const values = config.data.datasets.flatMap(ds => (ds.data || []).filter((v: any) => typeof v === 'number' && Number.isFinite(v)));
+  const axis = linearAxis(values, scale, true);
+  const n = Math.max(labels.length, 1);
+  const angleAt = (i: number) => -Math.PI / 2 + (Math.PI * 2 * i) / n;
+  const at = (i: number, r: number) => ({ x: cx + r * Math.cos(angleAt(i)), y: cy + r * Math.sin(angleAt(i)) });
+
+  drawRadialGrid(svg, cx, cy, radius, axis, scale, resolveFont(scale?.ticks?.font, family, 10, scale?.ticks?.color || color), n);
+  const spokeColor = scale?.angleLines?.display === false ? undefined : scale?.angleLines?.color || GRID_COLOR;
+  labels.forEach((label, i) => {
+    const spokeEnd = at(i, radius);
+    if (spokeColor) svg.line(cx, cy, spokeEnd.x, spokeEnd.y, { stroke: spokeColor, 'stroke-width': 1 });
+    const pos = at(i, radius + labelFont.size);
+    const cos = Math.cos(angleAt(i));
+    const anchor = Math.abs(cos) < 0.1 ? 'middle' : cos > 0 ? 'start' : 'end';
+    svg.text(pos.x, pos.y + labelFont.size / 3, label, labelFont, { 'text-anchor': anchor });
+  });
+
+  config.data.datasets.forEach((ds, dsIndex) => {
+    const color = firstColor(ds.borderColor) || paletteColor(dsIndex);
+    const coords = (ds.data || []).map((v: any, i: number) => at(i, radius * axis.map(typeof v === 'number' && Number.isFinite(v) ? v : axis.min)));
+    if (coords.length === 0) return;
+    const d = coords.map((c: { x: number; y: number }, i: number) => `${i === 0 ? 'M' : 'L'}${round(c.x)} ${round(c.y)}`).join(' ') + ' Z';
+    svg.path(d, {
+      fill: firstColor(ds.backgroundColor) || withAlpha(color, 0.2),
+      stroke: color,
+      'stroke-width': ds.borderWidth ?? 2,
+    });
+    const pointRadius = ds.pointRadius ?? 3;
+    if (pointRadius > 0) {
+      coords.forEach((c: { x: number; y: number }) => svg.circle(c.x, c.y, pointRadius, { fill: color }));
+    }
+  });
+}
+
+/**
+ * Concentric grid for radial scales: circles, or polygons with `sides` corners (radar).
+ * Tick labels are drawn even when the scale hides its grid.
+ */
+function drawRadialGrid(svg: SvgBuilder, cx: number, cy: number, radius: number, axis: Axis, scale: any, font: FontSpec, sides: number | null): void {
+  const stroke = gridColor(scale);
+  axis.tickFractions.forEach((fraction, i) => {
+    const r = radius * fraction;
+    if (r <= 0) return;
+    if (stroke && sides === null) {
+      svg.circle(cx, cy, r, { fill: 'none', stroke, 'stroke-width': 1 });
+    } else if (stroke && sides !== null) {
+      const corners = Array.from({ length: sides }, (_, k) => {
+        const a = -Math.PI / 2 + (Math.PI * 2 * k) / sides;
+        return `${k === 0 ? 'M' : 'L'}${round(cx + r * Math.cos(a))} ${round(cy + r * Math.sin(a))}`;
+      });
+      svg.path(`${corners.join(' ')} Z`, { fill: 'none', stroke, 'stroke-width': 1 });
+    }
+    svg.text(cx, cy - r + font.size / 3, axis.tickLabels[i], font, { 'text-anchor': 'middle' });
+  });
+}
+
+function radialFrame(box: Box) {
+  return {
+    cx: (box.left + box.right) / 2,
+    cy: (box.top + box.bottom) / 2,
+    radius: Math.max(Math.min(box.right - box.left, box.bottom - box.top) / 2 - 4, 0),
+  };
+}
+
+// Chart.js accepts the cutout as a pixel number or a percentage string of the outer radius
+function parseCutout(cutout: unknown, fallback: number, radius: number): number {
+  if (typeof cutout === 'number') return Math.min(Math.max(cutout, 0), radius);
+  if (typeof cutout === 'string' && cutout.endsWith('%')) {
+    const pct = parseFloat(cutout);
+    if (Number.isFinite(pct)) return (radius * Math.min(Math.max(pct, 0), 100)) / 100;
+  }
+  return radius * fallback;
+}
+
+/**
+ * SVG path for an annular sector between two angles (radians, clockwise from the x axis).
+ * A zero inner radius yields a pie slice; full circles are split in two arcs.
+ */
+function arcPath(cx: number, cy: number, outer: number, inner: number, start: number, end: number): string {
+  if (end - start >= Math.PI * 2 - 1e-9) {
+    const mid = start + Math.PI;
+    return `${arcPath(cx, cy, outer, inner, start, mid)} ${arcPath(cx, cy, outer, inner, mid, end)}`;
+  }
+  const point = (r: number, a: number) => `${round(cx + r * Math.cos(a))} ${round(cy + r * Math.sin(a))}`;
+  const large = end - start > Math.PI ? 1 : 0;
+  const outerArc = `M${point(outer, start)} A${round(outer)} ${round(outer)} 0 ${large} 1 ${point(outer, end)}`;
+  if (inner <= 0) return `${outerArc} L${round(cx)} ${round(cy)} Z`;
+  return `${outerArc} L${point(inner, end)} A${round(inner)} ${round(inner)} 0 ${large} 0 ${point(inner, start)} Z`;
+}
+
+function withMargin(values: number[], enabled: boolean): number[] {
+  if (!enabled || values.length === 0) return values;
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const margin = (max - min || Math.abs(max) || 1) * 0.1;
+  return [...values, min - margin, max + margin];
+}
+
+// Upper bound on the ticks of an axis; nice steps give at most a dozen
+const MAX_TICKS = 50;
+
+function niceTicks(values: number[], beginAtZero: boolean, minOverride?: number, maxOverride?: number) {
+  let min = values.length > 0 ? Math.min(...values) : 0;
+  let max = values.length > 0 ? Math.max(...values) : 1;
+  if (beginAtZero) {
+    min = Math.min(0, min);
+    max = Math.max(0, max);
+  }
+  const hasMin = Number.isFinite(minOverride);
+  const hasMax = Number.isFinite(maxOverride);
+  if (hasMin) min = minOverride!;
+  if (hasMax) max = maxOverride!;
+  if (min === max) {
+    max = min + 1;
+    if (!beginAtZero) min -= 1;
+  }
+  // Bounds too close for floating point to split into steps (e.g. 1 and 1.0000000000000002, or 1e17 twice)
+  // are widened around their middle
+  if (!(max - min > Math.max(Math.abs(min), Math.abs(max)) * 1e-9)) {
+    const middle = (min + max) / 2;
+    const spread = Math.max(Math.abs(middle), 1) * 1e-6;
+    min = middle - spread;
+    max = middle + spread;
+  }
+  const step = niceNumber((max - min) / 5);
+  if (!(step > 0) || !Number.isFinite(step) || min + step === min) {
+    return { min, max, values: [min, max] };
+  }
+  const niceMin = hasMin ? min : Math.floor(min / step) * step;
+  const niceMax = hasMax ? max : Math.ceil(max / step) * step;
+  const tickValues: number[] = [];
+  for (let v = niceMin; v <= niceMax + step / 2 && tickValues.length < MAX_TICKS; v += step) {
+    tickValues.push(Number(v.toPrecision(12)));
+  }
+  return { min: niceMin, max: niceMax, values: tickValues };
+}
+
+function niceNumber(range: number): number {
+  const exponent = Math.floor(Math.log10(range));
+  const fraction = range / Math.pow(10, exponent);
+  const nice = fraction <= 1 ? 1 : fraction <= 2 ? 2 : fraction <= 5 ? 5 : 10;
+  return nice * Math.pow(10, exponent);
+}
+
+function formatTick(value: number): string {
+  return value.toLocaleString('en-US', { maximumFractionDigits: 6 });
+}
+
+// Chart.js keeps text colours next to the font (`ticks.color`, `title.color`), defaulting to `options.color`
+function textColor(config: ChartJsConfig): string {
+  return config.options?.color || TEXT_COLOR;
+}
+
+// Gridline colour of a scale, or undefined when the scale hides its grid
+function gridColor(scale: any): string | undefined {
+  return scale?.grid?.display === false ? undefined : scale?.grid?.color || GRID_COLOR;
+}
+
+function resolveFont(font: any, family: string, size: number, color: string, weight?: string): FontSpec {
+  return {
+    family: font?.family || family,
+    size: font?.size || size,
+    weight: font?.weight || weight,
+    color,
+  };
+}
+
+function paletteColor(index: number): string {
+  return DEFAULT_PALETTE[index % DEFAULT_PALETTE.length];
+}
+
+function firstColor(color: unknown): string | undefined {
+  if (Array.isArray(color)) return typeof color[0] === 'string' ? color[0] : undefined;
+  return typeof color === 'string' ? color : undefined;
+}
+
+function colorAt(color: unknown, index: number): string | undefined {
+  if (Array.isArray(color)) {
+    const value = color[index % color.length];
+    return typeof value === 'string' ? value : undefined;
+  }
+  return typeof color === 'string' ? color : undefined;
+}
+
+// Rough average glyph width for sans-serif fonts; good enough for layout decisions.
+function measureText(text: string, size: number): number {
+  return text.length * size * 0.6;
+}
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function serializeAttrs(attrs: Record<string, any>): string {
+  return Object.entries(attrs)
+    .filter(([, v]) => v !== undefined && v !== null)
+    .map(([k, v]) => ` ${k}="${escapeXml(typeof v === 'number' ? String(round(v)) : String(v))}"`)
+    .join('');
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,33 @@
+import fs from 'fs';
+import path from 'path';
+import { ChartRenderer } from './ChartRenderer';
+import { SvgChartRenderer } from './SvgChartRenderer';
+import { QuickChartRenderer } from './QuickChartRenderer';
+
+export * from './ChartRenderer';
+export { SvgChartRenderer, renderChartToSvg } from './SvgChartRenderer';
+export { QuickChartRenderer } from './QuickChartRenderer';
+
+/** The .ttf and .otf files in a directory, for fonts that themes name but the system may not have. */
+export function findFontFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir)
+    .filter(name => /\.(ttf|otf)$/i.test(name))
+    .sort()
+    .map(name => path.join(dir, name));
+}
+
+/**
+ * Create the renderer named by `CHART_RENDERER` ('local' or 'quickchart').
+ * Defaults to the offline local renderer, which also loads the fonts in `CHART_FONTS_DIR` (default src/assets/fonts).
+ */
+export function createChartRenderer(name: string = process.env.CHART_RENDERER || 'local'): ChartRenderer {
+  switch (name) {
+    case 'local':
+      return new SvgChartRenderer(findFontFiles(process.env.CHART_FONTS_DIR || path.join('src', 'assets', 'fonts')));
+    case 'quickchart':
+      return new QuickChartRenderer();
+    default:
+      throw new Error(`Unknown chart renderer: ${name}. Expected 'local' or 'quickchart'.`);
+  }
+}
@@ -0,0 +1,166 @@
+// src/agent/themes.ts
+// Named looks for generated charts: series palette, fonts, text and gridline colours, background and title style.
+// `light` (the default), `dark` and `high-contrast` are built in; brand themes are loaded from JSON files.
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+
+const ColorSchema = z.string().regex(
+  /^(#[0-9a-f]{3}|#[0-9a-f]{6}|rgba?\(\s*\d+\s*,\s*\d+\s*,\s*\d+\s*(,\s*[\d.]+\s*)?\))$/i,
+  'expected a #rgb, #rrggbb, rgb() or rgba() colour'
+);
+
+export const ChartThemeSchema = z.object({
+  name: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'use lower-case letters, digits and dashes'),
+  description: z.string().optional(),
+  /** Series colours, used in order and repeated for more series */
+  palette: z.array(ColorSchema).min(1),
+  background: z.union([ColorSchema, z.literal('transparent')]),
+  fontFamily: z.string().min(1),
+  textColor: ColorSchema,
+  title: z.object({
+    size: z.number().positive(),
+    weight: z.union([z.string(), z.number()]),
+    color: ColorSchema,
+  }).strict(),
+  grid: z.object({
+    display: z.boolean(),
+    color: ColorSchema,
+    /** Colour of the x and y axis lines */
+    axisColor: ColorSchema,
+  }).strict(),
+  /** Opacity of bar, area and radar fills (lines and borders are opaque) */
+  fillOpacity: z.number().min(0).max(1),
+}).strict();
+
+export type ChartTheme = z.infer<typeof ChartThemeSchema>;
+
+/**
+ * A theme file: a name plus the settings that differ from the theme it `extends` (default `light`).
+ * `title` and `grid` are merged key by key.
+ */
+export const ThemeFileSchema = ChartThemeSchema.deepPartial().extend({
+  name: ChartThemeSchema.shape.name,
+  extends: z.string().optional(),
+}).strict();
+
+const LIGHT: ChartTheme = {
+  name: 'light',
+  description: 'Dark text on white (default)',
+  palette: [
+    'rgba(75, 192, 192, 1)',
+    'rgba(54, 162, 235, 1)',
+    'rgba(255, 99, 132, 1)',
+    'rgba(255, 159, 64, 1)',
+    'rgba(153, 102, 255, 1)',
+    'rgba(255, 205, 86, 1)',
+    'rgba(201, 203, 207, 1)',
+  ],
+  background: '#ffffff',
+  fontFamily: 'sans-serif',
+  textColor: '#666666',
+  title: { size: 18, weight: 'bold', color: '#666666' },
+  grid: { display: true, color: 'rgba(0, 0, 0, 0.1)', axisColor: '#666666' },
+  fillOpacity: 0.2,
+};
+
+const DARK: ChartTheme = {
+  name: 'dark',
+  description: 'Light text and bright series on a dark background',
+  palette: ['#4dc9f6', '#f67019', '#f53794', '#acc236', '#a77bf3', '#ffd166', '#00c2a8'],
+  background: '#1e1e1e',
+  fontFamily: 'sans-serif',
+  textColor: '#d4d4d4',
+  title: { size: 18, weight: 'bold', color: '#ffffff' },
+  grid: { display: true, color: 'rgba(255, 255, 255, 0.12)', axisColor: '#a0a0a0' },
+  fillOpacity: 0.35,
+};
+
+/**
+ * Okabe-Ito colours, which stay distinguishable with the common forms of colour blindness.
+ * Used by the high-contrast theme and for any theme when a request asks for colour-blind safe colours.
+ */
+export const COLORBLIND_SAFE_PALETTE = ['#0072b2', '#e69f00', '#009e73', '#d55e00', '#cc79a7', '#56b4e9', '#f0e442'];
+
+const HIGH_CONTRAST: ChartTheme = {
+  name: 'high-contrast',
+  description: 'Black text, strong gridlines and a colour-blind safe palette',
+  palette: [...COLORBLIND_SAFE_PALETTE, '#000000'],
+  background: '#ffffff',
+  fontFamily: 'sans-serif',
+  textColor: '#000000',
+  title: { size: 20, weight: 'bold', color: '#000000' },
+  grid: { display: true, color: 'rgba(0, 0, 0, 0.35)', axisColor: '#000000' },
+  fillOpacity: 0.6,
+};
+
+export const DEFAULT_THEME = LIGHT.name;
+
+const themes = new Map<string, ChartTheme>([LIGHT, DARK, HIGH_CONTRAST].map(theme => [theme.name, theme]));
+
+/** The named theme, or the default theme when no name is given; undefined for unknown names. */
+export function getTheme(name: string = DEFAULT_THEME): ChartTheme | undefined {
+  return themes.get(name);
+}
+
+/** All available themes, built-in ones first, as advertised on the agent card. */
+export function listThemes(): ChartTheme[] {
+  return Array.from(themes.values());
+}
+
+/** Add or replace a theme. Built-in themes can be replaced too, e.g. to restyle the default. */
+export function registerTheme(theme: ChartTheme): ChartTheme {
+  const parsed = ChartThemeSchema.parse(theme);
+  themes.set(parsed.name, parsed);
+  return parsed;
+}
+
+/**
+ * Resolve a theme file against the theme it extends and register the result.
+ * Throws an error naming the problem when the file is invalid or extends an unknown theme.
+ */
+export function registerThemeFile(file: unknown): ChartTheme {
+  const parsed = ThemeFileSchema.safeParse(file);
+  if (!parsed.success) {
+    throw new Error(parsed.error.issues.map(issue => `${issue.path.join('.') || 'theme'}: ${issue.message}`).join('; '));
+  }
+  const { extends: baseName = DEFAULT_THEME, ...overrides } = parsed.data;
+  const base = themes.get(baseName);
+  if (!base) throw new Error(`extends unknown theme '${baseName}'`);
+  return registerTheme({
+    ...base,
+    description: undefined,
+    ...overrides,
+    title: { ...base.title, ...overrides.title },
+    grid: { ...base.grid, ...overrides.grid },
+  } as ChartTheme);
+}
+
+/**
+ * Register every `*.json` theme file in a directory, in file name order so a theme can extend one
+ * loaded before it. Invalid files are skipped with a warning. Returns the names of the loaded themes.
+ */
+export function loadThemes(dir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+  const loaded: string[] = [];
+  for (const file of fs.readdirSync(dir).filter(name => name.endsWith('.json')).sort()) {
+    try {
+      loaded.push(registerThemeFile(JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8'))).name);
+    } catch (error) {
+      console.warn(`⚠️ Skipping chart theme ${file}: ${(error as Error).message}`);
+    }
+  }
+  return loaded;
+}
+
+/** The colour with the given opacity, as rgba(). Colours in other notations are returned unchanged. */
+export function withAlpha(color: string, alpha: number): string {
+  const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i)?.[1];
+  if (hex) {
+    const full = hex.length === 3 ? hex.replace(/./g, c => c + c) : hex;
+    const [r, g, b] = [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16));
+    return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+  }
+  const rgb = color.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/i);
+  return rgb ? `rgba(${rgb[1]}, ${rgb[2]}, ${rgb[3]}, ${alpha})` : color;
+}
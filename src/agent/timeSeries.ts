@@ -0,0 +1,425 @@
+// src/agent/timeSeries.ts
+// Bar and line charts over time: x values that are dates are parsed into timestamps, optionally resampled into
+// hour/day/week/month buckets, and charted on a Chart.js time scale instead of as category labels.
+import type { AggregateOp, TimeOptions } from './chartInputSchema';
+import { ChartDataIssue, ChartEncoding, ChartTypeSpec, chartFields } from './chartTypes';
+import { aggregate } from './transform';
+
+/** Units rows can be resampled into. */
+export const RESAMPLE_UNITS = ['hour', 'day', 'week', 'month'] as const;
+
+export type ResampleUnit = (typeof RESAMPLE_UNITS)[number];
+
+/** Calendar units for buckets and axis ticks. Weeks start on Monday. */
+export type TimeUnit = 'minute' | ResampleUnit | 'year';
+
+type Row = Record<string, any>;
+
+// Resampling more finely than this is almost certainly a mistake (e.g. hourly buckets over ten years)
+const MAX_BUCKETS = 5000;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const isPresent = (value: unknown) => value !== undefined && value !== null && value !== '';
+
+export function isTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+interface LocalTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Monday
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Wall-clock time in `timezone` of a timestamp. */
+export function localTime(ms: number, timezone: string): LocalTime {
+  if (timezone === 'UTC') {
+    const date = new Date(ms);
+    return {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      hour: date.getUTCHours(),
+      minute: date.getUTCMinutes(),
+      second: date.getUTCSeconds(),
+      weekday: (date.getUTCDay() + 6) % 7,
+    };
+  }
+  if (!formatters.has(timezone)) {
+    formatters.set(timezone, new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+    }));
+  }
+  const parts = Object.fromEntries(formatters.get(timezone)!.formatToParts(new Date(ms)).map(part => [part.type, part.value]));
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'].indexOf(parts.weekday),
+  };
+}
+
+/**
+ * Timestamp of a wall-clock time in `timezone`. Out-of-range fields roll over (day 0 is the last day of
+ * the previous month). Times skipped by a daylight-saving change resolve to the hour after.
+ */
+export function fromLocalTime(year: number, month: number, day: number, hour = 0, minute = 0, second = 0, timezone = 'UTC'): number {
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  if (timezone === 'UTC') return asUtc;
+  const offsetAt = (ms: number) => {
+    const local = localTime(ms, timezone);
+    return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second) - Math.floor(ms / 1000) * 1000;
+  };
+  const guess = asUtc - offsetAt(asUtc);
+  return asUtc - offsetAt(guess);
+}
+
+interface ParseOptions {
+  timezone: string;
+  /** Read `01/02/2024` as 1 February instead of January 2 */
+  dayFirst: boolean;
+}
+
+const TIME = String.raw`(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d+))?)?\s*(am|pm)?)?`;
+const ZONE = String.raw`\s*(Z|UTC|GMT|[+-]\d{2}:?\d{2})?`;
+const ISO = new RegExp(String.raw`^(\d{4})-(\d{2})(?:-(\d{2})${TIME}${ZONE})?$`, 'i');
+const YEAR_FIRST = new RegExp(String.raw`^(\d{4})/(\d{1,2})/(\d{1,2})${TIME}$`, 'i');
+const NUMERIC = new RegExp(String.raw`^(\d{1,2})([/.-])(\d{1,2})\2(\d{4})${TIME}$`, 'i');
+const MONTH_NAME_FIRST = new RegExp(String.raw`^([a-z]{3,9})\.?\s+(?:(\d{1,2})(?:st|nd|rd|th)?,?\s+)?(\d{4})${TIME}$`, 'i');
+const DAY_FIRST = new RegExp(String.raw`^(\d{1,2})(?:st|nd|rd|th)?\s+([a-z]{3,9})\.?,?\s+(\d{4})${TIME}$`, 'i');
+
+function monthNumber(name: string): number | undefined {
+  const index = MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+  const full = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'][index];
+  return index >= 0 && (name.length <= 4 || full === name.toLowerCase()) ? index + 1 : undefined;
+}
+
+function zoneOffsetMinutes(zone: string): number {
+  if (/^(Z|UTC|GMT)$/i.test(zone)) return 0;
+  const [, sign, hours, minutes] = zone.match(/^([+-])(\d{2}):?(\d{2})$/)!;
+  return (sign === '-' ? -1 : 1) * (Number(hours) * 60 + Number(minutes));
+}
+
+// Builds the timestamp from matched fields, rejecting impossible dates (31 April, 25:00)
+function toTimestamp(
+  fields: { year: number; month: number; day: number },
+  time: (string | undefined)[],
+  zone: string | undefined,
+  timezone: string
+): number | undefined {
+  const [h, min, s, fraction, meridiem] = time;
+  let hour = h ? Number(h) : 0;
+  const minute = min ? Number(min) : 0;
+  const second = s ? Number(s) : 0;
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return undefined;
+    hour = (hour % 12) + (meridiem.toLowerCase() === 'pm' ? 12 : 0);
+  }
+  const { year, month, day } = fields;
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth || hour > 23 || minute > 59 || second > 59) return undefined;
+  const millis = fraction ? Math.round(Number(`0.${fraction}`) * 1000) : 0;
+  if (zone) return Date.UTC(year, month - 1, day, hour, minute, second, millis) - zoneOffsetMinutes(zone) * 60000;
+  return fromLocalTime(year, month, day, hour, minute, second, timezone) + millis;
+}
+
+/**
+ * Parse a date or date-time into a timestamp (ms since the epoch). Accepts:
+ * - ISO 8601: `2024-03-01`, `2024-03`, `2024-03-01T14:30`, `2024-03-01 14:30:00Z`, `2024-03-01T14:30+01:00`
+ * - epoch milliseconds, as a number or a string of digits
+ * - `2024/03/01`, `03/01/2024` (`01/03/2024` with `dayFirst`), `01.03.2024` (always day first)
+ * - month names: `Mar 2024`, `March 1, 2024`, `1 March 2024`
+ * Each may carry a time (`14:30`, `2:30 pm`). Times without a zone are wall-clock times in `timezone`.
+ * Returns undefined for anything else, including plain years and numbers that are not plausible epoch times.
+ */
+export function parseTime(value: unknown, options: Partial<ParseOptions> = {}): number | undefined {
+  const timezone = options.timezone ?? 'UTC';
+  // Epoch milliseconds between 1973 and 5138: smaller numbers are more likely years, counts or seconds
+  if (typeof value === 'number') return Number.isInteger(value) && Math.abs(value) >= 1e11 && Math.abs(value) < 1e14 ? value : undefined;
+  if (typeof value !== 'string') return undefined;
+  const text = value.trim();
+  if (/^\d{12,13}$/.test(text)) return Number(text);
+
+  let match = text.match(ISO);
+  if (match) {
+    const [, year, month, day, ...rest] = match;
+    return toTimestamp({ year: Number(year), month: Number(month), day: day ? Number(day) : 1 }, rest.slice(0, 5), rest[5], timezone);
+  }
+  if ((match = text.match(YEAR_FIRST))) {
+    const [, year, month, day, ...time] = match;
+    return toTimestamp({ year: Number(year), month: Number(month), day: Number(day) }, time, undefined, timezone);
+  }
+  if ((match = text.match(NUMERIC))) {
+    const [, first, separator, second, year, ...time] = match;
+    const dayFirst = separator === '.' || (options.dayFirst ?? false);
+    const [day, month] = dayFirst ? [first, second] : [second, first];
+    return toTimestamp({ year: Number(year), month: Number(month), day: Number(day) }, time, undefined, timezone);
+  }
+  if ((match = text.match(MONTH_NAME_FIRST))) {
+    const [, name, day, year, ...time] = match;
+    const month = monthNumber(name);
+    return month ? toTimestamp({ year: Number(year), month, day: day ? Number(day) : 1 }, time, undefined, timezone) : undefined;
+  }
+  if ((match = text.match(DAY_FIRST))) {
+    const [, day, name, year, ...time] = match;
+    const month = monthNumber(name);
+    return month ? toTimestamp({ year: Number(year), month, day: Number(day) }, time, undefined, timezone) : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Parser for one column of values. Slash-separated dates are month first unless `dayFirst` is set or
+ * some value can only be read day first (`25/03/2024`).
+ */
+function columnParser(values: unknown[], time: TimeOptions = {}): (value: unknown) => number | undefined {
+  const timezone = time.timezone ?? 'UTC';
+  const dayFirst = time.dayFirst ?? values.some(value => {
+    const match = typeof value === 'string' ? value.trim().match(NUMERIC) : null;
+    return !!match && Number(match[1]) > 12 && Number(match[3]) <= 12;
+  });
+  return value => parseTime(value, { timezone, dayFirst });
+}
+
+/** Start of the bucket containing `ms`, in `timezone`. */
+export function bucketStart(ms: number, unit: TimeUnit, timezone = 'UTC'): number {
+  const t = localTime(ms, timezone);
+  switch (unit) {
+    case 'minute':
+      return fromLocalTime(t.year, t.month, t.day, t.hour, t.minute, 0, timezone);
+    case 'hour':
+      return fromLocalTime(t.year, t.month, t.day, t.hour, 0, 0, timezone);
+    case 'day':
+      return fromLocalTime(t.year, t.month, t.day, 0, 0, 0, timezone);
+    case 'week':
+      return fromLocalTime(t.year, t.month, t.day - t.weekday, 0, 0, 0, timezone);
+    case 'month':
+      return fromLocalTime(t.year, t.month, 1, 0, 0, 0, timezone);
+    case 'year':
+      return fromLocalTime(t.year, 1, 1, 0, 0, 0, timezone);
+  }
+}
+
+/** The bucket `count` units after the one starting at `start`. Days, weeks and months follow the calendar in `timezone`. */
+export function addUnits(start: number, unit: TimeUnit, count: number, timezone = 'UTC'): number {
+  if (unit === 'minute') return start + count * 60_000;
+  if (unit === 'hour') return start + count * 3_600_000;
+  const t = localTime(start, timezone);
+  switch (unit) {
+    case 'day':
+      return fromLocalTime(t.year, t.month, t.day + count, 0, 0, 0, timezone);
+    case 'week':
+      return fromLocalTime(t.year, t.month, t.day + 7 * count, 0, 0, 0, timezone);
+    case 'month':
+      return fromLocalTime(t.year, t.month + count, 1, 0, 0, 0, timezone);
+    default:
+      return fromLocalTime(t.year + count, 1, 1, 0, 0, 0, timezone);
+  }
+}
+
+/** Bucket starts from the bucket of `from` to the bucket of `to`, inclusive. */
+export function bucketRange(from: number, to: number, unit: TimeUnit, timezone = 'UTC', limit = MAX_BUCKETS): number[] {
+  const buckets: number[] = [];
+  for (let bucket = bucketStart(from, unit, timezone); bucket <= to; bucket = addUnits(bucket, unit, 1, timezone)) {
+    if (buckets.length === limit) throw new Error(`more than ${limit} ${unit} buckets between the first and last date`);
+    buckets.push(bucket);
+  }
+  return buckets;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** Short label for a timestamp at the precision of `unit`, e.g. `Mar 2024`, `Mar 1`, `Mar 1 14:00`. */
+export function formatTime(ms: number, unit: TimeUnit, timezone = 'UTC'): string {
+  const t = localTime(ms, timezone);
+  const month = MONTH_LABELS[t.month - 1];
+  switch (unit) {
+    case 'year':
+      return String(t.year);
+    case 'month':
+      return `${month} ${t.year}`;
+    case 'week':
+    case 'day':
+      return `${month} ${t.day}`;
+    default:
+      return t.hour === 0 && t.minute === 0 ? `${month} ${t.day}` : `${pad(t.hour)}:${pad(t.minute)}`;
+  }
+}
+
+/** Rows of a bar or line chart prepared for a time axis. */
+export interface TimeSeries {
+  /** Rows sorted by time, with the x field holding timestamps (bucket starts when resampled) */
+  rows: Row[];
+  field: string;
+  timezone: string;
+  unit?: ResampleUnit;
+  /** Every bucket from the first to the last, when resampled; empty buckets are gaps in the data */
+  buckets?: number[];
+}
+
+// Only vertical bar and line charts get a time axis; the other category charts have no x axis to put it on
+const supportsTimeAxis = (spec: ChartTypeSpec) => spec.shape === 'category' && spec.axes === 'cartesian' && spec.indexAxis !== 'y';
+
+/**
+ * Problems with the time options of a chart: a time axis forced onto a chart type or field that cannot
+ * have one, or a resampling producing too many buckets. Paths are relative to the chart input.
+ */
+export function validateTimeSeries(spec: ChartTypeSpec, data: Row[], encoding: ChartEncoding | undefined, time?: TimeOptions): ChartDataIssue[] {
+  // An unknown time zone is reported by the schema itself
+  if (!time || time.axis === 'category' || (time.timezone && !isTimeZone(time.timezone))) return [];
+  const forced = time.axis === 'time';
+  if (!supportsTimeAxis(spec)) {
+    return forced || time.resample ? [{ path: ['options', 'time'], message: 'a time axis needs a bar or line chart' }] : [];
+  }
+  const { x } = chartFields(spec, data, encoding);
+  if (!x) return forced ? [{ path: ['options', 'time', 'axis'], message: 'no x field to put on a time axis' }] : [];
+  const parse = columnParser(data.map(row => row[x]), time);
+  const times = data.map(row => parse(row[x]));
+  const invalid = data.flatMap((row, i) => (isPresent(row[x]) && times[i] === undefined ? [i] : []));
+  if (invalid.length > 0) {
+    return forced ? invalid.map(i => ({ path: ['data', i], message: `${x} is not a date (${JSON.stringify(data[i][x])})` })) : [];
+  }
+  const present = times.filter((t): t is number => t !== undefined);
+  if (time.resample && present.length > 0) {
+    try {
+      bucketRange(Math.min(...present), Math.max(...present), time.resample, time.timezone);
+    } catch (error) {
+      return [{ path: ['options', 'time', 'resample'], message: (error as Error).message }];
+    }
+  }
+  return [];
+}
+
+/**
+ * Decide whether a chart gets a time axis and prepare its rows: x values are parsed, rows are resampled
+ * into buckets (aggregating each y field per bucket and series, `sum` by default) and sorted by time.
+ * Returns undefined when the x values are not all dates (unless `axis: 'time'` insists) or the chart
+ * type has no time axis.
+ */
+export function prepareTimeSeries(spec: ChartTypeSpec, data: Row[], encoding: ChartEncoding | undefined, time: TimeOptions = {}): TimeSeries | undefined {
+  if (time.axis === 'category' || !supportsTimeAxis(spec)) return undefined;
+  const { x, y, series } = chartFields(spec, data, encoding);
+  if (!x) return undefined;
+  const parse = columnParser(data.map(row => row[x]), time);
+  const times = data.map(row => parse(row[x]));
+  if (times.every(t => t === undefined) || data.some((row, i) => isPresent(row[x]) && times[i] === undefined)) return undefined;
+
+  const timezone = time.timezone ?? 'UTC';
+  let rows = data.flatMap((row, i) => (times[i] === undefined ? [] : [{ ...row, [x]: times[i] }]));
+  let buckets: number[] | undefined;
+  if (time.resample) {
+    const unit = time.resample;
+    const op: AggregateOp = time.aggregate ?? 'sum';
+    const groups = new Map<string, Row[]>();
+    for (const row of rows) {
+      const key = JSON.stringify([bucketStart(row[x], unit, timezone), series ? row[series] ?? null : null]);
+      const group = groups.get(key);
+      if (group) group.push(row);
+      else groups.set(key, [row]);
+    }
+    rows = Array.from(groups, ([key, members]) => {
+      const [bucket, seriesValue] = JSON.parse(key);
+      return {
+        [x]: bucket,
+        ...(series && { [series]: seriesValue }),
+        ...Object.fromEntries(y.map(field => [field, aggregate(op, members.map(row => row[field]))])),
+      };
+    });
+    const starts = rows.map(row => row[x] as number);
+    buckets = bucketRange(Math.min(...starts), Math.max(...starts), unit, timezone);
+  }
+  rows.sort((a, b) => a[x] - b[x]);
+  return { rows, field: x, timezone, unit: time.resample, buckets };
+}
+
+function fillGaps(values: (number | null)[], times: number[], mode: TimeOptions['fillGaps']): (number | null)[] {
+  if (!mode || mode === 'none') return values;
+  if (mode === 'zero') return values.map(value => value ?? 0);
+  const filled = [...values];
+  let last = -1;
+  values.forEach((value, i) => {
+    if (value === null) return;
+    if (last >= 0 && i - last > 1) {
+      for (let j = last + 1; j < i; j++) {
+        const share = (times[j] - times[last]) / (times[i] - times[last]);
+        filled[j] = mode === 'previous' ? values[last] : values[last]! + share * (value - values[last]!);
+      }
+    }
+    last = i;
+  });
+  // Carrying the last value forward also covers the trailing gap; interpolation has nothing to go towards
+  if (mode === 'previous' && last >= 0) filled.fill(values[last], last + 1);
+  return filled;
+}
+
+/** Trailing mean over the last `window` points, skipping gaps; null until the window holds a value. */
+export function rollingAverage(values: (number | null)[], window: number): (number | null)[] {
+  return values.map((_, i) => {
+    const inWindow = values.slice(Math.max(0, i - window + 1), i + 1).filter((value): value is number => value !== null);
+    return inWindow.length > 0 ? inWindow.reduce((a, b) => a + b, 0) / inWindow.length : null;
+  });
+}
+
+/**
+ * Turn category chart data built from time series rows into time-scale data: labels become timestamps
+ * (every bucket when resampled), gaps are filled as requested and a rolling average series is added per
+ * dataset when `rollingAverage` is set.
+ */
+export function toTimeSeriesData(data: { labels?: unknown[]; datasets: Record<string, any>[] }, series: TimeSeries, time: TimeOptions = {}) {
+  const labels = (data.labels || []).map(Number);
+  const times = series.buckets ?? labels;
+  const position = new Map(labels.map((label, i) => [label, i]));
+  const datasets: Record<string, any>[] = data.datasets.map(dataset => {
+    const values = times.map(t => (position.has(t) ? dataset.data[position.get(t)!] ?? null : null));
+    return { ...dataset, data: fillGaps(values, times, time.fillGaps) };
+  });
+  const averages = time.rollingAverage
+    ? datasets.map(dataset => ({
+        label: `${dataset.label} (${time.rollingAverage}-point average)`,
+        type: 'line',
+        data: rollingAverage(dataset.data, time.rollingAverage!),
+        borderColor: dataset.borderColor,
+        backgroundColor: undefined,
+        borderWidth: 2,
+        borderDash: [6, 4],
+        pointRadius: 0,
+        fill: false,
+        tension: 0.1,
+      }))
+    : [];
+  return { labels: times, datasets: [...datasets, ...averages] };
+}
+
+/** Chart.js scale options for the x axis of a time series. */
+export function timeScale(series: TimeSeries) {
+  return {
+    type: 'time',
+    time: { ...(series.unit && { unit: series.unit }), ...(series.unit === 'week' && { isoWeekday: true }) },
+    adapters: { date: { zone: series.timezone } },
+  };
+}
@@ -0,0 +1,266 @@
+// src/agent/transform/expression.ts
+// A small expression language for filter and derive steps, evaluated against one row at a time:
+//   region == 'North' && sales > 100
+//   round(profit / revenue * 100, 1)
+//   `order total` >= 10 or status in ['open', 'late']
+// Bare names (or `back-quoted` names) read row fields. Expressions are parsed, never run as JavaScript.
+
+type Value = number | string | boolean | null;
+
+type Node =
+  | { kind: 'literal'; value: Value }
+  | { kind: 'field'; name: string }
+  | { kind: 'list'; items: Node[] }
+  | { kind: 'unary'; op: '-' | '!'; arg: Node }
+  | { kind: 'binary'; op: string; left: Node; right: Node }
+  | { kind: 'call'; name: string; args: Node[] };
+
+interface Token {
+  type: 'number' | 'string' | 'name' | 'field' | 'op' | 'end';
+  text: string;
+  position: number;
+}
+
+export interface CompiledExpression {
+  source: string;
+  /** Fields the expression reads */
+  fields: string[];
+  evaluate(row: Record<string, any>): Value;
+}
+
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '<', '>', '!', '+', '-', '*', '/', '%', '(', ')', '[', ']', ','];
+
+// Word operators and literals; any other bare name is a field
+const KEYWORDS: Record<string, string> = { and: '&&', or: '||', not: '!', in: 'in' };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    const start = i;
+    const number = source.slice(i).match(/^(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/);
+    if (number) {
+      tokens.push({ type: 'number', text: number[0], position: start });
+      i += number[0].length;
+    } else if (char === "'" || char === '"' || char === '`') {
+      let text = '';
+      i++;
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === '\\' && i + 1 < source.length) i++;
+        text += source[i++];
+      }
+      if (i >= source.length) throw new Error(`unterminated ${char === '`' ? 'field name' : 'string'} at position ${start}`);
+      i++;
+      tokens.push({ type: char === '`' ? 'field' : 'string', text, position: start });
+    } else if (/[A-Za-z_]/.test(char)) {
+      const name = source.slice(i).match(/^[A-Za-z_]\w*/)![0];
+      i += name.length;
+      const keyword = KEYWORDS[name.toLowerCase()];
+      tokens.push(keyword ? { type: 'op', text: keyword, position: start } : { type: 'name', text: name, position: start });
+    } else {
+      const op = OPERATORS.find(candidate => source.startsWith(candidate, i));
+      if (!op) throw new Error(`unexpected '${char}' at position ${start}`);
+      tokens.push({ type: 'op', text: op, position: start });
+      i += op.length;
+    }
+  }
+  tokens.push({ type: 'end', text: '', position: source.length });
+  return tokens;
+}
+
+// Binary operators by precedence, loosest first
+const PRECEDENCE: string[][] = [['||'], ['&&'], ['==', '!=', '<', '<=', '>', '>=', 'in'], ['+', '-'], ['*', '/', '%']];
+
+function parse(tokens: Token[]): Node {
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const isOp = (text: string) => peek().type === 'op' && peek().text === text;
+  const expect = (text: string) => {
+    if (!isOp(text)) throw unexpected();
+    pos++;
+  };
+  const unexpected = () => {
+    const token = peek();
+    return new Error(token.type === 'end' ? 'unexpected end of expression' : `unexpected '${token.text}' at position ${token.position}`);
+  };
+
+  const binary = (level: number): Node => {
+    if (level === PRECEDENCE.length) return unary();
+    let left = binary(level + 1);
+    while (peek().type === 'op' && PRECEDENCE[level].includes(peek().text)) {
+      const op = tokens[pos++].text;
+      left = { kind: 'binary', op, left, right: binary(level + 1) };
+    }
+    return left;
+  };
+
+  const unary = (): Node => {
+    if (isOp('-') || isOp('!')) {
+      const op = tokens[pos++].text as '-' | '!';
+      return { kind: 'unary', op, arg: unary() };
+    }
+    return primary();
+  };
+
+  const list = (close: string): Node[] => {
+    const items: Node[] = [];
+    if (!isOp(close)) {
+      items.push(binary(0));
+      while (isOp(',')) {
+        pos++;
+        items.push(binary(0));
+      }
+    }
+    expect(close);
+    return items;
+  };
+
+  const primary = (): Node => {
+    const token = peek();
+    if (token.type === 'number') {
+      pos++;
+      return { kind: 'literal', value: Number(token.text) };
+    }
+    if (token.type === 'string') {
+      pos++;
+      return { kind: 'literal', value: token.text };
+    }
+    if (token.type === 'field') {
+      pos++;
+      return { kind: 'field', name: token.text };
+    }
+    if (token.type === 'name') {
+      pos++;
+      const lower = token.text.toLowerCase();
+      if (lower === 'true' || lower === 'false') return { kind: 'literal', value: lower === 'true' };
+      if (lower === 'null') return { kind: 'literal', value: null };
+      if (isOp('(')) {
+        pos++;
+        if (!FUNCTIONS[lower]) throw new Error(`unknown function '${token.text}' at position ${token.position}`);
+        return { kind: 'call', name: lower, args: list(')') };
+      }
+      return { kind: 'field', name: token.text };
+    }
+    if (isOp('(')) {
+      pos++;
+      const inner = binary(0);
+      expect(')');
+      return inner;
+    }
+    if (isOp('[')) {
+      pos++;
+      return { kind: 'list', items: list(']') };
+    }
+    throw unexpected();
+  };
+
+  const root = binary(0);
+  if (peek().type !== 'end') throw unexpected();
+  return root;
+}
+
+const toNumber = (value: unknown): number | null => {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : null;
+};
+
+const numeric = (fn: (...values: number[]) => number) => (...args: Value[]): Value => {
+  const values = args.map(toNumber);
+  if (values.some(value => value === null)) return null;
+  const result = fn(...(values as number[]));
+  return Number.isFinite(result) ? result : null;
+};
+
+const FUNCTIONS: Record<string, (...args: Value[]) => Value> = {
+  abs: numeric(Math.abs),
+  floor: numeric(Math.floor),
+  ceil: numeric(Math.ceil),
+  round: numeric((value, digits = 0) => Math.round(value * 10 ** digits) / 10 ** digits),
+  min: numeric(Math.min),
+  max: numeric(Math.max),
+  lower: value => (value === null ? null : String(value).toLowerCase()),
+  upper: value => (value === null ? null : String(value).toUpperCase()),
+  length: value => (value === null ? null : String(value).length),
+  coalesce: (...args) => args.find(value => value !== null) ?? null,
+};
+
+const equals = (a: Value, b: Value) => a === b;
+
+function compare(op: string, a: Value, b: Value): boolean {
+  if (op === '==') return equals(a, b);
+  if (op === '!=') return !equals(a, b);
+  // Ordering needs two numbers or two strings (ISO dates compare correctly as strings)
+  if (a === null || b === null || typeof a !== typeof b || typeof a === 'boolean') return false;
+  switch (op) {
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    default: return a >= b;
+  }
+}
+
+function evaluate(node: Node, row: Record<string, any>): Value | Value[] {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'field': {
+      const value = row[node.name];
+      return value === undefined ? null : value;
+    }
+    case 'list':
+      return node.items.map(item => evaluate(item, row) as Value);
+    case 'unary': {
+      const value = evaluate(node.arg, row) as Value;
+      return node.op === '!' ? !value : numeric(v => -v)(value);
+    }
+    case 'call':
+      return FUNCTIONS[node.name](...node.args.map(arg => evaluate(arg, row) as Value));
+    case 'binary': {
+      const { op } = node;
+      if (op === '&&') return !!evaluate(node.left, row) && !!evaluate(node.right, row);
+      if (op === '||') return !!evaluate(node.left, row) || !!evaluate(node.right, row);
+      const left = evaluate(node.left, row) as Value;
+      const right = evaluate(node.right, row);
+      if (op === 'in') return Array.isArray(right) ? right.some(item => equals(left, item)) : equals(left, right);
+      if (['==', '!=', '<', '<=', '>', '>='].includes(op)) return compare(op, left, right as Value);
+      // '+' joins text when either side is a string; every other arithmetic operator needs numbers
+      if (op === '+' && (typeof left === 'string' || typeof right === 'string')) {
+        return left === null || right === null ? null : `${left}${right}`;
+      }
+      return numeric((a, b) => (op === '+' ? a + b : op === '-' ? a - b : op === '*' ? a * b : op === '/' ? a / b : a % b))(left, right as Value);
+    }
+  }
+}
+
+function collectFields(node: Node, fields: Set<string>): Set<string> {
+  if (node.kind === 'field') fields.add(node.name);
+  if (node.kind === 'list') node.items.forEach(item => collectFields(item, fields));
+  if (node.kind === 'unary') collectFields(node.arg, fields);
+  if (node.kind === 'binary') [node.left, node.right].forEach(child => collectFields(child, fields));
+  if (node.kind === 'call') node.args.forEach(arg => collectFields(arg, fields));
+  return fields;
+}
+
+/**
+ * Parse an expression once so it can be evaluated against many rows.
+ * Throws an error naming the expression and the position of the syntax error.
+ */
+export function compileExpression(source: string): CompiledExpression {
+  let root: Node;
+  try {
+    root = parse(tokenize(source));
+  } catch (error) {
+    throw new Error(`Invalid expression "${source}": ${(error as Error).message}`);
+  }
+  if (root.kind === 'list') throw new Error(`Invalid expression "${source}": a list can only follow 'in'`);
+  return {
+    source,
+    fields: Array.from(collectFields(root, new Set())),
+    evaluate: row => evaluate(root, row) as Value,
+  };
+}
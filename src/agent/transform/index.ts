@@ -0,0 +1,3 @@
+export { applyTransforms, aggregate, TransformError } from './steps';
+export { compileExpression } from './expression';
+export type { CompiledExpression } from './expression';
@@ -0,0 +1,195 @@
+// src/agent/transform/steps.ts
+// Applies the `transform` steps of a chart request to its rows, in order, before the chart data is built.
+import type { AggregateOp, TransformStep } from '../chartInputSchema';
+import { compileExpression, CompiledExpression } from './expression';
+
+type Row = Record<string, any>;
+
+/**
+ * A transform step that cannot be applied. `path` locates the problem within the `transform` array
+ * (e.g. `[1, 'by']`) so it can be reported like a schema issue.
+ */
+export class TransformError extends Error {
+  constructor(message: string, public path: (string | number)[]) {
+    super(message);
+    this.name = 'TransformError';
+  }
+}
+
+const toArray = <T>(value: T | T[]): T[] => (Array.isArray(value) ? value : [value]);
+
+function toNumber(raw: unknown): number | undefined {
+  const value = typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw;
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+const isPresent = (value: unknown) => value !== undefined && value !== null;
+
+// A step may only name fields that occur in its input (unless there is no input left, e.g. after a filter)
+function requireFields(rows: Row[], fields: string[], path: (string | number)[]): void {
+  if (rows.length === 0) return;
+  const known = new Set(rows.flatMap(row => Object.keys(row)));
+  fields.forEach((field, i) => {
+    if (!known.has(field)) throw new TransformError(`unknown field '${field}'`, fields.length > 1 ? [...path, i] : path);
+  });
+}
+
+function compile(expr: string, rows: Row[]): CompiledExpression {
+  let compiled: CompiledExpression;
+  try {
+    compiled = compileExpression(expr);
+  } catch (error) {
+    throw new TransformError((error as Error).message, ['expr']);
+  }
+  const known = new Set(rows.flatMap(row => Object.keys(row)));
+  const unknown = compiled.fields.find(field => !known.has(field));
+  if (rows.length > 0 && unknown) throw new TransformError(`unknown field '${unknown}' in "${expr}"`, ['expr']);
+  return compiled;
+}
+
+/** Combine the values of one field across a group of rows. `count` counts the present values. */
+export function aggregate(op: AggregateOp, values: unknown[]): number | null {
+  if (op === 'count') return values.filter(isPresent).length;
+  const numbers = values.map(toNumber).filter((n): n is number => n !== undefined);
+  if (numbers.length === 0) return null;
+  switch (op) {
+    case 'sum':
+      return numbers.reduce((a, b) => a + b, 0);
+    case 'avg':
+      return numbers.reduce((a, b) => a + b, 0) / numbers.length;
+    case 'min':
+      return Math.min(...numbers);
+    case 'max':
+      return Math.max(...numbers);
+    case 'median': {
+      const sorted = [...numbers].sort((a, b) => a - b);
+      const mid = Math.floor(sorted.length / 2);
+      return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+    }
+  }
+}
+
+// Rows grouped by the values of `fields`, groups in first-appearance order
+function groupRows(rows: Row[], fields: string[]): { key: Row; rows: Row[] }[] {
+  const groups = new Map<string, { key: Row; rows: Row[] }>();
+  for (const row of rows) {
+    const key = Object.fromEntries(fields.map(field => [field, row[field] ?? null]));
+    const id = JSON.stringify(fields.map(field => key[field]));
+    if (!groups.has(id)) groups.set(id, { key, rows: [] });
+    groups.get(id)!.rows.push(row);
+  }
+  return Array.from(groups.values());
+}
+
+// Numbers compare numerically and everything else as text; missing values always sort last
+function compareValues(a: unknown, b: unknown, descending: boolean): number {
+  if (!isPresent(a) || !isPresent(b)) return Number(!isPresent(a)) - Number(!isPresent(b));
+  const order = typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b));
+  return descending ? -order : order;
+}
+
+function sortRows(rows: Row[], fields: string[], descending: boolean): Row[] {
+  return [...rows].sort((a, b) => {
+    for (const field of fields) {
+      const order = compareValues(a[field], b[field], descending);
+      if (order !== 0) return order;
+    }
+    return 0;
+  });
+}
+
+function applyStep(rows: Row[], step: TransformStep): Row[] {
+  switch (step.type) {
+    case 'filter': {
+      const expr = compile(step.expr, rows);
+      return rows.filter(row => !!expr.evaluate(row));
+    }
+
+    case 'derive': {
+      const expr = compile(step.expr, rows);
+      return rows.map(row => ({ ...row, [step.as]: expr.evaluate(row) }));
+    }
+
+    case 'groupBy': {
+      const by = toArray(step.by);
+      requireFields(rows, by, ['by']);
+      const aggregates = step.aggregates.map(({ op, field, as }, i) => {
+        if (!field && op !== 'count') throw new TransformError(`a field is required for '${op}'`, ['aggregates', i, 'field']);
+        if (field) requireFields(rows, [field], ['aggregates', i, 'field']);
+        return { op, field, as: as ?? (field ? `${op}_${field}` : 'count') };
+      });
+      return groupRows(rows, by).map(group => ({
+        ...group.key,
+        ...Object.fromEntries(aggregates.map(({ op, field, as }) => [
+          as,
+          field ? aggregate(op, group.rows.map(row => row[field])) : group.rows.length,
+        ])),
+      }));
+    }
+
+    case 'sort': {
+      const by = toArray(step.by);
+      requireFields(rows, by, ['by']);
+      return sortRows(rows, by, step.order === 'desc');
+    }
+
+    case 'limit':
+      return rows.slice(0, step.count);
+
+    case 'top': {
+      requireFields(rows, [step.by], ['by']);
+      const sorted = sortRows(rows, [step.by], true);
+      const rest = sorted.slice(step.count);
+      if (step.other === undefined || rest.length === 0) return sorted.slice(0, step.count);
+      // The remaining rows collapse into one: numeric fields are summed, all others get the bucket label
+      const fields = Array.from(new Set(rest.flatMap(row => Object.keys(row))));
+      const other = Object.fromEntries(fields.map(field => {
+        const values = rest.map(row => row[field]).filter(isPresent);
+        const numeric = values.length > 0 && values.every(value => typeof value === 'number');
+        return [field, numeric ? aggregate('sum', values) : step.other];
+      }));
+      return [...sorted.slice(0, step.count), other];
+    }
+
+    case 'pivot': {
+      requireFields(rows, [step.key, step.value], ['key']);
+      const groupBy = step.groupBy
+        ? toArray(step.groupBy)
+        : Array.from(new Set(rows.flatMap(row => Object.keys(row)))).filter(field => field !== step.key && field !== step.value);
+      if (step.groupBy) requireFields(rows, groupBy, ['groupBy']);
+      const columns = Array.from(new Set(rows.map(row => String(row[step.key] ?? 'null'))));
+      return groupRows(rows, groupBy).map(group => ({
+        ...group.key,
+        ...Object.fromEntries(columns.map(column => {
+          const values = group.rows.filter(row => String(row[step.key] ?? 'null') === column).map(row => row[step.value]);
+          return [column, values.length > 0 ? aggregate(step.op ?? 'sum', values) : null];
+        })),
+      }));
+    }
+
+    case 'unpivot': {
+      requireFields(rows, step.fields, ['fields']);
+      const key = step.key ?? 'key';
+      const value = step.value ?? 'value';
+      return rows.flatMap(row => {
+        const rest = Object.fromEntries(Object.entries(row).filter(([field]) => !step.fields.includes(field)));
+        return step.fields.map(field => ({ ...rest, [key]: field, [value]: row[field] ?? null }));
+      });
+    }
+  }
+}
+
+/**
+ * Run the transform steps over the rows and return the result. The input rows are not modified.
+ * Throws a `TransformError` locating the step (and the part of it) that cannot be applied.
+ */
+export function applyTransforms(rows: Row[], steps: TransformStep[] = []): Row[] {
+  return steps.reduce((current, step, i) => {
+    try {
+      return applyStep(current, step);
+    } catch (error) {
+      if (error instanceof TransformError) throw new TransformError(error.message, [i, ...error.path]);
+      throw error;
+    }
+  }, rows);
+}
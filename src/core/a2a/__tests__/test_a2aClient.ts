@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { A2AClient } from '../src/a2aClient';
+import { AuthError } from '../src/auth';
+import { A2AError, TaskNotFoundError, TransportError, ValidationError } from '../src/errors';
+import type { Task } from '../src/types';
+
+vi.stubGlobal('fetch', vi.fn());
+
+const endpoint = 'https://agent.example.com/a2a';
+const task: Task = {
+  id: 'task-1',
+  status: { state: 'completed', timestamp: '' },
+  createdAt: '',
+  updatedAt: '',
+  input: { id: 'm1', role: 'user', parts: [{ type: 'text', text: 'hi' }] },
+};
+
+const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}) => new Response(
+  JSON.stringify(body),
+  { status, headers: { 'content-type': 'application/json', ...headers } }
+);
+
+describe('A2AClient', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.resetAllMocks();
+  });
+
+  it('should send default headers and credentials to the REST routes', async () => {
+    (fetch as any).mockResolvedValue(jsonResponse(task));
+    const client = new A2AClient(endpoint, { headers: { 'x-trace-id': 't1' }, credentials: { type: 'bearer', token: 'tok' } });
+
+    await expect(client.getTask('task-1')).resolves.toEqual(task);
+    const [url, init] = (fetch as any).mock.calls[0];
+    expect(url).toBe('https://agent.example.com/a2a/tasks/task-1');
+    expect(init.headers).toEqual({ 'x-trace-id': 't1', Authorization: 'Bearer tok' });
+    expect(init.signal).toBeInstanceOf(AbortSignal);
+  });
+
+  it('should retry idempotent calls with exponential backoff', async () => {
+    (fetch as any)
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(jsonResponse({ error: 'Overloaded' }, 503))
+      .mockResolvedValueOnce(jsonResponse(task));
+    const client = new A2AClient(endpoint, { backoffMs: 100 });
+
+    const result = client.getTask('task-1');
+    await vi.advanceTimersByTimeAsync(99);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(200);
+    await expect(result).resolves.toEqual(task);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry sending a new task', async () => {
+    (fetch as any).mockResolvedValue(jsonResponse({ error: 'Overloaded' }, 503));
+    const client = new A2AClient(endpoint);
+
+    await expect(client.sendTask({ input: task.input })).rejects.toMatchObject({ name: 'TransportError', status: 503, body: { error: 'Overloaded' } });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should abort attempts that exceed the timeout', async () => {
+    (fetch as any).mockImplementation((_url: string, init: RequestInit) => new Promise((_, reject) => {
+      init.signal!.addEventListener('abort', () => reject(new DOMException('This operation was aborted', 'AbortError')));
+    }));
+    const client = new A2AClient(endpoint, { timeoutMs: 1000, retries: 0 });
+
+    const result = client.getTask('task-1').catch(err => err);
+    await vi.advanceTimersByTimeAsync(1000);
+    const error = await result;
+    expect(error).toBeInstanceOf(TransportError);
+    expect(error).toMatchObject({ timedOut: true, message: `GET ${endpoint}/tasks/task-1 timed out after 1000 ms` });
+  });
+
+  it('should throw typed errors that keep the server error body', async () => {
+    const client = new A2AClient(endpoint);
+
+    (fetch as any).mockResolvedValueOnce(jsonResponse({ error: 'Task not found' }, 404));
+    await expect(client.getTask('nope')).rejects.toBeInstanceOf(TaskNotFoundError);
+
+    const details = [{ path: ['input'], message: 'Required' }];
+    (fetch as any).mockResolvedValueOnce(jsonResponse({ error: 'Invalid task', details }, 400));
+    const invalid = await client.sendTask({}).catch(err => err);
+    expect(invalid).toBeInstanceOf(ValidationError);
+    expect(invalid.body).toEqual({ error: 'Invalid task', details });
+
+    (fetch as any).mockResolvedValueOnce(jsonResponse({ error: 'Invalid API key' }, 401, { 'www-authenticate': 'ApiKey header="x-api-key"' }));
+    const denied = await client.listTasks().catch(err => err);
+    expect(denied).toBeInstanceOf(AuthError);
+    expect(denied).toBeInstanceOf(A2AError);
+    expect(denied).toMatchObject({ status: 401, challenge: 'ApiKey header="x-api-key"' });
+
+    // A missing artifact is not a missing task
+    (fetch as any).mockResolvedValueOnce(jsonResponse({ error: 'Artifact not found' }, 404));
+    const missing = await client.getArtifact('task-1', 'art-9').catch(err => err);
+    expect(missing).not.toBeInstanceOf(TaskNotFoundError);
+    expect(missing).toMatchObject({ status: 404, message: expect.stringContaining('Artifact not found') });
+  });
+
+  it('should map JSON-RPC errors for agents that prefer JSON-RPC', async () => {
+    (fetch as any).mockResolvedValue(jsonResponse({ jsonrpc: '2.0', id: '1', error: { code: -32001, message: 'Task not found' } }));
+    const client = A2AClient.fromCard({ id: 'a', name: 'A', endpoint, capabilities: [], preferredTransport: 'JSONRPC' });
+
+    const error = await client.getTask('nope').catch(err => err);
+    expect(error).toBeInstanceOf(TaskNotFoundError);
+    expect(error).toMatchObject({ code: -32001, body: { code: -32001, message: 'Task not found' } });
+    expect((fetch as any).mock.calls[0][0]).toBe(endpoint);
+  });
+});
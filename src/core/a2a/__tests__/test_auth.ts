@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import crypto from 'crypto';
+import { AuthSecrets, authHeaders, createAuthMiddleware, credentialsForCard, verifyJwt } from '../src/auth';
+import type { AgentCard } from '../src/types';
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+function signJwt(claims: Record<string, unknown>, alg: string, key: string | crypto.KeyObject, kid?: string) {
+  const signed = `${encode({ alg, typ: 'JWT', ...(kid && { kid }) })}.${encode(claims)}`;
+  const hash = `sha${alg.slice(2)}`;
+  const signature = typeof key === 'string'
+    ? crypto.createHmac(hash, key).update(signed).digest()
+    : crypto.sign(hash, Buffer.from(signed), alg.startsWith('ES') ? { key, dsaEncoding: 'ieee-p1363' } : key);
+  return `${signed}.${signature.toString('base64url')}`;
+}
+
+const request = (headers: Record<string, string>, extra: Record<string, unknown> = {}) => ({
+  method: 'POST',
+  originalUrl: '/a2a/tasks/send',
+  headers: Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value])),
+  ...extra,
+});
+
+const mockRes = () => ({
+  locals: {} as Record<string, any>,
+  status: vi.fn().mockReturnThis(),
+  json: vi.fn(),
+  setHeader: vi.fn(),
+});
+
+async function authenticate(authentication: AgentCard['authentication'], secrets: AuthSecrets, req: any) {
+  const res = mockRes();
+  const next = vi.fn();
+  await createAuthMiddleware(authentication, secrets)(req, res as any, next);
+  return { res, next };
+}
+
+describe('A2A authentication', () => {
+  beforeEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should accept configured API keys from the declared header', async () => {
+    const auth = { type: 'apiKey', name: 'x-agent-key' };
+    const ok = await authenticate(auth, { apiKeys: ['k1', 'k2'] }, request({ 'X-Agent-Key': 'k2' }));
+    expect(ok.next).toHaveBeenCalledWith();
+    expect(ok.res.locals.auth).toEqual({ scheme: 'apiKey' });
+
+    const wrong = await authenticate(auth, { apiKeys: ['k1'] }, request({ 'x-agent-key': 'nope' }));
+    expect(wrong.next).not.toHaveBeenCalled();
+    expect(wrong.res.status).toHaveBeenCalledWith(401);
+    expect(wrong.res.json).toHaveBeenCalledWith({ error: 'Invalid API key' });
+
+    const missing = await authenticate(auth, { apiKeys: ['k1'] }, request({}));
+    expect(missing.res.json).toHaveBeenCalledWith({ error: 'Missing API key (x-agent-key header)' });
+  });
+
+  it('should let every request through without an authentication block', async () => {
+    const { next, res } = await authenticate(undefined, {}, request({}));
+    expect(next).toHaveBeenCalledWith();
+    expect(res.locals.auth).toEqual({ scheme: 'none' });
+  });
+
+  it('should refuse to start without the secrets of the declared scheme', () => {
+    expect(() => createAuthMiddleware({ type: 'apiKey' }, {})).toThrow('A2A_API_KEYS');
+    expect(() => createAuthMiddleware({ type: 'bearer' }, {})).toThrow('A2A_JWT_SECRET');
+    expect(() => createAuthMiddleware({ type: 'oauth2' }, {})).toThrow("Unknown authentication type 'oauth2'");
+    expect(() => createAuthMiddleware({ type: 'hmac', maxSkewSeconds: -1 }, { hmacSecret: 's' })).toThrow('maxSkewSeconds');
+  });
+
+  it('should verify HS256 bearer tokens and their claims', async () => {
+    const auth = { type: 'bearer', issuer: 'https://issuer.example', audience: 'chart-agent' };
+    const now = Math.floor(Date.now() / 1000);
+    const claims = { sub: 'client-1', iss: 'https://issuer.example', aud: ['chart-agent'], exp: now + 60 };
+
+    const ok = await authenticate(auth, { jwtSecret: 'secret' }, request({ Authorization: `Bearer ${signJwt(claims, 'HS256', 'secret')}` }));
+    expect(ok.next).toHaveBeenCalledWith();
+    expect(ok.res.locals.auth).toMatchObject({ scheme: 'bearer', subject: 'client-1' });
+
+    const expired = await authenticate(auth, { jwtSecret: 'secret' }, request({ Authorization: `Bearer ${signJwt({ ...claims, exp: now - 120 }, 'HS256', 'secret')}` }));
+    expect(expired.res.json).toHaveBeenCalledWith({ error: 'Token has expired' });
+    expect(expired.res.setHeader).toHaveBeenCalledWith('WWW-Authenticate', expect.stringContaining('invalid_token'));
+
+    const forged = await authenticate(auth, { jwtSecret: 'secret' }, request({ Authorization: `Bearer ${signJwt(claims, 'HS256', 'other')}` }));
+    expect(forged.res.json).toHaveBeenCalledWith({ error: 'Invalid token signature' });
+
+    const wrongAudience = await authenticate(auth, { jwtSecret: 'secret' }, request({ Authorization: `Bearer ${signJwt({ ...claims, aud: 'other' }, 'HS256', 'secret')}` }));
+    expect(wrongAudience.res.json).toHaveBeenCalledWith({ error: 'Token audience is not accepted' });
+  });
+
+  it('should verify RS256 and ES256 tokens against a local JWKS', () => {
+    const rsa = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const ec = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const jwks = { keys: [{ ...rsa.publicKey.export({ format: 'jwk' }), kid: 'rsa-1' }, { ...ec.publicKey.export({ format: 'jwk' }), kid: 'ec-1' }] };
+    const options = { jwks, algorithms: ['RS256', 'ES256'] as const };
+
+    expect(verifyJwt(signJwt({ sub: 'a' }, 'RS256', rsa.privateKey, 'rsa-1'), options)).toEqual({ sub: 'a' });
+    expect(verifyJwt(signJwt({ sub: 'b' }, 'ES256', ec.privateKey, 'ec-1'), options)).toEqual({ sub: 'b' });
+    expect(() => verifyJwt(signJwt({ sub: 'c' }, 'RS256', rsa.privateKey, 'missing'), options)).toThrow('No key for token (kid missing)');
+    // A token signed with the public key as an HMAC secret must not pass as RS256
+    expect(() => verifyJwt(signJwt({ sub: 'd' }, 'HS256', 'anything'), options)).toThrow('Token algorithm HS256 is not accepted');
+  });
+
+  it('should answer 401 when the JWK is malformed or does not fit the token algorithm', async () => {
+    const rsa = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const ed = crypto.generateKeyPairSync('ed25519');
+    const jwks = { keys: [{ kty: 'RSA', kid: 'broken' }, { ...ed.publicKey.export({ format: 'jwk' }), kid: 'ed-1' }] };
+    const options = { jwks, algorithms: ['RS256'] as const };
+
+    expect(() => verifyJwt(signJwt({ sub: 'a' }, 'RS256', rsa.privateKey, 'broken'), options)).toThrow('Token key broken cannot verify RS256 signatures');
+    expect(() => verifyJwt(signJwt({ sub: 'b' }, 'RS256', rsa.privateKey, 'ed-1'), options)).toThrow('Token key ed-1 cannot verify RS256 signatures');
+
+    const { res, next } = await authenticate({ type: 'bearer' }, { jwks }, request({ Authorization: `Bearer ${signJwt({ sub: 'a' }, 'RS256', rsa.privateKey, 'broken')}` }));
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+
+  it('should accept requests signed by the client and reject stale or altered ones', async () => {
+    const card = { id: 'a', name: 'A', endpoint: 'https://agent.example/a2a', capabilities: [], authentication: { type: 'hmac' } };
+    const credentials = credentialsForCard(card, 'shared');
+    const body = JSON.stringify({ input: { id: 'm1' } });
+    const headers = authHeaders(credentials, 'POST', 'https://agent.example/a2a/tasks/send', body);
+
+    const ok = await authenticate(card.authentication, { hmacSecret: 'shared' }, request(headers, { rawBody: Buffer.from(body) }));
+    expect(ok.next).toHaveBeenCalledWith();
+
+    const altered = await authenticate(card.authentication, { hmacSecret: 'shared' }, request(headers, { rawBody: Buffer.from('{}') }));
+    expect(altered.res.json).toHaveBeenCalledWith({ error: 'Invalid request signature' });
+
+    vi.useFakeTimers({ now: Date.now() + 10 * 60 * 1000 });
+    const stale = await authenticate(card.authentication, { hmacSecret: 'shared' }, request(headers, { rawBody: Buffer.from(body) }));
+    expect(stale.res.json).toHaveBeenCalledWith({ error: 'Request signature has expired' });
+  });
+
+  it('should shape a secret into credentials for the card', () => {
+    const card: AgentCard = { id: 'a', name: 'A', endpoint: 'https://agent.example/a2a', capabilities: [], authentication: { type: 'apiKey', name: 'x-agent-key' } };
+    expect(credentialsForCard(card, 'k1')).toEqual({ type: 'apiKey', key: 'k1', name: 'x-agent-key' });
+    expect(authHeaders(credentialsForCard(card, 'k1'), 'GET', card.endpoint)).toEqual({ 'x-agent-key': 'k1' });
+    expect(credentialsForCard({ ...card, authentication: undefined }, 'k1')).toBeUndefined();
+    expect(authHeaders({ type: 'bearer', token: 't' }, 'GET', card.endpoint)).toEqual({ Authorization: 'Bearer t' });
+  });
+});
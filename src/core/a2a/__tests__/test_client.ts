@@ -21,7 +21,7 @@ const message: Message = {
 };
 const taskResponse: Task = { 
   id: taskId, 
-  status: 'submitted', 
+  status: { state: 'submitted', timestamp: '' }, 
   createdAt: '', 
   updatedAt: '', 
   input: taskPayload.input! 
@@ -45,11 +45,33 @@ describe('A2A Client', () => {
     await expect(client.sendTask(endpoint, taskPayload)).rejects.toThrow(`Failed to send task to ${endpoint}/a2a/tasks/send: 500 Server Error. Agent response body: Error details`);
   });
 
-  it('sendSubscribe: should POST and return Task', async () => {
-    (fetch as any).mockResolvedValue({ ok: true, json: () => Promise.resolve(taskResponse) });
-    const result = await client.sendSubscribe(endpoint, taskPayload);
+  it('sendSubscribe: should POST and yield streamed events', async () => {
+    const events = [
+      { id: taskId, status: { state: 'working', timestamp: 't1' }, final: false },
+      { id: taskId, status: { state: 'completed', timestamp: 't2' }, final: true },
+    ];
+    const sse = events.map(e => `data: ${JSON.stringify(e)}\n\n`).join('');
+    const encoder = new TextEncoder();
+    const body = new ReadableStream({
+      start(controller) {
+        // Split mid-frame to exercise buffering across chunks
+        controller.enqueue(encoder.encode(sse.slice(0, 20)));
+        controller.enqueue(encoder.encode(sse.slice(20)));
+        controller.close();
+      },
+    });
+    (fetch as any).mockResolvedValue({ ok: true, body });
+    const received = [];
+    for await (const event of client.sendSubscribe(endpoint, taskPayload)) {
+      received.push(event);
+    }
     expect(fetch).toHaveBeenCalledWith(`${endpoint}/a2a/tasks/sendSubscribe`, expect.anything());
-    expect(result).toEqual(taskResponse);
+    expect(received).toEqual(events);
+  });
+
+  it('sendSubscribe: should throw on error', async () => {
+    (fetch as any).mockResolvedValue({ ok: false, status: 500 });
+    await expect(client.sendSubscribe(endpoint, taskPayload).next()).rejects.toThrow(`Failed to subscribe to task at ${endpoint}: 500`);
   });
 
   it('getTask: should GET and return Task', async () => {
@@ -86,4 +108,55 @@ describe('A2A Client', () => {
     expect(fetch).toHaveBeenCalledWith(`${endpoint}/a2a/tasks`);
     expect(result).toEqual([taskResponse]);
   });
-}); 
\ No newline at end of file
+
+  it('callJsonRpc: should POST a JSON-RPC request and return the result', async () => {
+    (fetch as any).mockResolvedValue({ ok: true, json: () => Promise.resolve({ jsonrpc: '2.0', id: '1', result: taskResponse }) });
+    const result = await client.callJsonRpc(`${endpoint}/a2a`, 'tasks/get', { id: taskId });
+    const [url, init] = (fetch as any).mock.calls[0];
+    expect(url).toBe(`${endpoint}/a2a`);
+    expect(JSON.parse(init.body)).toEqual(expect.objectContaining({ jsonrpc: '2.0', method: 'tasks/get', params: { id: taskId } }));
+    expect(result).toEqual(taskResponse);
+  });
+
+  it('callJsonRpc: should throw JsonRpcCallError with the error code', async () => {
+    (fetch as any).mockResolvedValue({ ok: true, json: () => Promise.resolve({ jsonrpc: '2.0', id: '1', error: { code: -32001, message: 'Task not found' } }) });
+    await expect(client.callJsonRpc(`${endpoint}/a2a`, 'tasks/get', { id: 'x' })).rejects.toMatchObject({ code: -32001, message: 'Task not found' });
+  });
+
+  describe('createAgentConnection', () => {
+    const card = { id: 'agent', name: 'Agent', description: 'Remote agent', endpoint: `${endpoint}/a2a`, capabilities: [] };
+
+    it('should use JSON-RPC when the card prefers it', async () => {
+      (fetch as any).mockResolvedValue({ ok: true, json: () => Promise.resolve({ jsonrpc: '2.0', id: '1', result: taskResponse }) });
+      const connection = client.createAgentConnection({ ...card, preferredTransport: 'JSONRPC' });
+      expect(connection.transport).toBe('JSONRPC');
+      await connection.sendTask(taskPayload);
+      const [url, init] = (fetch as any).mock.calls[0];
+      expect(url).toBe(`${endpoint}/a2a`);
+      expect(JSON.parse(init.body).params).toEqual({ message: taskPayload.input });
+    });
+
+    it('should fall back to REST routes', async () => {
+      (fetch as any).mockResolvedValue({ ok: true, json: () => Promise.resolve(taskResponse) });
+      const connection = client.createAgentConnection(card);
+      expect(connection.transport).toBe('REST');
+      await connection.getTask(taskId);
+      expect(fetch).toHaveBeenCalledWith(`${endpoint}/a2a/tasks/${taskId}`);
+    });
+
+    it('should attach a secret the way the card asks for it', async () => {
+      (fetch as any).mockResolvedValue({ ok: true, json: () => Promise.resolve({ jsonrpc: '2.0', id: '1', result: taskResponse }) });
+      const authentication = { type: 'apiKey', in: 'header', name: 'x-agent-key' };
+      const connection = client.createAgentConnection({ ...card, preferredTransport: 'JSONRPC', authentication }, 'k1');
+      await connection.getTask(taskId);
+      const [, init] = (fetch as any).mock.calls[0];
+      expect(init.headers).toEqual({ 'Content-Type': 'application/json', 'x-agent-key': 'k1' });
+    });
+  });
+
+  it('should send credentials with plain requests too', async () => {
+    (fetch as any).mockResolvedValue({ ok: true, json: () => Promise.resolve(taskResponse) });
+    await client.getTask(endpoint, taskId, { type: 'bearer', token: 't1' });
+    expect(fetch).toHaveBeenCalledWith(`${endpoint}/a2a/tasks/${taskId}`, { headers: { Authorization: 'Bearer t1' } });
+  });
+});
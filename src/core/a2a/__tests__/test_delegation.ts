@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createDelegation, workerSecretsFromEnv } from '../src/delegation';
+import { AgentRegistry } from '../src/registry';
+import { TransportError, ValidationError } from '../src/errors';
+import type { AgentCard, Message, Task } from '../src/types';
+
+const input: Message = { id: 'm1', role: 'user', parts: [{ type: 'text', text: 'Plot sales' }] };
+
+const card = (id: string, capabilities = ['chart-generation']): AgentCard => ({
+  id,
+  name: id,
+  endpoint: `https://${id}.example.com/a2a`,
+  capabilities,
+});
+
+// A2AClient errors: the worker answered 503, could not be connected to, or did not answer in time
+const unavailable = () => new TransportError('503 Service Unavailable', { status: 503 });
+const refused = () => new TransportError('fetch failed', { cause: Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }) });
+const timedOut = () => new TransportError('Request timed out after 30000ms', { timedOut: true });
+
+const remoteTask = (id: string, state: Task['status']['state'], extra: Partial<Task> = {}): Task => ({
+  id,
+  input,
+  status: { state, timestamp: new Date().toISOString() },
+  createdAt: '',
+  updatedAt: '',
+  ...extra,
+});
+
+describe('Task delegation', () => {
+  let registry: AgentRegistry;
+  let workers: Record<string, { sendTask: any; getTask: any; sendMessage: any; cancelTask: any }>;
+  const connect = vi.fn((agent: AgentCard) => workers[agent.id] as any);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    registry = new AgentRegistry({ probe: vi.fn() });
+    workers = {};
+    for (const id of ['chart-a', 'chart-b']) {
+      registry.register(card(id));
+      workers[id] = { sendTask: vi.fn(), getTask: vi.fn(), sendMessage: vi.fn(), cancelTask: vi.fn() };
+    }
+  });
+
+  it('should forward a task to a matching worker and mirror its result', async () => {
+    const artifact = { id: 'art-1', type: 'image/png', url: 'https://chart-a.example.com/chart.png' };
+    workers['chart-a'].sendTask.mockResolvedValue(remoteTask('remote-1', 'completed', { artifacts: [artifact] }));
+    const { tasks, artifacts } = createDelegation({ registry, connect });
+
+    const task = await tasks.createTask({ input, capabilities: ['chart-generation'] });
+    expect(workers['chart-a'].sendTask).toHaveBeenCalledWith(expect.objectContaining({ input }));
+    expect(task).toMatchObject({
+      assignedTo: 'chart-a',
+      status: { state: 'completed' },
+      metadata: { delegation: { agentId: 'chart-a', remoteTaskId: 'remote-1', failedAttempts: [] } },
+    });
+    expect(await artifacts.getArtifactById(task.id, 'art-1')).toEqual(artifact);
+  });
+
+  it('should fail over to the next matching worker, trying unreachable ones last', async () => {
+    registry.register(card('chart-c'));
+    workers['chart-c'] = { sendTask: vi.fn(), getTask: vi.fn(), sendMessage: vi.fn(), cancelTask: vi.fn() };
+    (registry as any).agents.get('chart-a').status = 'down';
+    workers['chart-b'].sendTask.mockRejectedValue(unavailable());
+    workers['chart-c'].sendTask.mockResolvedValue(remoteTask('remote-2', 'working'));
+    const { tasks } = createDelegation({ registry, connect });
+
+    const task = await tasks.createTask({ input, capabilities: ['chart-generation'] });
+    expect(task.assignedTo).toBe('chart-c');
+    expect(task.metadata?.delegation).toMatchObject({ failedAttempts: [{ agentId: 'chart-b', error: '503 Service Unavailable' }] });
+    expect(workers['chart-a'].sendTask).not.toHaveBeenCalled();
+  });
+
+  it('should fail the task when no worker can take it', async () => {
+    workers['chart-a'].sendTask.mockRejectedValue(refused());
+    workers['chart-b'].sendTask.mockRejectedValue(refused());
+    const { tasks } = createDelegation({ registry, connect });
+
+    const failed = await tasks.createTask({ input, capabilities: ['chart-generation'] });
+    expect(failed.status.state).toBe('failed');
+    expect(failed.status.message?.parts[0]).toMatchObject({ text: expect.stringContaining('All 2 matching agents failed') });
+
+    const unmatched = await tasks.createTask({ input, capabilities: ['chart-generation', 'translation'] });
+    expect(unmatched.status.message?.parts[0]).toMatchObject({ text: 'No agent registered with capabilities: chart-generation, translation' });
+    await expect(tasks.createTask({ input })).rejects.toThrow('Task has no capabilities to route on');
+  });
+
+  it('should fail over only when the worker did not take the task', async () => {
+    workers['chart-a'].sendTask.mockRejectedValueOnce(new ValidationError('Invalid input', { status: 400 }));
+    workers['chart-b'].sendTask.mockResolvedValue(remoteTask('remote-6', 'working'));
+    const { tasks } = createDelegation({ registry, connect, defaultCapability: 'chart-generation' });
+    expect((await tasks.createTask({ input })).assignedTo).toBe('chart-b');
+
+    // A timeout or an untyped error leaves the first worker tried possibly running the task
+    for (const error of [timedOut(), new Error('socket hang up')]) {
+      for (const worker of Object.values(workers)) worker.sendTask.mockReset().mockRejectedValue(error);
+      const task = await tasks.createTask({ input });
+      expect(workers['chart-a'].sendTask.mock.calls.length + workers['chart-b'].sendTask.mock.calls.length).toBe(1);
+      expect(task.status.state).toBe('failed');
+      expect(task.status.message?.parts[0]).toMatchObject({ text: expect.stringContaining(`may have taken the task, so it was not sent to another agent: ${error.message}`) });
+    }
+  });
+
+  it('should not send the task to another worker when mirroring it fails', async () => {
+    workers['chart-a'].sendTask.mockResolvedValue(remoteTask('remote-7', 'working'));
+    const local = await import('../src/tasks');
+    const updateTask = vi.fn().mockRejectedValueOnce(new Error('disk full'));
+    const { tasks } = createDelegation({ registry, connect, defaultCapability: 'chart-generation', tasks: { ...local, updateTask } });
+
+    await expect(tasks.createTask({ input })).rejects.toThrow('disk full');
+    expect(workers['chart-b'].sendTask).not.toHaveBeenCalled();
+  });
+
+  it('should refresh running tasks from the worker and forward cancellation', async () => {
+    workers['chart-a'].sendTask.mockResolvedValue(remoteTask('remote-3', 'working'));
+    workers['chart-a'].getTask.mockResolvedValue(remoteTask('remote-3', 'working', { progress: 0.5 }));
+    workers['chart-a'].cancelTask.mockResolvedValue(remoteTask('remote-3', 'canceled'));
+    const { tasks } = createDelegation({ registry, connect, defaultCapability: 'chart-generation' });
+
+    const task = await tasks.createTask({ input });
+    expect(await tasks.getTask(task.id)).toMatchObject({ progress: 0.5, status: { state: 'working' } });
+    expect(workers['chart-a'].getTask).toHaveBeenCalledWith('remote-3');
+
+    const canceled = await tasks.cancelTask(task.id);
+    expect(workers['chart-a'].cancelTask).toHaveBeenCalledWith('remote-3');
+    expect(canceled?.status.state).toBe('canceled');
+  });
+
+  it('should continue the remote task with messages and keep final local states', async () => {
+    workers['chart-a'].sendTask.mockResolvedValue(remoteTask('remote-4', 'input-required'));
+    workers['chart-a'].sendMessage
+      .mockResolvedValueOnce(remoteTask('remote-4', 'completed', { output: { id: 'a1', role: 'agent', parts: [{ type: 'text', text: 'Done' }] } }))
+      .mockResolvedValueOnce(remoteTask('remote-4', 'completed', { progress: 1 }));
+    const { tasks } = createDelegation({ registry, connect, defaultCapability: 'chart-generation' });
+    const task = await tasks.createTask({ input });
+    const reply: Message = { id: 'm2', role: 'user', parts: [{ type: 'text', text: 'Use months' }] };
+
+    const completed = await tasks.addMessageToTask(task.id, reply);
+    expect(workers['chart-a'].sendMessage).toHaveBeenCalledWith('remote-4', reply);
+    expect(workers['chart-a'].sendTask).toHaveBeenCalledTimes(1);
+    expect(completed?.status.state).toBe('completed');
+    expect(completed?.statusHistory?.map(t => t.to)).toEqual(['submitted', 'input-required', 'completed']);
+
+    // The worker reports 'completed' again: the local task stays completed and still takes the progress
+    const again = await tasks.addMessageToTask(task.id, reply);
+    expect(again).toMatchObject({ progress: 1, status: { state: 'completed' } });
+    expect(again?.statusHistory).toHaveLength(3);
+  });
+
+  it('should send each worker only its own secret', async () => {
+    const env = { A2A_WORKER_SECRETS: JSON.stringify({ 'chart-a': 'secret-a' }) };
+    expect(workerSecretsFromEnv(env)).toEqual({ 'chart-a': 'secret-a' });
+    expect(workerSecretsFromEnv({})).toEqual({});
+    expect(() => workerSecretsFromEnv({ A2A_WORKER_SECRETS: '["secret"]' })).toThrow('A2A_WORKER_SECRETS must be a JSON object');
+
+    vi.stubEnv('A2A_WORKER_SECRETS', env.A2A_WORKER_SECRETS);
+    try {
+      workers['chart-a'].sendTask.mockRejectedValue(unavailable());
+      workers['chart-b'].sendTask.mockResolvedValue(remoteTask('remote-5', 'working'));
+      const { tasks } = createDelegation({ registry, connect, defaultCapability: 'chart-generation' });
+      await tasks.createTask({ input });
+      expect(connect).toHaveBeenCalledWith(expect.objectContaining({ id: 'chart-a' }), 'secret-a');
+      expect(connect).toHaveBeenCalledWith(expect.objectContaining({ id: 'chart-b' }), undefined);
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+});
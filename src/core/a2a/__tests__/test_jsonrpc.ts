@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createJsonRpcHandler, handleJsonRpcParseError, JSON_RPC_ERRORS } from '../src/jsonrpc';
+import { InvalidTransitionError } from '../src/taskLifecycle';
+import type { Task } from '../src/types';
+
+const mockCreateTask = vi.fn();
+const mockGetTask = vi.fn();
+const mockAddMessageToTask = vi.fn();
+const mockCancelTask = vi.fn();
+const mockValidateTask = vi.fn();
+const mockValidateMessage = vi.fn();
+
+const handleJsonRpc = createJsonRpcHandler({
+  tasks: {
+    createTask: mockCreateTask,
+    getTask: mockGetTask,
+    addMessageToTask: mockAddMessageToTask,
+    cancelTask: mockCancelTask,
+    listTasks: vi.fn(),
+  },
+  artifacts: { getArtifactsForTask: vi.fn(), getArtifactById: vi.fn() },
+  validateTask: mockValidateTask,
+  validateMessage: mockValidateMessage,
+});
+
+describe('A2A JSON-RPC handler', () => {
+  const mockTask: Task = {
+    id: 'task-123',
+    status: { state: 'completed', timestamp: '2024-01-01T00:00:00Z' },
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+    input: { id: 'msg-1', role: 'user', parts: [{ type: 'text', text: 'hello' }] },
+  };
+  const mockRes = {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn(),
+    setHeader: vi.fn(),
+    write: vi.fn(),
+    end: vi.fn(),
+  };
+  const call = (body: any) => handleJsonRpc({ body }, mockRes);
+  const response = () => mockRes.json.mock.calls[0][0];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCreateTask.mockResolvedValue(mockTask);
+    mockGetTask.mockResolvedValue(mockTask);
+    mockAddMessageToTask.mockResolvedValue(mockTask);
+    mockCancelTask.mockResolvedValue({ ...mockTask, status: { state: 'canceled', timestamp: '2024-01-01T00:00:01Z' } });
+    mockValidateTask.mockReturnValue({ success: true });
+    mockValidateMessage.mockReturnValue({ success: true });
+  });
+
+  it('should reject requests without jsonrpc 2.0 envelope', async () => {
+    await call({ id: 1, method: 'tasks/get' });
+    expect(response()).toEqual({ jsonrpc: '2.0', id: 1, error: { code: JSON_RPC_ERRORS.INVALID_REQUEST, message: 'Invalid Request' } });
+  });
+
+  it('should reject batch requests', async () => {
+    await call([{ jsonrpc: '2.0', id: 1, method: 'tasks/get' }]);
+    expect(response().error.code).toBe(-32600);
+  });
+
+  it('should return -32601 for unknown methods', async () => {
+    await call({ jsonrpc: '2.0', id: 'a', method: 'tasks/nope' });
+    expect(response().error.code).toBe(-32601);
+    expect(response().id).toBe('a');
+  });
+
+  it('tasks/send: should map message to input and create the task', async () => {
+    const message = mockTask.input;
+    await call({ jsonrpc: '2.0', id: 1, method: 'tasks/send', params: { sessionId: 's1', message } });
+    expect(mockCreateTask).toHaveBeenCalledWith({ sessionId: 's1', input: message });
+    expect(response()).toEqual({ jsonrpc: '2.0', id: 1, result: mockTask });
+  });
+
+  it('tasks/send: should add the message to an existing task', async () => {
+    const message = { id: 'msg-2', role: 'user', parts: [{ type: 'text', text: 'again' }] };
+    await call({ jsonrpc: '2.0', id: 1, method: 'tasks/send', params: { id: 'task-123', message } });
+    expect(mockAddMessageToTask).toHaveBeenCalledWith('task-123', message);
+    expect(mockCreateTask).not.toHaveBeenCalled();
+  });
+
+  it('tasks/send: should refuse an id that names no task instead of replacing it', async () => {
+    mockGetTask.mockResolvedValueOnce(undefined);
+    await call({ jsonrpc: '2.0', id: 1, method: 'tasks/send', params: { id: 'client-id', message: mockTask.input } });
+    expect(response().error).toEqual({ code: -32602, message: 'Task client-id not found; omit "id" to create a new task' });
+    expect(mockCreateTask).not.toHaveBeenCalled();
+    expect(mockAddMessageToTask).not.toHaveBeenCalled();
+  });
+
+  it('should return -32700 for bodies that are not valid JSON', () => {
+    const parseError = Object.assign(new SyntaxError('Unexpected token'), { type: 'entity.parse.failed', status: 400 });
+    const next = vi.fn();
+    handleJsonRpcParseError(parseError, { method: 'POST', path: '/' }, mockRes, next);
+    expect(response()).toEqual({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+
+    // Other routes and other errors keep Express's handling
+    handleJsonRpcParseError(parseError, { method: 'POST', path: '/tasks/send' }, mockRes, next);
+    const other = new Error('boom');
+    handleJsonRpcParseError(other, { method: 'POST', path: '/' }, mockRes, next);
+    expect(next.mock.calls).toEqual([[parseError], [other]]);
+  });
+
+  it('tasks/send: should return -32010 when the task cannot take the message', async () => {
+    const message = { id: 'msg-2', role: 'user', parts: [{ type: 'text', text: 'again' }] };
+    mockAddMessageToTask.mockRejectedValueOnce(new InvalidTransitionError('task-123', 'canceled', 'working'));
+    await call({ jsonrpc: '2.0', id: 1, method: 'tasks/send', params: { id: 'task-123', message } });
+    expect(response().error).toEqual({
+      code: JSON_RPC_ERRORS.TASK_STATE_CONFLICT,
+      message: 'Task task-123 is already canceled and cannot become working',
+      data: { state: 'canceled' },
+    });
+  });
+
+  it('tasks/send: should return -32602 with details for invalid tasks', async () => {
+    mockValidateTask.mockReturnValueOnce({ success: false, error: { errors: ['Invalid role'] } });
+    await call({ jsonrpc: '2.0', id: 1, method: 'tasks/send', params: { message: {} } });
+    expect(response().error).toEqual({ code: -32602, message: 'Invalid task', data: ['Invalid role'] });
+  });
+
+  it('tasks/get: should return the task', async () => {
+    await call({ jsonrpc: '2.0', id: 2, method: 'tasks/get', params: { id: 'task-123' } });
+    expect(mockGetTask).toHaveBeenCalledWith('task-123');
+    expect(response().result).toEqual(mockTask);
+  });
+
+  it('tasks/get: should return -32001 for unknown tasks', async () => {
+    mockGetTask.mockResolvedValueOnce(undefined);
+    await call({ jsonrpc: '2.0', id: 2, method: 'tasks/get', params: { id: 'missing' } });
+    expect(response().error).toEqual({ code: -32001, message: 'Task not found' });
+  });
+
+  it('tasks/cancel: should return -32001 when the task cannot be found', async () => {
+    mockCancelTask.mockResolvedValueOnce(undefined);
+    await call({ jsonrpc: '2.0', id: 3, method: 'tasks/cancel', params: { id: 'missing' } });
+    expect(response().error.code).toBe(-32001);
+  });
+
+  it('tasks/cancel: should return -32002 when the task has already finished', async () => {
+    mockCancelTask.mockRejectedValueOnce(new InvalidTransitionError('task-123', 'failed', 'canceled'));
+    await call({ jsonrpc: '2.0', id: 3, method: 'tasks/cancel', params: { id: 'task-123' } });
+    expect(response().error).toEqual({
+      code: JSON_RPC_ERRORS.TASK_NOT_CANCELABLE,
+      message: 'Task task-123 is already failed and cannot become canceled',
+      data: { state: 'failed' },
+    });
+  });
+
+  it('should return -32603 when a method throws', async () => {
+    mockGetTask.mockRejectedValueOnce(new Error('db down'));
+    await call({ jsonrpc: '2.0', id: 4, method: 'tasks/get', params: { id: 'task-123' } });
+    expect(response().error).toEqual({ code: -32603, message: 'db down' });
+  });
+
+  it('tasks/sendSubscribe: should stream JSON-RPC responses over SSE', async () => {
+    await call({ jsonrpc: '2.0', id: 5, method: 'tasks/sendSubscribe', params: { message: mockTask.input } });
+    expect(mockRes.setHeader).toHaveBeenCalledWith('Content-Type', 'text/event-stream');
+    const frame = JSON.parse(mockRes.write.mock.calls[0][0].replace(/^data: /, ''));
+    expect(frame).toEqual({
+      jsonrpc: '2.0',
+      id: 5,
+      result: { id: 'task-123', status: mockTask.status, final: true },
+    });
+    expect(mockRes.end).toHaveBeenCalled();
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { encodeFilePart, decodeFilePart, encodeDataPart, decodeDataPart } from '../src/message';
-import type { FilePart, DataPart } from '../src/types';
+import { encodeFilePart, decodeFilePart, encodeDataPart, decodeDataPart, getMessageMimeTypes } from '../src/message';
+import type { FilePart, DataPart, Message } from '../src/types';
 
 describe('Message Utilities', () => {
   const mockTextMessage = {
@@ -86,4 +86,20 @@ describe('Message Utilities', () => {
       expect(data).toBe('plain text');
     });
   });
-}); 
\ No newline at end of file
+
+  describe('getMessageMimeTypes', () => {
+    it('should list the distinct MIME types of the parts', () => {
+      const message: Message = {
+        id: 'm1',
+        role: 'user',
+        parts: [
+          { type: 'text', text: 'Plot this' },
+          encodeDataPart('application/json', { a: 1 }),
+          encodeFilePart('data.csv', 'text/csv', Buffer.from('a,b')),
+          { type: 'text', text: 'as a bar chart' },
+        ],
+      };
+      expect(getMessageMimeTypes(message)).toEqual(['text/plain', 'application/json', 'text/csv']);
+    });
+  });
+});
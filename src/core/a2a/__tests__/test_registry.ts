@@ -1,5 +1,10 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { AgentRegistry } from '../src/registry';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { AgentRegistry, compareVersions } from '../src/registry';
+import { FileAgentStore, InMemoryAgentStore } from '../src/agentStore';
+import { createRegistryHandlers } from '../src/registryServer';
 import type { AgentCard } from '../src/types';
 
 describe('Agent Registry', () => {
@@ -91,4 +96,156 @@ describe('Agent Registry', () => {
       expect(agents).toHaveLength(0);
     });
   });
-}); 
\ No newline at end of file
+
+  describe('query', () => {
+    const chartAgent = (id: string, extra: Partial<AgentCard> = {}): AgentCard => ({
+      ...mockAgentCard,
+      id,
+      capabilities: ['chart-generation', 'themes'],
+      skills: ['bar', 'line'],
+      defaultInputModes: ['application/json', 'text/*'],
+      ...extra,
+    });
+
+    it('should match every required capability, skill and input MIME type', () => {
+      registry.register(chartAgent('full'));
+      registry.register(chartAgent('no-themes', { capabilities: ['chart-generation'] }));
+      registry.register(chartAgent('json-only', { defaultInputModes: ['application/json'] }));
+      registry.register(chartAgent('any-input', { defaultInputModes: undefined, skills: ['bar'] }));
+
+      const ids = (query: Parameters<AgentRegistry['query']>[0]) => registry.query(query).map(match => match.card.id).sort();
+      expect(ids({ capabilities: ['chart-generation', 'themes'] })).toEqual(['any-input', 'full', 'json-only']);
+      expect(ids({ skills: ['bar', 'line'] })).toEqual(['full', 'json-only', 'no-themes']);
+      expect(ids({ inputModes: ['application/json', 'text/plain'] })).toEqual(['any-input', 'full', 'no-themes']);
+      expect(ids({ inputModes: ['image/png'] })).toEqual(['any-input']);
+    });
+
+    it('should rank by reachability, success rate, version and latency', () => {
+      registry.register(chartAgent('old', { version: '1.9.0' }));
+      registry.register(chartAgent('new', { version: '1.10.0' }));
+      registry.register(chartAgent('flaky', { version: '2.0.0' }));
+      registry.register(chartAgent('fast', { version: '1.9.0' }));
+      registry.register(chartAgent('down', { version: '3.0.0' }));
+      registry.recordCall('flaky', true, 100);
+      registry.recordCall('flaky', false, 5000);
+      registry.recordCall('old', true, 800);
+      registry.recordCall('fast', true, 200);
+      (registry as any).agents.get('down').status = 'down';
+
+      expect(registry.query({ capabilities: ['chart-generation'] }).map(match => match.card.id))
+        .toEqual(['new', 'fast', 'old', 'flaky', 'down']);
+      expect(registry.query({ excludeDown: true }).find(match => match.card.id === 'flaky'))
+        .toMatchObject({ successRate: 0.5, averageLatencyMs: 100 });
+      expect(registry.query({ excludeDown: true })).toHaveLength(4);
+    });
+
+    it('should compare versions numerically', () => {
+      expect(compareVersions('1.10.0', '1.9.2')).toBe(1);
+      expect(compareVersions('v2', '2.0.0')).toBe(0);
+      expect(compareVersions(undefined, '0.1.0')).toBe(-1);
+    });
+  });
+
+  describe('registry service', () => {
+    const cardUrl = 'https://test.example.com/a2a/.well-known/agent.json';
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should register an agent from its card URL', async () => {
+      const fetchCard = vi.fn().mockResolvedValue(mockAgentCard);
+      registry = new AgentRegistry({ fetchCard });
+
+      const entry = await registry.registerFromUrl(cardUrl);
+      expect(fetchCard).toHaveBeenCalledWith(cardUrl);
+      expect(entry).toMatchObject({ card: mockAgentCard, cardUrl, status: 'up', consecutiveFailures: 0 });
+
+      fetchCard.mockResolvedValue({ ...mockAgentCard, endpoint: 'not-a-url' });
+      await expect(registry.registerFromUrl(cardUrl)).rejects.toThrow(`Invalid agent card at ${cardUrl}`);
+    });
+
+    it('should mark agents down when probes fail and evict them after the TTL', async () => {
+      vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+      const probe = vi.fn().mockResolvedValue(true);
+      registry = new AgentRegistry({ ttlMs: 60_000, probe });
+      registry.register(mockAgentCard);
+      registry.register({ ...mockAgentCard, id: 'agent-2' });
+
+      probe.mockImplementation(async card => {
+        if (card.id === 'agent-2') throw new Error('connect ECONNREFUSED');
+        return true;
+      });
+      vi.setSystemTime(new Date('2026-01-01T00:00:30Z'));
+      await registry.checkHealth();
+      expect(registry.getEntry('agent-2')).toMatchObject({ status: 'down', consecutiveFailures: 1, lastError: 'connect ECONNREFUSED' });
+      expect(registry.getEntry('test-agent')).toMatchObject({ status: 'up', lastSeenAt: '2026-01-01T00:00:30.000Z' });
+
+      vi.setSystemTime(new Date('2026-01-01T00:01:10Z'));
+      const remaining = await registry.checkHealth();
+      expect(remaining.map(entry => entry.card.id)).toEqual(['test-agent']);
+    });
+
+    it('should probe agents periodically once started', async () => {
+      vi.useFakeTimers();
+      const probe = vi.fn().mockResolvedValue(true);
+      registry = new AgentRegistry({ probe, probeIntervalMs: 1000 });
+      await registry.start();
+      registry.register(mockAgentCard);
+
+      await vi.advanceTimersByTimeAsync(2500);
+      expect(probe).toHaveBeenCalledTimes(2);
+      registry.stop();
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(probe).toHaveBeenCalledTimes(2);
+    });
+
+    it('should save entries to a file and load them back', async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-registry-'));
+      const filePath = path.join(dir, 'agents.json');
+      try {
+        registry = new AgentRegistry({ store: new FileAgentStore(filePath) });
+        registry.register(mockAgentCard, cardUrl);
+        registry.register({ ...mockAgentCard, id: 'agent-2' });
+        registry.deregister('agent-2');
+        await registry.flush();
+
+        const reloaded = new AgentRegistry({ store: new FileAgentStore(filePath) });
+        await reloaded.load();
+        expect(reloaded.getAll()).toEqual([mockAgentCard]);
+        expect(reloaded.getEntry('test-agent')?.cardUrl).toBe(cardUrl);
+        await expect(new FileAgentStore(path.join(dir, 'missing.json')).load()).resolves.toEqual([]);
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should register, query and deregister agents over REST', async () => {
+      registry = new AgentRegistry({ store: new InMemoryAgentStore(), fetchCard: vi.fn().mockResolvedValue(mockAgentCard) });
+      const handlers = createRegistryHandlers(registry);
+      const mockRes = () => ({ status: vi.fn().mockReturnThis(), json: vi.fn(), end: vi.fn() });
+
+      const missing = mockRes();
+      await handlers.handleRegisterAgent({ body: {} }, missing);
+      expect(missing.status).toHaveBeenCalledWith(400);
+
+      const created = mockRes();
+      await handlers.handleRegisterAgent({ body: { cardUrl } }, created);
+      expect(created.status).toHaveBeenCalledWith(201);
+      expect(created.json.mock.calls[0][0]).toMatchObject({ card: mockAgentCard });
+
+      const listed = mockRes();
+      await handlers.handleListAgents({ query: { capability: 'chat' } }, listed);
+      expect(listed.json).toHaveBeenCalledWith([]);
+
+      const deleted = mockRes();
+      await handlers.handleDeregisterAgent({ params: { id: 'test-agent' } }, deleted);
+      expect(deleted.status).toHaveBeenCalledWith(204);
+
+      const notFound = mockRes();
+      await handlers.handleGetAgent({ params: { id: 'test-agent' } }, notFound);
+      expect(notFound.status).toHaveBeenCalledWith(404);
+      expect(notFound.json).toHaveBeenCalledWith({ error: 'Agent not found' });
+    });
+  });
+});
@@ -1,5 +1,6 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import router from '../src/router';
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
+import { createOrchestratorRouter } from '../src/router';
+import { agentRegistry } from '../src/registryServer';
 import * as server from '../src/server';
 
 // Mock the server handlers
@@ -14,10 +15,30 @@ vi.mock('../server', () => ({
 }));
 
 describe('A2A Router', () => {
+  // The task routes and registry changes need an API key
+  const router = createOrchestratorRouter({ A2A_API_KEYS: 'registry-key' });
+
+  // Send a request without credentials through the router
+  const anonymous = async (method: string, url: string) => {
+    const res = { status: vi.fn().mockReturnThis(), json: vi.fn(), setHeader: vi.fn(), locals: {} };
+    const next = vi.fn();
+    (router as any)({ method, url, originalUrl: `/a2a${url}`, headers: {} }, res, next);
+    await vi.waitFor(() => expect(res.status).toHaveBeenCalled());
+    return { res, next };
+  };
+
   beforeEach(() => {
     vi.clearAllMocks();
   });
 
+  afterAll(() => {
+    agentRegistry.stop();
+  });
+
+  it('should refuse to start without an API key', () => {
+    expect(() => createOrchestratorRouter({})).toThrow();
+  });
+
   it('should have all task routes configured', () => {
     // Get all routes from the router
     const routes = router.stack.map(layer => ({
@@ -25,6 +46,12 @@ describe('A2A Router', () => {
       method: Object.keys((layer.route as any)?.methods || {})[0],
     }));
 
+    // Verify JSON-RPC endpoint
+    expect(routes).toContainEqual({
+      path: '/',
+      method: 'post',
+    });
+
     // Verify task routes
     expect(routes).toContainEqual({
       path: '/tasks/send',
@@ -50,9 +77,48 @@ describe('A2A Router', () => {
       path: '/tasks/:id/artifacts',
       method: 'get',
     });
+    expect(routes).toContainEqual({
+      path: '/tasks/:id/artifacts/:artifactId',
+      method: 'get',
+    });
     expect(routes).toContainEqual({
       path: '/tasks',
       method: 'get',
     });
   });
-}); 
\ No newline at end of file
+
+  it('should have the agent registry routes configured', () => {
+    const routes = router.stack.map(layer => ({
+      path: layer.route?.path,
+      method: Object.keys((layer.route as any)?.methods || {})[0],
+    }));
+
+    expect(routes).toContainEqual({ path: '/agents', method: 'post' });
+    expect(routes).toContainEqual({ path: '/agents', method: 'get' });
+    expect(routes).toContainEqual({ path: '/agents/:id', method: 'get' });
+    expect(routes).toContainEqual({ path: '/agents/:id', method: 'delete' });
+  });
+
+  it('should require an API key to change the agent registry', async () => {
+    const handlersOf = (path: string, method: string) =>
+      router.stack.find(layer => layer.route?.path === path && (layer.route as any).methods[method])!.route!.stack;
+    expect(handlersOf('/agents', 'post')).toHaveLength(2);
+    expect(handlersOf('/agents/:id', 'delete')).toHaveLength(2);
+    expect(handlersOf('/agents', 'get')).toHaveLength(1);
+
+    const [requireAuth] = handlersOf('/agents', 'post');
+    const res = { status: vi.fn().mockReturnThis(), json: vi.fn(), setHeader: vi.fn(), locals: {} };
+    const next = vi.fn();
+    await requireAuth.handle({ headers: {}, method: 'POST', originalUrl: '/a2a/agents' } as any, res as any, next);
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should require an API key for the task and JSON-RPC endpoints', async () => {
+    for (const [method, url] of [['POST', '/'], ['POST', '/tasks/send'], ['POST', '/tasks/sendSubscribe'], ['GET', '/tasks/task-1'], ['POST', '/tasks/task-1/messages'], ['POST', '/tasks/task-1/cancel'], ['GET', '/tasks']]) {
+      const { res, next } = await anonymous(method, url);
+      expect(res.status, `${method} ${url}`).toHaveBeenCalledWith(401);
+      expect(next).not.toHaveBeenCalled();
+    }
+  });
+});
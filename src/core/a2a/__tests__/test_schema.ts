@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { validateTask, validateArtifact, TaskSchema } from '../src/schema';
+import type { Task } from '../src/types';
+
+describe('A2A Schemas', () => {
+  const message = { id: 'msg-1', role: 'user' as const, parts: [{ type: 'text' as const, text: 'hello' }] };
+  const fullTask: Task = {
+    id: 'task-123',
+    sessionId: 'session-1',
+    name: 'Chart',
+    status: {
+      state: 'completed',
+      timestamp: '2024-01-01T00:00:01Z',
+      message: { id: 'msg-2', role: 'agent', parts: [{ type: 'data', mimeType: 'application/json', data: { ok: true } }] },
+    },
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:01Z',
+    input: message,
+    history: [message],
+    artifacts: [{
+      id: 'art-1',
+      type: 'image/svg+xml',
+      name: 'chart.svg',
+      index: 0,
+      parts: [{ type: 'file', filename: 'chart.svg', contentType: 'image/svg+xml', data: 'PHN2Zy8+' }],
+    }],
+    metadata: { source: 'test' },
+  };
+
+  describe('TaskSchema', () => {
+    it('should accept a full A2A task', () => {
+      expect(validateTask(fullTask).success).toBe(true);
+    });
+
+    it('should reject legacy string statuses', () => {
+      expect(validateTask({ ...fullTask, status: 'completed' }).success).toBe(false);
+    });
+
+    it('should reject unknown status states', () => {
+      const result = validateTask({ ...fullTask, status: { state: 'in_progress', timestamp: '' } });
+      expect(result.success).toBe(false);
+    });
+
+    it('should keep extension fields', () => {
+      const parsed = TaskSchema.parse({ ...fullTask, custom: 42 });
+      expect(parsed.custom).toBe(42);
+    });
+  });
+
+  describe('ArtifactSchema', () => {
+    it('should validate artifact parts', () => {
+      const result = validateArtifact({ id: 'art-1', type: 'file', parts: [{ type: 'text' }] });
+      expect(result.success).toBe(false);
+    });
+  });
+});
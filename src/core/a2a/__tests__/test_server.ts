@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { createHandlers } from '../src/server';
+import { InvalidTransitionError } from '../src/taskLifecycle';
+import { TransportError } from '../src/errors';
 import type { Task, Message, Artifact } from '../src/types';
 
 // Create mock functions
@@ -9,6 +11,7 @@ const mockAddMessageToTask = vi.fn();
 const mockCancelTask = vi.fn();
 const mockListTasks = vi.fn();
 const mockGetArtifactsForTask = vi.fn();
+const mockGetArtifactById = vi.fn();
 const mockValidateTask = vi.fn();
 const mockValidateMessage = vi.fn();
 
@@ -23,6 +26,7 @@ const handlers = createHandlers({
   },
   artifacts: {
     getArtifactsForTask: mockGetArtifactsForTask,
+    getArtifactById: mockGetArtifactById,
   },
   validateTask: mockValidateTask,
   validateMessage: mockValidateMessage,
@@ -40,7 +44,7 @@ describe('A2A Server', () => {
 
   const mockTask: Task = {
     id: 'task-123',
-    status: 'submitted',
+    status: { state: 'submitted', timestamp: '2024-01-01T00:00:00Z' },
     createdAt: '2024-01-01T00:00:00Z',
     updatedAt: '2024-01-01T00:00:00Z',
     input: {
@@ -67,9 +71,10 @@ describe('A2A Server', () => {
     mockCreateTask.mockResolvedValue(mockTask);
     mockGetTask.mockResolvedValue(mockTask);
     mockAddMessageToTask.mockResolvedValue(mockTask);
-    mockCancelTask.mockResolvedValue({ ...mockTask, status: 'canceled' });
+    mockCancelTask.mockResolvedValue({ ...mockTask, status: { state: 'canceled', timestamp: '2024-01-01T00:00:01Z' } });
     mockListTasks.mockResolvedValue([mockTask]);
     mockGetArtifactsForTask.mockResolvedValue([mockArtifact]);
+    mockGetArtifactById.mockResolvedValue(mockArtifact);
     mockValidateTask.mockReturnValue({ success: true });
     mockValidateMessage.mockReturnValue({ success: true });
   });
@@ -92,15 +97,86 @@ describe('A2A Server', () => {
         error: 'Invalid task',
       }));
     });
+
+    it('should return 400 with details when the input hook rejects the payload', async () => {
+      const validateInput = vi.fn().mockReturnValue({
+        success: false,
+        error: { errors: [{ path: ['input', 'parts', 0, 'data', 'chartType'], message: 'Required' }] },
+      });
+      const checked = createHandlers({
+        tasks: { createTask: mockCreateTask, getTask: mockGetTask, addMessageToTask: mockAddMessageToTask, cancelTask: mockCancelTask, listTasks: mockListTasks },
+        artifacts: { getArtifactsForTask: mockGetArtifactsForTask, getArtifactById: mockGetArtifactById },
+        validateTask: mockValidateTask,
+        validateMessage: mockValidateMessage,
+        validateInput,
+      });
+      mockReq.body = { input: mockTask.input };
+      await checked.handleSendTask(mockReq, mockRes);
+      expect(validateInput).toHaveBeenCalledWith(mockReq.body);
+      expect(mockCreateTask).not.toHaveBeenCalled();
+      expect(mockRes.status).toHaveBeenCalledWith(400);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        error: 'Invalid task input',
+        details: [{ path: ['input', 'parts', 0, 'data', 'chartType'], message: 'Required' }],
+      });
+    });
   });
 
   describe('handleSendSubscribe', () => {
-    it('should create and return a new task', async () => {
+    const createStreamRes = () => ({
+      status: vi.fn().mockReturnThis(),
+      json: vi.fn(),
+      setHeader: vi.fn(),
+      write: vi.fn(),
+      end: vi.fn(),
+    });
+    const framesOf = (res: ReturnType<typeof createStreamRes>) =>
+      res.write.mock.calls.map(([chunk]) => JSON.parse(chunk.replace(/^data: /, '')));
+
+    it('should stream events and end with a final status', async () => {
+      const res = createStreamRes();
+      mockReq.body = { input: mockTask.input };
+      mockCreateTask.mockImplementationOnce(async (_payload, { onEvent }) => {
+        onEvent({ id: 'task-123', status: { state: 'working', timestamp: 't1' }, final: false });
+        onEvent({ id: 'task-123', artifact: { id: 'art-1', type: 'image/svg+xml' } });
+        return { ...mockTask, status: { state: 'completed', timestamp: 't2' } };
+      });
+      await handlers.handleSendSubscribe(mockReq, res);
+      expect(mockCreateTask).toHaveBeenCalledWith({ input: mockTask.input }, expect.objectContaining({ onEvent: expect.any(Function) }));
+      expect(res.setHeader).toHaveBeenCalledWith('Content-Type', 'text/event-stream');
+      const frames = framesOf(res);
+      expect(frames).toHaveLength(3);
+      expect(frames[1].artifact.id).toBe('art-1');
+      expect(frames[2]).toEqual({ id: 'task-123', status: { state: 'completed', timestamp: 't2' }, final: true });
+      expect(res.end).toHaveBeenCalled();
+    });
+
+    it('should not send a second final event', async () => {
+      const res = createStreamRes();
       mockReq.body = { input: mockTask.input };
+      mockCreateTask.mockImplementationOnce(async (_payload, { onEvent }) => {
+        onEvent({ id: 'task-123', status: { state: 'failed', timestamp: 't1' }, final: true });
+        return { ...mockTask, status: { state: 'failed', timestamp: 't1' } };
+      });
+      await handlers.handleSendSubscribe(mockReq, res);
+      expect(framesOf(res)).toHaveLength(1);
+    });
+
+    it('should stream a failed status when task creation throws', async () => {
+      const res = createStreamRes();
+      mockReq.body = { input: mockTask.input };
+      mockCreateTask.mockRejectedValueOnce(new Error('boom'));
+      await handlers.handleSendSubscribe(mockReq, res);
+      const [frame] = framesOf(res);
+      expect(frame.status.state).toBe('failed');
+      expect(frame.status.message.parts[0].text).toBe('boom');
+      expect(frame.final).toBe(true);
+    });
+
+    it('should return 400 for invalid task', async () => {
+      mockValidateTask.mockReturnValueOnce({ success: false, error: { errors: ['Invalid role'] } });
       await handlers.handleSendSubscribe(mockReq, mockRes);
-      expect(mockCreateTask).toHaveBeenCalledWith({ input: mockTask.input });
-      expect(mockRes.status).toHaveBeenCalledWith(201);
-      expect(mockRes.json).toHaveBeenCalledWith(mockTask);
+      expect(mockRes.status).toHaveBeenCalledWith(400);
     });
   });
 
@@ -138,6 +214,20 @@ describe('A2A Server', () => {
       expect(mockRes.status).toHaveBeenCalledWith(404);
       expect(mockRes.json).toHaveBeenCalledWith({ error: 'Task not found' });
     });
+
+    it('should return 502 when the worker agent cannot be reached and 500 for other errors', async () => {
+      mockReq.params.id = 'task-123';
+      mockReq.body = mockMessage;
+      mockAddMessageToTask.mockRejectedValueOnce(new TransportError('POST http://worker/a2a/tasks/remote-1/messages failed: 503'));
+      await handlers.handleSendMessage(mockReq, mockRes);
+      expect(mockRes.status).toHaveBeenCalledWith(502);
+      expect(mockRes.json).toHaveBeenCalledWith({ error: 'POST http://worker/a2a/tasks/remote-1/messages failed: 503' });
+
+      mockAddMessageToTask.mockRejectedValueOnce(new Error('disk full'));
+      await handlers.handleSendMessage(mockReq, mockRes);
+      expect(mockRes.status).toHaveBeenCalledWith(500);
+      expect(mockRes.json).toHaveBeenCalledWith({ error: 'disk full' });
+    });
   });
 
   describe('handleCancelTask', () => {
@@ -146,7 +236,7 @@ describe('A2A Server', () => {
       await handlers.handleCancelTask(mockReq, mockRes);
       expect(mockCancelTask).toHaveBeenCalledWith('task-123');
       expect(mockRes.json).toHaveBeenCalledWith(expect.objectContaining({
-        status: 'canceled',
+        status: expect.objectContaining({ state: 'canceled' }),
       }));
     });
 
@@ -157,6 +247,18 @@ describe('A2A Server', () => {
       expect(mockRes.status).toHaveBeenCalledWith(404);
       expect(mockRes.json).toHaveBeenCalledWith({ error: 'Task not found' });
     });
+
+    it('should return 409 when the task has already finished', async () => {
+      mockReq.params.id = 'task-123';
+      mockCancelTask.mockRejectedValueOnce(new InvalidTransitionError('task-123', 'completed', 'canceled'));
+      await handlers.handleCancelTask(mockReq, mockRes);
+      expect(mockRes.status).toHaveBeenCalledWith(409);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        error: 'Task task-123 is already completed and cannot become canceled',
+        state: 'completed',
+        requestedState: 'canceled',
+      });
+    });
   });
 
   describe('handleGetArtifacts', () => {
@@ -166,6 +268,45 @@ describe('A2A Server', () => {
       expect(mockGetArtifactsForTask).toHaveBeenCalledWith('task-123');
       expect(mockRes.json).toHaveBeenCalledWith([mockArtifact]);
     });
+
+    it('should return the artifacts saved with the task when the artifact store has none (e.g. after a restart)', async () => {
+      mockReq.params.id = 'task-123';
+      const saved = { ...mockArtifact, id: 'art-saved' };
+      mockGetTask.mockResolvedValueOnce({ ...mockTask, artifacts: [saved, mockArtifact] });
+      await handlers.handleGetArtifacts(mockReq, mockRes);
+      expect(mockRes.json).toHaveBeenCalledWith([saved, mockArtifact]);
+
+      mockGetTask.mockResolvedValueOnce({ ...mockTask, artifacts: [saved] });
+      mockGetArtifactsForTask.mockResolvedValueOnce([]);
+      await handlers.handleGetArtifacts(mockReq, mockRes);
+      expect(mockRes.json).toHaveBeenLastCalledWith([saved]);
+    });
+  });
+
+  describe('handleGetArtifact', () => {
+    it('should return the artifact', async () => {
+      mockReq.params = { id: 'task-123', artifactId: 'art-1' } as any;
+      await handlers.handleGetArtifact(mockReq, mockRes);
+      expect(mockGetArtifactById).toHaveBeenCalledWith('task-123', 'art-1');
+      expect(mockRes.json).toHaveBeenCalledWith(mockArtifact);
+    });
+
+    it('should return 404 for an unknown artifact', async () => {
+      mockReq.params = { id: 'task-123', artifactId: 'missing' } as any;
+      mockGetArtifactById.mockResolvedValueOnce(undefined);
+      await handlers.handleGetArtifact(mockReq, mockRes);
+      expect(mockRes.status).toHaveBeenCalledWith(404);
+      expect(mockRes.json).toHaveBeenCalledWith({ error: 'Artifact not found' });
+    });
+
+    it('should find an artifact saved with the task', async () => {
+      mockReq.params = { id: 'task-123', artifactId: 'art-saved' } as any;
+      const saved = { ...mockArtifact, id: 'art-saved' };
+      mockGetArtifactById.mockResolvedValueOnce(undefined);
+      mockGetTask.mockResolvedValueOnce({ ...mockTask, artifacts: [saved] });
+      await handlers.handleGetArtifact(mockReq, mockRes);
+      expect(mockRes.json).toHaveBeenCalledWith(saved);
+    });
   });
 
   describe('handleListTasks', () => {
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { InvalidTransitionError, applyTransition, canTransition, isFinalState } from '../src/taskLifecycle';
+import * as tasks from '../src/tasks';
+import { InMemoryTaskStore } from '../src/taskStore';
+import type { Message, Task } from '../src/types';
+
+const input: Message = { id: 'm1', role: 'user', parts: [{ type: 'text', text: 'hello' }] };
+const reply: Message = { id: 'm2', role: 'agent', parts: [{ type: 'text', text: 'done' }] };
+
+describe('Task lifecycle', () => {
+  beforeEach(() => {
+    tasks.setTaskStore(new InMemoryTaskStore());
+  });
+
+  it('should only allow transitions out of non-final states, and reopening completed tasks', () => {
+    expect(canTransition('submitted', 'working')).toBe(true);
+    expect(canTransition('input-required', 'working')).toBe(true);
+    expect(canTransition('working', 'submitted')).toBe(false);
+    expect(canTransition('completed', 'working')).toBe(true);
+    expect(canTransition('completed', 'input-required')).toBe(false);
+    expect(canTransition('failed', 'working')).toBe(false);
+    expect(canTransition('canceled', 'failed')).toBe(false);
+    expect(isFinalState('completed')).toBe(true);
+    expect(isFinalState('input-required')).toBe(false);
+  });
+
+  it('should record transitions and refresh same-state updates', () => {
+    const task: Task = { id: 't1', input, status: { state: 'working', timestamp: 't0' }, createdAt: 't0', updatedAt: 't0' };
+
+    const progressed = applyTransition(task, 'working', { timestamp: 't1' });
+    expect(progressed.status).toEqual({ state: 'working', timestamp: 't1' });
+    expect(progressed.statusHistory).toBeUndefined();
+
+    const done = applyTransition(progressed, 'completed', { reason: 'chart drawn', message: reply, timestamp: 't2' });
+    expect(done.status).toEqual({ state: 'completed', timestamp: 't2', message: reply });
+    expect(done.statusHistory).toEqual([{ from: 'working', to: 'completed', timestamp: 't2', reason: 'chart drawn', message: reply }]);
+    expect(() => applyTransition(done, 'completed')).toThrow(new InvalidTransitionError('t1', 'completed', 'completed'));
+    expect(() => applyTransition(done, 'input-required')).toThrow(new InvalidTransitionError('t1', 'completed', 'input-required'));
+  });
+
+  it('should enforce the lifecycle in tasks.ts and notify listeners', async () => {
+    const listener = vi.fn();
+    const unsubscribe = tasks.onTaskTransition(listener);
+
+    const task = await tasks.createTask({ input });
+    await tasks.updateTask(task.id, { status: { state: 'working', timestamp: new Date().toISOString() }, progress: 0.5 });
+    const completed = await tasks.updateTask(task.id, { status: { state: 'completed', timestamp: new Date().toISOString(), message: reply } }, 'finished');
+    unsubscribe();
+
+    expect(completed?.statusHistory?.map(({ from, to, reason }) => ({ from, to, reason }))).toEqual([
+      { from: undefined, to: 'submitted', reason: 'created' },
+      { from: 'submitted', to: 'working', reason: undefined },
+      { from: 'working', to: 'completed', reason: 'finished' },
+    ]);
+    expect(listener.mock.calls.map(([, transition]) => transition.to)).toEqual(['submitted', 'working', 'completed']);
+    expect(listener.mock.calls[2][0]).toMatchObject({ id: task.id, status: { state: 'completed' } });
+
+    await expect(tasks.updateTask(task.id, { status: { state: 'failed', timestamp: '' } })).rejects.toBeInstanceOf(InvalidTransitionError);
+    await expect(tasks.cancelTask(task.id)).rejects.toThrow(`Task ${task.id} is already completed and cannot become canceled`);
+    expect((await tasks.getTask(task.id))?.status.state).toBe('completed');
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+
+  it('should cancel running tasks with a reason', async () => {
+    const task = await tasks.createTask({ input });
+    const canceled = await tasks.cancelTask(task.id);
+    expect(canceled?.status.state).toBe('canceled');
+    expect(canceled?.statusHistory?.at(-1)).toMatchObject({ from: 'submitted', to: 'canceled', reason: 'canceled by request' });
+    expect(await tasks.cancelTask('missing')).toBeUndefined();
+  });
+});
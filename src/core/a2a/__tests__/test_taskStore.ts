@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { InMemoryTaskStore, FileTaskStore, createTaskStore } from '../src/taskStore';
+import type { Task } from '../src/types';
+
+const mockTask: Task = {
+  id: 'task-123',
+  status: { state: 'submitted', timestamp: '2024-01-01T00:00:00Z' },
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  input: {
+    id: 'msg-1',
+    role: 'user',
+    parts: [{ type: 'text', text: 'hello' }],
+  },
+};
+
+describe('InMemoryTaskStore', () => {
+  let store: InMemoryTaskStore;
+
+  beforeEach(() => {
+    store = new InMemoryTaskStore();
+  });
+
+  it('should save and get a task', async () => {
+    await store.save(mockTask);
+    expect(await store.get('task-123')).toEqual(mockTask);
+  });
+
+  it('should return copies of stored tasks', async () => {
+    await store.save(mockTask);
+    const task = await store.get('task-123');
+    task!.status.state = 'failed';
+    expect((await store.get('task-123'))!.status.state).toBe('submitted');
+  });
+
+  it('should list and delete tasks', async () => {
+    await store.save(mockTask);
+    await store.save({ ...mockTask, id: 'task-456' });
+    expect(await store.list()).toHaveLength(2);
+    expect(await store.delete('task-123')).toBe(true);
+    expect(await store.delete('task-123')).toBe(false);
+    expect(await store.list()).toHaveLength(1);
+  });
+});
+
+describe('FileTaskStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'task-store-'));
+    filePath = path.join(dir, 'tasks.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should return undefined when the file does not exist yet', async () => {
+    const store = new FileTaskStore(filePath);
+    expect(await store.get('task-123')).toBeUndefined();
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('should persist tasks across store instances', async () => {
+    await new FileTaskStore(filePath).save(mockTask);
+    const reopened = new FileTaskStore(filePath);
+    expect(await reopened.get('task-123')).toEqual(mockTask);
+  });
+
+  it('should persist deletions', async () => {
+    const store = new FileTaskStore(filePath);
+    await store.save(mockTask);
+    await store.delete('task-123');
+    expect(await new FileTaskStore(filePath).list()).toEqual([]);
+  });
+
+  it('should keep every task when saves run concurrently', async () => {
+    const store = new FileTaskStore(filePath);
+    await Promise.all(Array.from({ length: 10 }, (_, i) => store.save({ ...mockTask, id: `task-${i}` })));
+    expect(await new FileTaskStore(filePath).list()).toHaveLength(10);
+  });
+
+  it('should throw on a corrupt store file', async () => {
+    await fs.writeFile(filePath, '{not json');
+    await expect(new FileTaskStore(filePath).list()).rejects.toThrow('Failed to load task store');
+  });
+
+  it('should load the file again after a failed load', async () => {
+    await fs.writeFile(filePath, '{not json');
+    const store = new FileTaskStore(filePath);
+    await expect(store.list()).rejects.toThrow('Failed to load task store');
+    await fs.writeFile(filePath, JSON.stringify({ [mockTask.id]: mockTask }));
+    expect(await store.get('task-123')).toEqual(mockTask);
+  });
+});
+
+describe('createTaskStore', () => {
+  it('should create a file store when a path is given', () => {
+    expect(createTaskStore('/tmp/tasks.json')).toBeInstanceOf(FileTaskStore);
+  });
+
+  it('should create an in-memory store otherwise', () => {
+    expect(createTaskStore('')).toBeInstanceOf(InMemoryTaskStore);
+  });
+});
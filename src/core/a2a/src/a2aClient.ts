@@ -0,0 +1,248 @@
+import { Task, Message, Artifact, TaskStreamEvent, AgentCard, AgentTransport } from './types';
+import { A2ACredentials, AuthError, authHeaders, credentialsForCard } from './auth';
+import { A2AError, A2AErrorDetails, TaskNotFoundError, TransportError, ValidationError } from './errors';
+import { JSON_RPC_ERRORS } from './jsonrpc';
+import { jsonRpcBody, readEventStream, toSendParams } from './client';
+
+export interface A2AClientOptions {
+  /** 'REST' (default) appends `/a2a/...` to the agent's base URL; 'JSONRPC' posts to the endpoint itself */
+  transport?: AgentTransport;
+  /** Headers sent with every request */
+  headers?: Record<string, string>;
+  credentials?: A2ACredentials;
+  /** Time allowed for each attempt, until the response body is read (streams: until the response starts). Default 30 s */
+  timeoutMs?: number;
+  /** Extra attempts for idempotent calls that fail with a TransportError (default 2) */
+  retries?: number;
+  /** Delay before the first retry, doubled for each further one (default 200 ms) */
+  backoffMs?: number;
+  maxBackoffMs?: number;
+}
+
+interface RequestSpec {
+  method: 'GET' | 'POST';
+  url: string;
+  body?: string;
+  headers?: Record<string, string>;
+  /** Safe to send again when no usable answer came back */
+  idempotent: boolean;
+  /** A 404 means the task is unknown (rather than e.g. one of its artifacts) */
+  taskNotFound?: boolean;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function readErrorBody(res: Response): Promise<unknown> {
+  const text = await res.text().catch(() => '');
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text || undefined;
+  }
+}
+
+// Map a failed HTTP response to its typed error, keeping the parsed body
+async function errorFromResponse(res: Response, spec: RequestSpec): Promise<A2AError> {
+  const body = await readErrorBody(res);
+  const reason = typeof (body as any)?.error === 'string' ? (body as any).error : `${res.status} ${res.statusText}`.trim();
+  const message = `${spec.method} ${spec.url} failed: ${reason}`;
+  const details: A2AErrorDetails = { status: res.status, body, url: spec.url };
+  if (res.status === 401 || res.status === 403) {
+    return new AuthError(message, res.headers?.get('www-authenticate') ?? undefined, details);
+  }
+  if (res.status === 404 && spec.taskNotFound) return new TaskNotFoundError(message, details);
+  if (res.status === 400 || res.status === 422) return new ValidationError(message, details);
+  if (res.status === 408 || res.status === 429 || res.status >= 500) return new TransportError(message, details);
+  return new A2AError(message, details);
+}
+
+// Map a JSON-RPC error object to its typed error
+function errorFromRpc(error: { code: number; message: string; data?: unknown }, url: string): A2AError {
+  const details: A2AErrorDetails = { code: error.code, body: error, url };
+  switch (error.code) {
+    case JSON_RPC_ERRORS.TASK_NOT_FOUND:
+      return new TaskNotFoundError(error.message, details);
+    case JSON_RPC_ERRORS.INVALID_PARAMS:
+    case JSON_RPC_ERRORS.INVALID_REQUEST:
+    case JSON_RPC_ERRORS.PARSE_ERROR:
+      return new ValidationError(error.message, details);
+    default:
+      return new A2AError(error.message, details);
+  }
+}
+
+/**
+ * A2A client for one agent, with per-request timeouts, retries with exponential backoff for idempotent
+ * calls (getTask, cancelTask, listTasks and the artifact reads), and typed errors:
+ * TaskNotFoundError, ValidationError, AuthError and TransportError (all A2AErrors carrying the server's
+ * parsed error body). The plain functions in client.ts remain for one-off calls.
+ */
+export class A2AClient {
+  readonly transport: AgentTransport;
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+  private readonly retries: number;
+  private readonly backoffMs: number;
+  private readonly maxBackoffMs: number;
+
+  constructor(readonly endpoint: string, private readonly options: A2AClientOptions = {}) {
+    this.transport = options.transport ?? 'REST';
+    this.baseUrl = endpoint.replace(/\/a2a\/?$/, '').replace(/\/$/, '');
+    this.timeoutMs = options.timeoutMs ?? 30 * 1000;
+    this.retries = options.retries ?? 2;
+    this.backoffMs = options.backoffMs ?? 200;
+    this.maxBackoffMs = options.maxBackoffMs ?? 5 * 1000;
+  }
+
+  /**
+   * Create a client for an agent card, using its preferred transport. `credentials` may be a single
+   * secret, sent the way the card's `authentication` block asks for.
+   */
+  static fromCard(
+    card: AgentCard,
+    { credentials, ...options }: Omit<A2AClientOptions, 'transport' | 'credentials'> & { credentials?: A2ACredentials | string } = {}
+  ): A2AClient {
+    return new A2AClient(card.endpoint, {
+      ...options,
+      transport: card.preferredTransport === 'JSONRPC' ? 'JSONRPC' : 'REST',
+      credentials: typeof credentials === 'string' ? credentialsForCard(card, credentials) : credentials,
+    });
+  }
+
+  /** Send a new task. Not retried: a lost response may still have created the task. */
+  async sendTask(taskPayload: Partial<Task>): Promise<Task> {
+    if (this.transport === 'JSONRPC') return this.rpc('tasks/send', toSendParams(taskPayload), false);
+    return this.json(this.post('/tasks/send', taskPayload, false));
+  }
+
+  async getTask(taskId: string): Promise<Task> {
+    if (this.transport === 'JSONRPC') return this.rpc('tasks/get', { id: taskId }, true);
+    return this.json({ ...this.get(`/tasks/${encodeURIComponent(taskId)}`), taskNotFound: true });
+  }
+
+  /** Send a message to a task (input-required or chat flows). Not retried. */
+  async sendMessage(taskId: string, message: Message): Promise<Task> {
+    if (this.transport === 'JSONRPC') return this.rpc('tasks/send', { id: taskId, message }, false);
+    return this.json({ ...this.post(`/tasks/${encodeURIComponent(taskId)}/messages`, message, false), taskNotFound: true });
+  }
+
+  async cancelTask(taskId: string): Promise<Task> {
+    if (this.transport === 'JSONRPC') return this.rpc('tasks/cancel', { id: taskId }, true);
+    return this.json({ ...this.post(`/tasks/${encodeURIComponent(taskId)}/cancel`, undefined, true), taskNotFound: true });
+  }
+
+  // Listing and artifacts have no JSON-RPC method; they use the REST routes with either transport
+
+  async listTasks(): Promise<Task[]> {
+    return this.json(this.get('/tasks'));
+  }
+
+  async getArtifacts(taskId: string): Promise<Artifact[]> {
+    return this.json(this.get(`/tasks/${encodeURIComponent(taskId)}/artifacts`));
+  }
+
+  async getArtifact(taskId: string, artifactId: string): Promise<Artifact> {
+    return this.json(this.get(`/tasks/${encodeURIComponent(taskId)}/artifacts/${encodeURIComponent(artifactId)}`));
+  }
+
+  /**
+   * Send a task and yield its streamed events. The timeout covers the start of the response only,
+   * and the call is not retried.
+   */
+  async *sendSubscribe(taskPayload: Partial<Task>): AsyncGenerator<TaskStreamEvent> {
+    const jsonRpc = this.transport === 'JSONRPC';
+    const spec: RequestSpec = jsonRpc
+      ? { method: 'POST', url: this.endpoint, body: jsonRpcBody('tasks/sendSubscribe', toSendParams(taskPayload)), idempotent: false }
+      : this.post('/tasks/sendSubscribe', taskPayload, false);
+    const res = await this.request({ ...spec, headers: { Accept: 'text/event-stream' } }, async res => res);
+    // JSON-RPC request-level errors come back as a plain JSON response
+    if (jsonRpc && !res.headers?.get('content-type')?.includes('text/event-stream')) {
+      const response = await res.json();
+      if (response?.error) throw errorFromRpc(response.error, spec.url);
+      return;
+    }
+    if (!res.body) throw new TransportError(`Subscription response from ${spec.url} has no body`, { url: spec.url });
+    for await (const frame of readEventStream<any>(res.body)) {
+      if (!jsonRpc) {
+        yield frame;
+      } else if (frame?.error) {
+        throw errorFromRpc(frame.error, spec.url);
+      } else {
+        yield frame?.result;
+      }
+    }
+  }
+
+  private get(path: string): RequestSpec {
+    return { method: 'GET', url: `${this.baseUrl}/a2a${path}`, idempotent: true };
+  }
+
+  private post(path: string, payload: unknown, idempotent: boolean): RequestSpec {
+    return {
+      method: 'POST',
+      url: `${this.baseUrl}/a2a${path}`,
+      ...(payload !== undefined && { body: JSON.stringify(payload) }),
+      idempotent,
+    };
+  }
+
+  private json<T>(spec: RequestSpec): Promise<T> {
+    return this.request(spec, res => res.json() as Promise<T>);
+  }
+
+  private async rpc<T>(method: string, params: unknown, idempotent: boolean): Promise<T> {
+    const spec: RequestSpec = { method: 'POST', url: this.endpoint, body: jsonRpcBody(method, params), idempotent };
+    const response = await this.request(spec, res => res.json());
+    if (response?.error) throw errorFromRpc(response.error, spec.url);
+    return response?.result as T;
+  }
+
+  /**
+   * Send a request and read its response within the timeout, retrying idempotent requests on
+   * TransportErrors with exponential backoff. Throws the typed error of the last attempt.
+   */
+  private async request<T>(spec: RequestSpec, read: (res: Response) => Promise<T>): Promise<T> {
+    const attempts = spec.idempotent ? this.retries + 1 : 1;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.attempt(spec, read);
+      } catch (err) {
+        if (!(err instanceof TransportError) || attempt >= attempts) throw err;
+        await sleep(Math.min(this.backoffMs * 2 ** (attempt - 1), this.maxBackoffMs));
+      }
+    }
+  }
+
+  private async attempt<T>(spec: RequestSpec, read: (res: Response) => Promise<T>): Promise<T> {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, this.timeoutMs);
+    try {
+      // Auth headers are made per attempt: HMAC signatures carry a timestamp
+      const res = await fetch(spec.url, {
+        method: spec.method,
+        headers: {
+          ...(spec.body !== undefined && { 'Content-Type': 'application/json' }),
+          ...this.options.headers,
+          ...spec.headers,
+          ...authHeaders(this.options.credentials, spec.method, spec.url, spec.body),
+        },
+        ...(spec.body !== undefined && { body: spec.body }),
+        signal: controller.signal,
+      });
+      if (!res.ok) throw await errorFromResponse(res, spec);
+      return await read(res);
+    } catch (err) {
+      if (err instanceof A2AError) throw err;
+      const message = timedOut
+        ? `${spec.method} ${spec.url} timed out after ${this.timeoutMs} ms`
+        : `${spec.method} ${spec.url} failed: ${(err as Error).message}`;
+      throw new TransportError(message, { url: spec.url, cause: err, timedOut });
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
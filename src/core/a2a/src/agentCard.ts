@@ -14,6 +14,9 @@ export function validateAgentCard(card: any): card is AgentCard {
   ) {
     return false;
   }
+  if (card.preferredTransport !== undefined && !['JSONRPC', 'REST'].includes(card.preferredTransport)) {
+    return false;
+  }
   // Validate endpoint is a valid URL
   try {
     new URL(card.endpoint);
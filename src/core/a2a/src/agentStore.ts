@@ -0,0 +1,90 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AgentCard } from './types';
+
+/**
+ * A registered agent: its card, where the card came from, and what the liveness probes last saw.
+ * Timestamps are ISO strings.
+ */
+export interface RegisteredAgent {
+  card: AgentCard;
+  /** URL the card was fetched from, when registered by URL */
+  cardUrl?: string;
+  registeredAt: string;
+  /** Last time the agent answered a probe (or registered); agents unseen for the registry's TTL are evicted */
+  lastSeenAt: string;
+  lastCheckedAt?: string;
+  status: 'up' | 'down';
+  consecutiveFailures: number;
+  lastError?: string;
+  /** Outcome of the latest calls made to the agent (oldest first), used to rank it in queries */
+  recentCalls?: AgentCallRecord[];
+}
+
+export interface AgentCallRecord {
+  ok: boolean;
+  latencyMs: number;
+  at: string;
+}
+
+/**
+ * Storage backend for the agent registry. The registry keeps its entries in memory and
+ * saves a snapshot of all of them after every change.
+ */
+export interface AgentStore {
+  load(): Promise<RegisteredAgent[]>;
+  save(agents: RegisteredAgent[]): Promise<void>;
+}
+
+/**
+ * In-memory agent store. Contents are lost when the process exits.
+ */
+export class InMemoryAgentStore implements AgentStore {
+  private agents: RegisteredAgent[] = [];
+
+  async load(): Promise<RegisteredAgent[]> {
+    return JSON.parse(JSON.stringify(this.agents));
+  }
+
+  async save(agents: RegisteredAgent[]): Promise<void> {
+    this.agents = JSON.parse(JSON.stringify(agents));
+  }
+}
+
+/**
+ * File-backed agent store keeping all entries in one JSON file, rewritten atomically (temp file + rename).
+ */
+export class FileAgentStore implements AgentStore {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async load(): Promise<RegisteredAgent[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (err: any) {
+      if (err?.code === 'ENOENT') return [];
+      throw new Error(`Failed to load agent registry from ${this.filePath}: ${err.message}`);
+    }
+  }
+
+  // Writes are chained so concurrent saves never interleave on disk
+  save(agents: RegisteredAgent[]): Promise<void> {
+    const snapshot = JSON.stringify(agents, null, 2);
+    const write = async () => {
+      const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tmpPath, snapshot, 'utf8');
+      await fs.rename(tmpPath, this.filePath);
+    };
+    this.writeQueue = this.writeQueue.then(write, write);
+    return this.writeQueue;
+  }
+}
+
+/**
+ * Create an agent store: file-backed when a path is given (defaults to AGENT_REGISTRY_PATH), otherwise in-memory.
+ */
+export function createAgentStore(filePath: string | undefined = process.env.AGENT_REGISTRY_PATH): AgentStore {
+  return filePath ? new FileAgentStore(filePath) : new InMemoryAgentStore();
+}
@@ -0,0 +1,312 @@
+// Authentication for A2A endpoints, driven by the AgentCard `authentication` block.
+// The card declares the scheme (and only public settings such as header names); secrets come from the environment.
+import crypto from 'crypto';
+import fs from 'fs';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { z } from 'zod';
+import { AgentCard } from './types';
+import { A2AError, A2AErrorDetails } from './errors';
+
+const JWT_ALGORITHMS = ['HS256', 'HS384', 'HS512', 'RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'ES512'] as const;
+type JwtAlgorithm = typeof JWT_ALGORITHMS[number];
+
+/** The authentication schemes built into the middleware. Extra card settings (e.g. a description) are kept. */
+export const AuthenticationSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('none') }).passthrough(),
+  z.object({
+    type: z.literal('apiKey'),
+    in: z.literal('header').default('header'),
+    /** Header carrying the key */
+    name: z.string().min(1).default('x-api-key'),
+  }).passthrough(),
+  z.object({
+    type: z.literal('bearer'),
+    bearerFormat: z.literal('JWT').default('JWT'),
+    issuer: z.string().optional(),
+    audience: z.string().optional(),
+    /** Accepted signing algorithms (default: HS* with a secret, RS* and ES* with a JWKS) */
+    algorithms: z.array(z.enum(JWT_ALGORITHMS)).min(1).optional(),
+  }).passthrough(),
+  z.object({
+    type: z.literal('hmac'),
+    algorithm: z.enum(['sha256', 'sha512']).default('sha256'),
+    header: z.string().min(1).default('x-signature'),
+    timestampHeader: z.string().min(1).default('x-signature-timestamp'),
+    /** How old (or how far in the future) a signed request may be */
+    maxSkewSeconds: z.number().int().positive().default(300),
+  }).passthrough(),
+]);
+
+export type Authentication = z.output<typeof AuthenticationSchema>;
+
+/** Server-side secrets for the declared scheme. */
+export interface AuthSecrets {
+  apiKeys?: string[];
+  /** Shared secret for HS* JWTs */
+  jwtSecret?: string;
+  /** Public keys for RS* and ES* JWTs, matched by `kid` */
+  jwks?: { keys: (crypto.JsonWebKey & { kid?: string })[] };
+  hmacSecret?: string;
+}
+
+/** Who made an authenticated request, available to handlers as `res.locals.auth`. */
+export interface AuthContext {
+  scheme: string;
+  subject?: string;
+  claims?: Record<string, unknown>;
+}
+
+/** Check a request; return the caller, or throw AuthError. */
+export type AuthVerifier = (req: Request) => AuthContext | Promise<AuthContext>;
+
+export type AuthSchemeFactory = (authentication: any, secrets: AuthSecrets) => AuthVerifier;
+
+/**
+ * A rejected request. On the server `challenge` becomes the `WWW-Authenticate` header of the 401 response;
+ * A2AClient throws it for 401/403 responses, with the challenge the agent sent.
+ */
+export class AuthError extends A2AError {
+  constructor(message: string, public challenge?: string, details?: A2AErrorDetails) {
+    super(message, details);
+    this.name = 'AuthError';
+  }
+}
+
+const sha256 = (value: string | Buffer) => crypto.createHash('sha256').update(value).digest();
+
+// Compare secrets in constant time (hashing first makes the lengths equal)
+const safeEqual = (a: string, b: string) => crypto.timingSafeEqual(sha256(a), sha256(b));
+
+const header = (req: Request, name: string) => {
+  const value = req.headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+// Path and query of the request as the client sent it, e.g. /a2a/tasks/send
+const requestPath = (req: Request) => req.originalUrl || req.url;
+
+// Raw request body kept by `captureRawBody`; signatures cover the exact bytes that were sent
+const rawBody = (req: Request) => ((req as any).rawBody as Buffer | undefined)?.toString('utf8') ?? '';
+
+/**
+ * `verify` hook for `express.json()` that keeps the raw body, needed to check HMAC signatures:
+ * `app.use(express.json({ verify: captureRawBody }))`.
+ */
+export function captureRawBody(req: any, _res: any, buf: Buffer): void {
+  req.rawBody = buf;
+}
+
+/** The string an HMAC signature covers: timestamp, method, path with query, and body, one per line. */
+export function hmacPayload(timestamp: string, method: string, path: string, body: string): string {
+  return `${timestamp}\n${method.toUpperCase()}\n${path}\n${body}`;
+}
+
+export function hmacSignature(secret: string, payload: string, algorithm: 'sha256' | 'sha512' = 'sha256'): string {
+  return crypto.createHmac(algorithm, secret).update(payload).digest('hex');
+}
+
+const apiKeyScheme: AuthSchemeFactory = ({ name }, { apiKeys = [] }) => {
+  if (apiKeys.length === 0) throw new Error('apiKey authentication needs at least one API key (A2A_API_KEYS)');
+  return req => {
+    const key = header(req, name);
+    if (!key) throw new AuthError(`Missing API key (${name} header)`);
+    if (!apiKeys.some(valid => safeEqual(key, valid))) throw new AuthError('Invalid API key');
+    return { scheme: 'apiKey' };
+  };
+};
+
+const base64url = (value: string) => Buffer.from(value, 'base64url');
+
+/**
+ * Verify a JWT's signature and its `exp`, `nbf`, `iss` and `aud` claims; return its claims.
+ * Keys are local: a shared secret for HS* tokens, or a JWKS for RS* and ES* tokens.
+ */
+export function verifyJwt(
+  token: string,
+  { secret, jwks, algorithms, issuer, audience, clockToleranceSeconds = 30 }: {
+    secret?: string;
+    jwks?: AuthSecrets['jwks'];
+    algorithms: readonly JwtAlgorithm[];
+    issuer?: string;
+    audience?: string;
+    clockToleranceSeconds?: number;
+  }
+): Record<string, unknown> {
+  const segments = token.split('.');
+  if (segments.length !== 3) throw new AuthError('Malformed token', 'Bearer error="invalid_token"');
+  let header: { alg?: string; kid?: string };
+  let claims: Record<string, any>;
+  try {
+    header = JSON.parse(base64url(segments[0]).toString('utf8'));
+    claims = JSON.parse(base64url(segments[1]).toString('utf8'));
+  } catch {
+    throw new AuthError('Malformed token', 'Bearer error="invalid_token"');
+  }
+  if (!header || typeof header !== 'object' || !claims || typeof claims !== 'object') {
+    throw new AuthError('Malformed token', 'Bearer error="invalid_token"');
+  }
+  const alg = header.alg as JwtAlgorithm;
+  if (!algorithms.includes(alg)) throw new AuthError(`Token algorithm ${header.alg} is not accepted`, 'Bearer error="invalid_token"');
+
+  const signed = `${segments[0]}.${segments[1]}`;
+  const signature = base64url(segments[2]);
+  const hash = `sha${alg.slice(2)}`;
+  let valid: boolean;
+  if (alg.startsWith('HS')) {
+    if (!secret) throw new AuthError(`No secret for ${alg} tokens`, 'Bearer error="invalid_token"');
+    const expected = crypto.createHmac(hash, secret).update(signed).digest();
+    valid = expected.length === signature.length && crypto.timingSafeEqual(expected, signature);
+  } else {
+    const jwk = jwks?.keys.find(key => header.kid ? key.kid === header.kid : true);
+    if (!jwk) throw new AuthError(`No key for token${header.kid ? ` (kid ${header.kid})` : ''}`, 'Bearer error="invalid_token"');
+    // A malformed JWK, or one whose type does not fit the token's algorithm, fails the token rather than the request
+    try {
+      const key = crypto.createPublicKey({ key: jwk, format: 'jwk' });
+      // JWT ES* signatures are the raw r||s pair rather than DER
+      valid = crypto.verify(hash, Buffer.from(signed), alg.startsWith('ES') ? { key, dsaEncoding: 'ieee-p1363' } : key, signature);
+    } catch {
+      throw new AuthError(`Token key${header.kid ? ` ${header.kid}` : ''} cannot verify ${alg} signatures`, 'Bearer error="invalid_token"');
+    }
+  }
+  if (!valid) throw new AuthError('Invalid token signature', 'Bearer error="invalid_token"');
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp === 'number' && now > claims.exp + clockToleranceSeconds) {
+    throw new AuthError('Token has expired', 'Bearer error="invalid_token", error_description="expired"');
+  }
+  if (typeof claims.nbf === 'number' && now < claims.nbf - clockToleranceSeconds) {
+    throw new AuthError('Token is not valid yet', 'Bearer error="invalid_token"');
+  }
+  if (issuer && claims.iss !== issuer) throw new AuthError('Token issuer is not accepted', 'Bearer error="invalid_token"');
+  if (audience && !(Array.isArray(claims.aud) ? claims.aud : [claims.aud]).includes(audience)) {
+    throw new AuthError('Token audience is not accepted', 'Bearer error="invalid_token"');
+  }
+  return claims;
+}
+
+const bearerScheme: AuthSchemeFactory = ({ issuer, audience, algorithms }, { jwtSecret, jwks }) => {
+  if (!jwtSecret && !jwks?.keys.length) throw new Error('bearer authentication needs a JWT secret (A2A_JWT_SECRET) or a JWKS (A2A_JWKS_PATH)');
+  const accepted: JwtAlgorithm[] = algorithms ?? [
+    ...(jwtSecret ? ['HS256', 'HS384', 'HS512'] as const : []),
+    ...(jwks?.keys.length ? ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'ES512'] as const : []),
+  ];
+  return req => {
+    const [type, token] = (header(req, 'authorization') ?? '').split(' ');
+    if (type?.toLowerCase() !== 'bearer' || !token) throw new AuthError('Missing bearer token', 'Bearer');
+    const claims = verifyJwt(token, { secret: jwtSecret, jwks, algorithms: accepted, issuer, audience });
+    return { scheme: 'bearer', subject: typeof claims.sub === 'string' ? claims.sub : undefined, claims };
+  };
+};
+
+const hmacScheme: AuthSchemeFactory = ({ algorithm, header: signatureHeader, timestampHeader, maxSkewSeconds }, { hmacSecret }) => {
+  if (!hmacSecret) throw new Error('hmac authentication needs a shared secret (A2A_HMAC_SECRET)');
+  return req => {
+    const signature = header(req, signatureHeader);
+    const timestamp = header(req, timestampHeader);
+    if (!signature || !timestamp) throw new AuthError(`Missing request signature (${signatureHeader} and ${timestampHeader} headers)`);
+    if (!/^\d+$/.test(timestamp) || Math.abs(Date.now() / 1000 - Number(timestamp)) > maxSkewSeconds) {
+      throw new AuthError('Request signature has expired');
+    }
+    const expected = hmacSignature(hmacSecret, hmacPayload(timestamp, req.method, requestPath(req), rawBody(req)), algorithm);
+    if (!safeEqual(signature.toLowerCase(), expected)) throw new AuthError('Invalid request signature');
+    return { scheme: 'hmac' };
+  };
+};
+
+const schemes = new Map<string, AuthSchemeFactory>([
+  ['none', () => () => ({ scheme: 'none' })],
+  ['apiKey', apiKeyScheme],
+  ['bearer', bearerScheme],
+  ['hmac', hmacScheme],
+]);
+
+/** Add or replace an authentication scheme, selected by the card's `authentication.type`. */
+export function registerAuthScheme(type: string, factory: AuthSchemeFactory): void {
+  schemes.set(type, factory);
+}
+
+/**
+ * Express middleware enforcing the card's authentication block. Without a block (or with type `none`)
+ * every request passes. Rejected requests get a 401 with `{ error }`; accepted ones carry `res.locals.auth`.
+ * Throws when the scheme is unknown or its secrets are missing, so a misconfigured agent fails at startup
+ * instead of serving unprotected routes.
+ */
+export function createAuthMiddleware(authentication: AgentCard['authentication'], secrets: AuthSecrets = {}): RequestHandler {
+  const type = authentication?.type ?? 'none';
+  const factory = schemes.get(type);
+  if (!factory) throw new Error(`Unknown authentication type '${type}'`);
+  let config: any = authentication ?? { type };
+  if (AuthenticationSchema.options.some(option => option.shape.type.value === type)) {
+    const parsed = AuthenticationSchema.safeParse(config);
+    if (!parsed.success) {
+      throw new Error(`Invalid authentication block: ${parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
+    }
+    config = parsed.data;
+  }
+  const verify = factory(config, secrets);
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.locals.auth = await verify(req);
+    } catch (error) {
+      if (!(error instanceof AuthError)) return next(error);
+      if (error.challenge) res.setHeader('WWW-Authenticate', error.challenge);
+      res.status(401).json({ error: error.message });
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Secrets from the environment: `A2A_API_KEYS` (comma-separated), `A2A_JWT_SECRET`,
+ * `A2A_JWKS_PATH` (a JSON Web Key Set file) and `A2A_HMAC_SECRET`.
+ */
+export function authSecretsFromEnv(env: NodeJS.ProcessEnv = process.env): AuthSecrets {
+  return {
+    apiKeys: env.A2A_API_KEYS?.split(',').map(key => key.trim()).filter(Boolean),
+    jwtSecret: env.A2A_JWT_SECRET || undefined,
+    jwks: env.A2A_JWKS_PATH ? JSON.parse(fs.readFileSync(env.A2A_JWKS_PATH, 'utf8')) : undefined,
+    hmacSecret: env.A2A_HMAC_SECRET || undefined,
+  };
+}
+
+/** Client-side credentials, attached to every request by the A2A client functions. */
+export type A2ACredentials =
+  | { type: 'apiKey'; key: string; name?: string }
+  | { type: 'bearer'; token: string }
+  | { type: 'hmac'; secret: string; algorithm?: 'sha256' | 'sha512'; header?: string; timestampHeader?: string };
+
+/**
+ * Credentials for an agent from a single secret (API key, bearer token or HMAC secret),
+ * shaped by the agent card's authentication block. Undefined when the agent needs none.
+ */
+export function credentialsForCard(card: AgentCard, secret: string): A2ACredentials | undefined {
+  const parsed = AuthenticationSchema.safeParse(card.authentication ?? { type: 'none' });
+  if (!parsed.success) throw new Error(`Unsupported authentication type '${card.authentication?.type}' for agent ${card.id}`);
+  const auth = parsed.data;
+  switch (auth.type) {
+    case 'apiKey': return { type: 'apiKey', key: secret, name: auth.name };
+    case 'bearer': return { type: 'bearer', token: secret };
+    case 'hmac': return { type: 'hmac', secret, algorithm: auth.algorithm, header: auth.header, timestampHeader: auth.timestampHeader };
+    case 'none': return undefined;
+  }
+}
+
+/** Headers carrying the credentials for a request to `url`, signing `body` for HMAC credentials. */
+export function authHeaders(credentials: A2ACredentials | undefined, method: string, url: string, body = ''): Record<string, string> {
+  if (!credentials) return {};
+  switch (credentials.type) {
+    case 'apiKey': return { [credentials.name ?? 'x-api-key']: credentials.key };
+    case 'bearer': return { Authorization: `Bearer ${credentials.token}` };
+    case 'hmac': {
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      const { pathname, search } = new URL(url);
+      const signature = hmacSignature(credentials.secret, hmacPayload(timestamp, method, pathname + search, body), credentials.algorithm);
+      return {
+        [credentials.header ?? 'x-signature']: signature,
+        [credentials.timestampHeader ?? 'x-signature-timestamp']: timestamp,
+      };
+    }
+  }
+}
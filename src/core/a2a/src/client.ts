@@ -1,17 +1,29 @@
-import { Task, Message, Artifact } from './types';
+import { Task, Message, Artifact, TaskStreamEvent, AgentCard, AgentTransport } from './types';
+import { fetchAgentCard } from './agentCard';
+import { A2ACredentials, authHeaders, credentialsForCard } from './auth';
+import { v4 as uuidv4 } from 'uuid';
+
+// Plain GET, with the credentials' headers when there are any
+function getWithAuth(url: string, credentials?: A2ACredentials) {
+  return credentials ? fetch(url, { headers: authHeaders(credentials, 'GET', url) }) : fetch(url);
+}
+
+// POST with the credentials' headers; HMAC credentials sign the body
+function postWithAuth(url: string, headers: Record<string, string>, body?: string, credentials?: A2ACredentials) {
+  return fetch(url, {
+    method: 'POST',
+    headers: { ...headers, ...authHeaders(credentials, 'POST', url, body) },
+    ...(body !== undefined && { body }),
+  });
+}
 
 /**
  * Send a task to a remote agent endpoint using the A2A protocol.
  * Returns the response as a Task (or throws on error).
+ * Every client function takes optional `credentials`, attached as headers (see auth.ts).
  */
-export async function sendTask(endpoint: string, taskPayload: Partial<Task>): Promise<any> {
-  const res = await fetch(`${endpoint}/a2a/tasks/send`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(taskPayload),
-  });
+export async function sendTask(endpoint: string, taskPayload: Partial<Task>, credentials?: A2ACredentials): Promise<any> {
+  const res = await postWithAuth(`${endpoint}/a2a/tasks/send`, { 'Content-Type': 'application/json' }, JSON.stringify(taskPayload), credentials);
   if (!res.ok) {
     const errorBody = await res.text().catch(() => 'Could not read error body from agent response');
     throw new Error(`Failed to send task to ${endpoint}/a2a/tasks/send: ${res.status} ${res.statusText}. Agent response body: ${errorBody}`);
@@ -20,29 +32,61 @@ export async function sendTask(endpoint: string, taskPayload: Partial<Task>): Pr
 }
 
 /**
- * Subscribe to a task (long-running or streaming tasks).
- * Returns a Task or throws on error.
+ * Send a task and subscribe to its updates (long-running or streaming tasks).
+ * Yields TaskStatusUpdateEvent / TaskArtifactUpdateEvent objects read from the SSE stream
+ * until the agent closes it, or throws on error.
  */
-export async function sendSubscribe(endpoint: string, taskPayload: Partial<Task>): Promise<Task> {
-  const res = await fetch(`${endpoint}/a2a/tasks/sendSubscribe`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(taskPayload),
-  });
+export async function* sendSubscribe(endpoint: string, taskPayload: Partial<Task>, credentials?: A2ACredentials): AsyncGenerator<TaskStreamEvent> {
+  const res = await postWithAuth(
+    `${endpoint}/a2a/tasks/sendSubscribe`,
+    { 'Content-Type': 'application/json', 'Accept': 'text/event-stream' },
+    JSON.stringify(taskPayload),
+    credentials
+  );
   if (!res.ok) {
     throw new Error(`Failed to subscribe to task at ${endpoint}: ${res.status}`);
   }
-  return await res.json() as Task;
+  if (!res.body) {
+    throw new Error(`Subscription response from ${endpoint} has no body`);
+  }
+  yield* readEventStream(res.body);
+}
+
+/**
+ * Parse a Server-Sent Events body into JSON events (one per `data:` frame).
+ */
+export async function* readEventStream<T = TaskStreamEvent>(body: ReadableStream<Uint8Array>): AsyncGenerator<T> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done }).replace(/\r\n/g, '\n');
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+        const frame = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        const data = frame
+          .split('\n')
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).trimStart())
+          .join('\n');
+        if (data) yield JSON.parse(data) as T;
+      }
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
 }
 
 /**
  * Get a task by ID from a remote agent.
  * Returns the Task or throws on error.
  */
-export async function getTask(endpoint: string, taskId: string): Promise<Task> {
-  const res = await fetch(`${endpoint}/a2a/tasks/${encodeURIComponent(taskId)}`);
+export async function getTask(endpoint: string, taskId: string, credentials?: A2ACredentials): Promise<Task> {
+  const res = await getWithAuth(`${endpoint}/a2a/tasks/${encodeURIComponent(taskId)}`, credentials);
   if (!res.ok) {
     throw new Error(`Failed to get task ${taskId} from ${endpoint}: ${res.status}`);
   }
@@ -53,14 +97,13 @@ export async function getTask(endpoint: string, taskId: string): Promise<Task> {
  * Send a message to a task (for input-required or chat-like flows).
  * Returns the updated Task or throws on error.
  */
-export async function sendMessage(endpoint: string, taskId: string, message: Message): Promise<Task> {
-  const res = await fetch(`${endpoint}/a2a/tasks/${encodeURIComponent(taskId)}/messages`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(message),
-  });
+export async function sendMessage(endpoint: string, taskId: string, message: Message, credentials?: A2ACredentials): Promise<Task> {
+  const res = await postWithAuth(
+    `${endpoint}/a2a/tasks/${encodeURIComponent(taskId)}/messages`,
+    { 'Content-Type': 'application/json' },
+    JSON.stringify(message),
+    credentials
+  );
   if (!res.ok) {
     throw new Error(`Failed to send message to task ${taskId} at ${endpoint}: ${res.status}`);
   }
@@ -71,13 +114,13 @@ export async function sendMessage(endpoint: string, taskId: string, message: Mes
  * Cancel a running task by ID.
  * Returns the updated Task or throws on error.
  */
-export async function cancelTask(endpoint: string, taskId: string): Promise<Task> {
-  const res = await fetch(`${endpoint}/a2a/tasks/${encodeURIComponent(taskId)}/cancel`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-  });
+export async function cancelTask(endpoint: string, taskId: string, credentials?: A2ACredentials): Promise<Task> {
+  const res = await postWithAuth(
+    `${endpoint}/a2a/tasks/${encodeURIComponent(taskId)}/cancel`,
+    { 'Content-Type': 'application/json' },
+    undefined,
+    credentials
+  );
   if (!res.ok) {
     throw new Error(`Failed to cancel task ${taskId} at ${endpoint}: ${res.status}`);
   }
@@ -88,8 +131,8 @@ export async function cancelTask(endpoint: string, taskId: string): Promise<Task
  * Get artifacts produced by a task.
  * Returns an array of Artifact or throws on error.
  */
-export async function getArtifacts(endpoint: string, taskId: string): Promise<Artifact[]> {
-  const res = await fetch(`${endpoint}/a2a/tasks/${encodeURIComponent(taskId)}/artifacts`);
+export async function getArtifacts(endpoint: string, taskId: string, credentials?: A2ACredentials): Promise<Artifact[]> {
+  const res = await getWithAuth(`${endpoint}/a2a/tasks/${encodeURIComponent(taskId)}/artifacts`, credentials);
   if (!res.ok) {
     throw new Error(`Failed to get artifacts for task ${taskId} from ${endpoint}: ${res.status}`);
   }
@@ -100,8 +143,8 @@ export async function getArtifacts(endpoint: string, taskId: string): Promise<Ar
  * List all tasks for the current user/session (if supported by the agent).
  * Returns an array of Task or throws on error.
  */
-export async function listTasks(endpoint: string): Promise<Task[]> {
-  const res = await fetch(`${endpoint}/a2a/tasks`);
+export async function listTasks(endpoint: string, credentials?: A2ACredentials): Promise<Task[]> {
+  const res = await getWithAuth(`${endpoint}/a2a/tasks`, credentials);
   if (!res.ok) {
     throw new Error(`Failed to list tasks at ${endpoint}: ${res.status}`);
   }
@@ -112,8 +155,8 @@ export async function listTasks(endpoint: string): Promise<Task[]> {
  * Get a specific artifact from a task.
  * Returns the Artifact or throws on error.
  */
-export async function getArtifact(endpoint: string, taskId: string, artifactId: string): Promise<Artifact> {
-  const res = await fetch(`${endpoint}/a2a/tasks/${encodeURIComponent(taskId)}/artifacts/${encodeURIComponent(artifactId)}`);
+export async function getArtifact(endpoint: string, taskId: string, artifactId: string, credentials?: A2ACredentials): Promise<Artifact> {
+  const res = await getWithAuth(`${endpoint}/a2a/tasks/${encodeURIComponent(taskId)}/artifacts/${encodeURIComponent(artifactId)}`, credentials);
   if (!res.ok) {
     throw new Error(`Failed to get artifact ${artifactId} from task ${taskId} at ${endpoint}: ${res.status}`);
   }
@@ -124,12 +167,125 @@ export async function getArtifact(endpoint: string, taskId: string, artifactId:
  * List all artifacts for a task.
  * Returns an array of Artifact or throws on error.
  */
-export async function listArtifacts(endpoint: string, taskId: string): Promise<Artifact[]> {
-  const res = await fetch(`${endpoint}/a2a/tasks/${encodeURIComponent(taskId)}/artifacts`);
+export async function listArtifacts(endpoint: string, taskId: string, credentials?: A2ACredentials): Promise<Artifact[]> {
+  const res = await getWithAuth(`${endpoint}/a2a/tasks/${encodeURIComponent(taskId)}/artifacts`, credentials);
   if (!res.ok) {
     throw new Error(`Failed to list artifacts for task ${taskId} from ${endpoint}: ${res.status}`);
   }
   return await res.json() as Artifact[];
 }
 
-// TODO: Add more A2A client helpers (sendSubscribe, message exchange, etc.) 
\ No newline at end of file
+/**
+ * Error returned by a JSON-RPC endpoint. Carries the JSON-RPC error code and optional data.
+ */
+export class JsonRpcCallError extends Error {
+  constructor(public code: number, message: string, public data?: any) {
+    super(message);
+    this.name = 'JsonRpcCallError';
+  }
+}
+
+export function jsonRpcBody(method: string, params: any) {
+  return JSON.stringify({ jsonrpc: '2.0', id: uuidv4(), method, params });
+}
+
+function unwrapJsonRpc<T>(response: any): T {
+  if (response?.error) {
+    throw new JsonRpcCallError(response.error.code, response.error.message, response.error.data);
+  }
+  return response?.result as T;
+}
+
+// A2A JSON-RPC methods take `message` where the REST payload uses `input`
+export function toSendParams(taskPayload: Partial<Task>) {
+  const { input, ...rest } = taskPayload;
+  return input ? { ...rest, message: input } : rest;
+}
+
+/**
+ * Call a JSON-RPC 2.0 method on an agent's A2A endpoint (e.g., the AgentCard `endpoint`).
+ * Returns the method result, or throws JsonRpcCallError for JSON-RPC errors.
+ */
+export async function callJsonRpc<T = any>(rpcUrl: string, method: string, params?: any, credentials?: A2ACredentials): Promise<T> {
+  const res = await postWithAuth(rpcUrl, { 'Content-Type': 'application/json' }, jsonRpcBody(method, params), credentials);
+  if (!res.ok) {
+    throw new Error(`Failed to call ${method} at ${rpcUrl}: ${res.status}`);
+  }
+  return unwrapJsonRpc<T>(await res.json());
+}
+
+/**
+ * Send a task over JSON-RPC `tasks/sendSubscribe` and yield the streamed events.
+ * Throws JsonRpcCallError if the endpoint rejects the request or streams an error.
+ */
+export async function* sendSubscribeJsonRpc(rpcUrl: string, taskPayload: Partial<Task>, credentials?: A2ACredentials): AsyncGenerator<TaskStreamEvent> {
+  const res = await postWithAuth(
+    rpcUrl,
+    { 'Content-Type': 'application/json', 'Accept': 'text/event-stream' },
+    jsonRpcBody('tasks/sendSubscribe', toSendParams(taskPayload)),
+    credentials
+  );
+  if (!res.ok) {
+    throw new Error(`Failed to subscribe to task at ${rpcUrl}: ${res.status}`);
+  }
+  // Request-level errors (invalid params, etc.) come back as a plain JSON-RPC response
+  if (!res.headers?.get('content-type')?.includes('text/event-stream')) {
+    unwrapJsonRpc(await res.json());
+    return;
+  }
+  if (!res.body) {
+    throw new Error(`Subscription response from ${rpcUrl} has no body`);
+  }
+  for await (const frame of readEventStream<any>(res.body)) {
+    yield unwrapJsonRpc<TaskStreamEvent>(frame);
+  }
+}
+
+/**
+ * Transport-independent connection to a remote agent, created from its AgentCard.
+ */
+export interface AgentConnection {
+  card: AgentCard;
+  transport: AgentTransport;
+  sendTask(taskPayload: Partial<Task>): Promise<Task>;
+  sendSubscribe(taskPayload: Partial<Task>): AsyncGenerator<TaskStreamEvent>;
+  getTask(taskId: string): Promise<Task>;
+  cancelTask(taskId: string): Promise<Task>;
+}
+
+/**
+ * Create a connection that speaks the card's `preferredTransport` (REST when absent).
+ * JSON-RPC calls go to the card endpoint itself; REST helpers append `/a2a/...` to the agent's base URL.
+ * Credentials are attached to every call: either ready-made, or a single secret (API key, token or
+ * HMAC secret) that is sent the way the card's `authentication` block asks for.
+ */
+export function createAgentConnection(card: AgentCard, credentials?: A2ACredentials | string): AgentConnection {
+  const transport: AgentTransport = card.preferredTransport === 'JSONRPC' ? 'JSONRPC' : 'REST';
+  const auth = typeof credentials === 'string' ? credentialsForCard(card, credentials) : credentials;
+  if (transport === 'JSONRPC') {
+    return {
+      card,
+      transport,
+      sendTask: taskPayload => callJsonRpc<Task>(card.endpoint, 'tasks/send', toSendParams(taskPayload), auth),
+      sendSubscribe: taskPayload => sendSubscribeJsonRpc(card.endpoint, taskPayload, auth),
+      getTask: taskId => callJsonRpc<Task>(card.endpoint, 'tasks/get', { id: taskId }, auth),
+      cancelTask: taskId => callJsonRpc<Task>(card.endpoint, 'tasks/cancel', { id: taskId }, auth),
+    };
+  }
+  const baseUrl = card.endpoint.replace(/\/a2a\/?$/, '');
+  return {
+    card,
+    transport,
+    sendTask: taskPayload => sendTask(baseUrl, taskPayload, auth),
+    sendSubscribe: taskPayload => sendSubscribe(baseUrl, taskPayload, auth),
+    getTask: taskId => getTask(baseUrl, taskId, auth),
+    cancelTask: taskId => cancelTask(baseUrl, taskId, auth),
+  };
+}
+
+/**
+ * Fetch an agent's card (e.g., /.well-known/agent.json) and connect using its preferred transport.
+ */
+export async function connectToAgent(cardUrl: string, credentials?: A2ACredentials | string): Promise<AgentConnection> {
+  return createAgentConnection(await fetchAgentCard(cardUrl), credentials);
+}
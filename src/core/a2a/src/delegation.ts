@@ -0,0 +1,242 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AgentCard, Artifact, CreateTaskOptions, Message, Task } from './types';
+import { AgentRegistry } from './registry';
+import { A2ACredentials } from './auth';
+import { A2AClient } from './a2aClient';
+import { A2AError, TransportError } from './errors';
+import { getMessageMimeTypes } from './message';
+import { InvalidTransitionError } from './taskLifecycle';
+import { ArtifactsModule, TasksModule } from './server';
+import * as localTasks from './tasks';
+import * as localArtifacts from './artifacts';
+
+/**
+ * Where a delegated task went, kept in the local task's `metadata.delegation`.
+ */
+export interface DelegationInfo {
+  /** The worker that took the task; absent when no agent could */
+  agentId?: string;
+  remoteTaskId?: string;
+  /** Agents tried before `agentId`, with the error each one raised */
+  failedAttempts: { agentId: string; error: string }[];
+}
+
+/** The calls made to a worker; both A2AClient and AgentConnection provide them */
+export type WorkerConnection = Pick<A2AClient, 'sendTask' | 'getTask' | 'sendMessage' | 'cancelTask'>;
+
+export interface DelegationDeps {
+  registry: AgentRegistry;
+  /** Capability used for tasks that do not list any in `capabilities` (default ORCHESTRATOR_DEFAULT_CAPABILITY) */
+  defaultCapability?: string;
+  /** Credentials (or a single secret) for calling a worker (default: its entry in A2A_WORKER_SECRETS, none otherwise) */
+  credentialsFor?: (card: AgentCard) => A2ACredentials | string | undefined;
+  /** Open a connection to a worker (default A2AClient.fromCard, with its timeouts and retries) */
+  connect?: (card: AgentCard, credentials?: A2ACredentials | string) => WorkerConnection;
+  /** Local task storage that mirrors the remote tasks (default tasks.ts) */
+  tasks?: typeof localTasks;
+}
+
+const FINAL_STATES = new Set(['completed', 'failed', 'canceled']);
+
+function agentMessage(text: string): Message {
+  return { id: uuidv4(), role: 'agent', parts: [{ type: 'text', text }] };
+}
+
+// Network errors raised before the request reached the worker
+const UNSENT_ERROR_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EHOSTUNREACH', 'ENETUNREACH']);
+
+/**
+ * Whether a failed sendTask proves the worker did not take the task: it answered with an error (HTTP 4xx/5xx
+ * or a JSON-RPC error), or the request never reached it. After a timeout or a dropped connection the worker
+ * may be running the task already.
+ */
+function wasNotTaken(err: unknown): boolean {
+  if (!(err instanceof A2AError)) return false;
+  if (err.status !== undefined || err.code !== undefined) return true;
+  if (!(err instanceof TransportError) || err.timedOut) return false;
+  for (let cause: any = err.cause; cause; cause = cause.cause) {
+    if (UNSENT_ERROR_CODES.has(cause.code)) return true;
+  }
+  return false;
+}
+
+function delegationOf(task: Task): DelegationInfo | undefined {
+  return task.metadata?.delegation as DelegationInfo | undefined;
+}
+
+// Copy the remote task's progress (but not its status) onto the local task, keeping the local id and input
+function progressOf(remote: Task): Partial<Task> {
+  return {
+    ...(remote.output && { output: remote.output }),
+    ...(remote.result && { result: remote.result }),
+    ...(remote.artifacts && { artifacts: remote.artifacts }),
+    ...(remote.progress !== undefined && { progress: remote.progress }),
+  };
+}
+
+/**
+ * Per-worker secrets from `A2A_WORKER_SECRETS`, a JSON object keyed by agent id. Each secret is sent only to
+ * its own agent, the way the agent's card asks for; agents without an entry are called without credentials.
+ */
+export function workerSecretsFromEnv(env: NodeJS.ProcessEnv = process.env): Record<string, string> {
+  if (!env.A2A_WORKER_SECRETS) return {};
+  const secrets = JSON.parse(env.A2A_WORKER_SECRETS);
+  if (!secrets || typeof secrets !== 'object' || Array.isArray(secrets) || Object.values(secrets).some(secret => typeof secret !== 'string')) {
+    throw new Error('A2A_WORKER_SECRETS must be a JSON object mapping agent ids to secrets');
+  }
+  return secrets;
+}
+
+/**
+ * Create task and artifact modules for `createHandlers` / `createJsonRpcHandler` that delegate every new task
+ * to a worker agent instead of running it locally.
+ *
+ * A worker is picked from the registry by the task's `capabilities` (all of them must match) and the MIME
+ * types of its input, best ranked first. The task is forwarded with the worker's preferred transport; when the call fails, the next
+ * matching agent is tried. The local task records the worker in `assignedTo` and mirrors the remote task's
+ * status, output and artifacts, refreshed on every read until the remote task is final.
+ */
+export function createDelegation({
+  registry,
+  defaultCapability = process.env.ORCHESTRATOR_DEFAULT_CAPABILITY,
+  credentialsFor,
+  connect = (card, credentials) => A2AClient.fromCard(card, { credentials }),
+  tasks = localTasks,
+}: DelegationDeps): { tasks: TasksModule; artifacts: ArtifactsModule } {
+  const workerSecrets = credentialsFor ? {} : workerSecretsFromEnv();
+  const credentialsOf = credentialsFor ?? ((card: AgentCard) => workerSecrets[card.id]);
+  const connectTo = (card: AgentCard) => connect(card, credentialsOf(card));
+
+  // Mirror the remote task onto the local one. A remote status the local lifecycle cannot take (e.g. the
+  // local copy is already final) is left out; the rest of the remote progress is still copied.
+  const mirror = async (id: string, remote: Task, reason: string, updates: Partial<Task> = {}) => {
+    try {
+      return await tasks.updateTask(id, { ...progressOf(remote), ...updates, status: remote.status }, reason);
+    } catch (err) {
+      if (!(err instanceof InvalidTransitionError)) throw err;
+      return tasks.updateTask(id, { ...progressOf(remote), ...updates }, reason);
+    }
+  };
+
+  // Matching workers, best ranked first (see AgentRegistry.query)
+  const candidatesFor = (capabilities: string[], input: Message): AgentCard[] =>
+    registry.query({ capabilities, inputModes: getMessageMimeTypes(input) }).map(match => match.card);
+
+  // Re-read a delegated task from its worker while it is still running
+  const refresh = async (task: Task): Promise<Task> => {
+    const delegation = delegationOf(task);
+    if (!delegation?.agentId || !delegation.remoteTaskId || FINAL_STATES.has(task.status.state)) return task;
+    const card = registry.getById(delegation.agentId);
+    if (!card) return task;
+    try {
+      const remote = await connectTo(card).getTask(delegation.remoteTaskId);
+      return (await mirror(task.id, remote, `reported by ${card.id}`)) ?? task;
+    } catch (err) {
+      console.warn(`⚠️ Could not refresh task ${task.id} from agent ${card.id}: ${(err as Error).message}`);
+      return task;
+    }
+  };
+
+  const delegatedTasks: TasksModule = {
+    async createTask(payload: Partial<Task> & { input: Message }, options: CreateTaskOptions = {}): Promise<Task> {
+      const capabilities = payload.capabilities?.length
+        ? payload.capabilities
+        : defaultCapability ? [defaultCapability] : [];
+      if (capabilities.length === 0) {
+        throw new Error('Task has no capabilities to route on');
+      }
+      const { id: _id, status: _status, createdAt: _createdAt, updatedAt: _updatedAt, ...forwarded } = payload as Partial<Task>;
+      const task = await tasks.createTask({ ...payload, capabilities });
+
+      const failedAttempts: DelegationInfo['failedAttempts'] = [];
+      let taken: { card: AgentCard; remote: Task } | undefined;
+      let undecided = false;
+      // Failover: a worker that did not take the task (unreachable, rejected the call) hands it to the next one.
+      // When that is unclear (e.g. the call timed out) the task is not sent again, so it cannot run twice.
+      for (const card of candidatesFor(capabilities, payload.input)) {
+        const startedAt = Date.now();
+        try {
+          taken = { card, remote: await connectTo(card).sendTask(forwarded) };
+          registry.recordCall(card.id, true, Date.now() - startedAt);
+          break;
+        } catch (err) {
+          registry.recordCall(card.id, false, Date.now() - startedAt);
+          console.warn(`⚠️ Agent ${card.id} failed to take task ${task.id}: ${(err as Error).message}`);
+          failedAttempts.push({ agentId: card.id, error: (err as Error).message });
+          if (!wasNotTaken(err)) {
+            undecided = true;
+            break;
+          }
+        }
+      }
+
+      if (taken) {
+        const { card, remote } = taken;
+        const delegation: DelegationInfo = { agentId: card.id, remoteTaskId: remote.id, failedAttempts };
+        const updated = await mirror(task.id, remote, `delegated to ${card.id}`, {
+          assignedTo: card.id,
+          endpoint: card.endpoint,
+          metadata: { ...task.metadata, delegation },
+        });
+        options.onEvent?.({ id: task.id, status: remote.status, final: FINAL_STATES.has(remote.status.state) });
+        return updated ?? task;
+      }
+
+      const last = failedAttempts[failedAttempts.length - 1];
+      const reason = failedAttempts.length === 0
+        ? `No agent registered with capabilities: ${capabilities.join(', ')}`
+        : undecided
+          ? `Agent ${last.agentId} may have taken the task, so it was not sent to another agent: ${last.error}`
+          : `All ${failedAttempts.length} matching agents failed: ${failedAttempts.map(a => `${a.agentId} (${a.error})`).join('; ')}`;
+      const status = { state: 'failed' as const, timestamp: new Date().toISOString(), message: agentMessage(reason) };
+      options.onEvent?.({ id: task.id, status, final: true });
+      return (await tasks.updateTask(task.id, { status, metadata: { ...task.metadata, delegation: { failedAttempts } } }, 'no agent could take the task')) ?? task;
+    },
+
+    async getTask(id: string) {
+      const task = await tasks.getTask(id);
+      return task && refresh(task);
+    },
+
+    async addMessageToTask(id: string, message: Message) {
+      const task = await tasks.getTask(id);
+      const delegation = task && delegationOf(task);
+      const card = delegation?.agentId ? registry.getById(delegation.agentId) : undefined;
+      if (!delegation?.remoteTaskId || !card) return tasks.addMessageToTask(id, message);
+      // Continue the remote task (input-required / chat flows), then mirror it
+      const remote = await connectTo(card).sendMessage(delegation.remoteTaskId, message);
+      await tasks.addMessageToTask(id, message);
+      return mirror(id, remote, `reported by ${card.id}`);
+    },
+
+    async cancelTask(id: string) {
+      const task = await tasks.getTask(id);
+      const delegation = task && delegationOf(task);
+      const card = delegation?.agentId ? registry.getById(delegation.agentId) : undefined;
+      if (task && delegation?.remoteTaskId && card && !FINAL_STATES.has(task.status.state)) {
+        await connectTo(card).cancelTask(delegation.remoteTaskId).catch(err =>
+          console.warn(`⚠️ Could not cancel task ${id} on agent ${card.id}: ${(err as Error).message}`));
+      }
+      return tasks.cancelTask(id);
+    },
+
+    async listTasks() {
+      return tasks.listTasks();
+    },
+  };
+
+  const delegatedArtifacts: ArtifactsModule = {
+    // Delegated tasks carry their worker's artifacts; the rest use the local artifact store
+    async getArtifactsForTask(taskId: string): Promise<Artifact[]> {
+      const task = await delegatedTasks.getTask(taskId);
+      return task?.artifacts ?? localArtifacts.getArtifactsForTask(taskId);
+    },
+
+    async getArtifactById(taskId: string, artifactId: string): Promise<Artifact | undefined> {
+      const taskArtifacts = await delegatedArtifacts.getArtifactsForTask(taskId);
+      return taskArtifacts.find((artifact: Artifact) => artifact.id === artifactId);
+    },
+  };
+
+  return { tasks: delegatedTasks, artifacts: delegatedArtifacts };
+}
@@ -0,0 +1,60 @@
+/**
+ * Details of a failed A2A call, kept on every A2AError.
+ */
+export interface A2AErrorDetails {
+  /** HTTP status of the response, when there was one */
+  status?: number;
+  /** JSON-RPC error code, for errors returned by a JSON-RPC endpoint */
+  code?: number;
+  /** Parsed error body sent by the server (JSON when it parses, text otherwise) */
+  body?: unknown;
+  url?: string;
+  cause?: unknown;
+}
+
+/**
+ * Base class of the errors thrown by A2AClient.
+ */
+export class A2AError extends Error {
+  status?: number;
+  code?: number;
+  body?: unknown;
+  url?: string;
+  cause?: unknown;
+
+  constructor(message: string, details: A2AErrorDetails = {}) {
+    super(message);
+    this.name = 'A2AError';
+    Object.assign(this, details);
+  }
+}
+
+/** The task (HTTP 404, JSON-RPC -32001) does not exist on the agent. */
+export class TaskNotFoundError extends A2AError {
+  constructor(message: string, details?: A2AErrorDetails) {
+    super(message, details);
+    this.name = 'TaskNotFoundError';
+  }
+}
+
+/** The agent rejected the request as invalid (HTTP 400/422, JSON-RPC -32600/-32602). */
+export class ValidationError extends A2AError {
+  constructor(message: string, details?: A2AErrorDetails) {
+    super(message, details);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * The request got no usable answer: a network failure, a timeout, or an HTTP 408, 429 or 5xx response.
+ * These are the errors A2AClient retries for idempotent calls.
+ */
+export class TransportError extends A2AError {
+  timedOut: boolean;
+
+  constructor(message: string, details?: A2AErrorDetails & { timedOut?: boolean }) {
+    super(message, details);
+    this.name = 'TransportError';
+    this.timedOut = details?.timedOut ?? false;
+  }
+}
@@ -1,10 +1,30 @@
 export * from './types';
 export * from './server';
-export { sendTask, getTask, listTasks, cancelTask } from './client';
+export * from './jsonrpc';
+export {
+  sendTask,
+  sendSubscribe,
+  getTask,
+  listTasks,
+  cancelTask,
+  callJsonRpc,
+  sendSubscribeJsonRpc,
+  JsonRpcCallError,
+  createAgentConnection,
+  connectToAgent,
+} from './client';
+export type { AgentConnection } from './client';
+export * from './a2aClient';
+export * from './errors';
 export * from './message';
 export { validateAgentCard, fetchAgentCard } from './agentCard';
 export * from './artifacts';
+export * from './taskStore';
+export * from './taskLifecycle';
 export * from './middleware';
-export * from './router';
 export * from './schema';
-export * from './registry'; 
\ No newline at end of file
+export * from './registry';
+export * from './agentStore';
+export { createRegistryHandlers, agentRegistry } from './registryServer';
+export * from './delegation';
+export * from './auth'; 
\ No newline at end of file
@@ -0,0 +1,184 @@
+import { Task, TaskStreamEvent } from './types';
+import { CreateHandlersDeps, streamTask } from './server';
+import * as tasks from './tasks';
+import * as artifacts from './artifacts';
+import { validateTask, validateMessage } from './schema';
+import { InvalidTransitionError } from './taskLifecycle';
+
+// JSON-RPC 2.0 and A2A error codes
+export const JSON_RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  TASK_NOT_FOUND: -32001,
+  TASK_NOT_CANCELABLE: -32002,
+  /** A message for a task whose state cannot take it (e.g. a canceled task) */
+  TASK_STATE_CONFLICT: -32010,
+} as const;
+
+export type JsonRpcId = string | number | null;
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: JsonRpcId;
+  method: string;
+  params?: any;
+}
+
+export interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: any;
+}
+
+export interface JsonRpcResponse<T = any> {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  result?: T;
+  error?: JsonRpcError;
+}
+
+/**
+ * Error thrown by method implementations to produce a JSON-RPC error response.
+ */
+class RpcError extends Error {
+  constructor(public code: number, message: string, public data?: any) {
+    super(message);
+    this.name = 'RpcError';
+  }
+}
+
+export function jsonRpcResult<T>(id: JsonRpcId, result: T): JsonRpcResponse<T> {
+  return { jsonrpc: '2.0', id, result };
+}
+
+export function jsonRpcError(id: JsonRpcId, code: number, message: string, data?: any): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: { code, message, ...(data !== undefined && { data }) } };
+}
+
+/**
+ * Convert A2A `TaskSendParams` ({ id?, sessionId?, message, metadata? }) into the task payload used by the
+ * REST handlers ({ input, ... }). Payloads that already use `input` are passed through unchanged.
+ */
+function toTaskPayload(params: any): any {
+  if (!params || typeof params !== 'object') return params;
+  if (params.input || !params.message) return params;
+  const { message, ...rest } = params;
+  return { ...rest, input: message };
+}
+
+function requireTaskId(params: any): string {
+  if (!params || typeof params.id !== 'string' || !params.id) {
+    throw new RpcError(JSON_RPC_ERRORS.INVALID_PARAMS, 'Invalid params: "id" is required');
+  }
+  return params.id;
+}
+
+/**
+ * Create the JSON-RPC 2.0 dispatcher for the single A2A endpoint (POST /).
+ * Supports tasks/send, tasks/get, tasks/cancel and tasks/sendSubscribe (streamed over SSE).
+ */
+export function createJsonRpcHandler({ tasks, validateTask, validateMessage, validateInput }: CreateHandlersDeps) {
+  const validatePayload = (payload: any) => {
+    const validation = validateTask({ ...payload, id: 'temp', createdAt: '', updatedAt: '', status: { state: 'submitted', timestamp: '' } });
+    if (!validation.success) {
+      throw new RpcError(JSON_RPC_ERRORS.INVALID_PARAMS, 'Invalid task', validation.error.errors);
+    }
+    const inputValidation = validateInput?.(payload);
+    if (inputValidation && !inputValidation.success) {
+      throw new RpcError(JSON_RPC_ERRORS.INVALID_PARAMS, 'Invalid task input', inputValidation.error.errors);
+    }
+  };
+
+  // Answer a status change the task lifecycle refused with `code`, carrying the task's current state
+  const refusedTransition = (code: number) => (err: unknown): never => {
+    if (err instanceof InvalidTransitionError) throw new RpcError(code, err.message, { state: err.from });
+    throw err;
+  };
+
+  const methods: Record<string, (params: any) => Promise<Task>> = {
+    async 'tasks/send'(params) {
+      const payload = toTaskPayload(params);
+      // A send for a known task ID continues that task (input-required / chat flows). New tasks get their
+      // ID from the server, so an unknown one is refused rather than replaced.
+      if (typeof payload?.id === 'string') {
+        if (!(await tasks.getTask(payload.id))) {
+          throw new RpcError(JSON_RPC_ERRORS.INVALID_PARAMS, `Task ${payload.id} not found; omit "id" to create a new task`);
+        }
+        const validation = validateMessage(payload.input);
+        if (!validation.success) {
+          throw new RpcError(JSON_RPC_ERRORS.INVALID_PARAMS, 'Invalid message', validation.error.errors);
+        }
+        const updated = await tasks.addMessageToTask(payload.id, payload.input)
+          .catch(refusedTransition(JSON_RPC_ERRORS.TASK_STATE_CONFLICT));
+        if (!updated) throw new RpcError(JSON_RPC_ERRORS.TASK_NOT_FOUND, 'Task not found');
+        return updated;
+      }
+      validatePayload(payload);
+      return tasks.createTask(payload);
+    },
+
+    async 'tasks/get'(params) {
+      const task = await tasks.getTask(requireTaskId(params));
+      if (!task) throw new RpcError(JSON_RPC_ERRORS.TASK_NOT_FOUND, 'Task not found');
+      return task;
+    },
+
+    async 'tasks/cancel'(params) {
+      const task = await tasks.cancelTask(requireTaskId(params))
+        .catch(refusedTransition(JSON_RPC_ERRORS.TASK_NOT_CANCELABLE));
+      if (!task) throw new RpcError(JSON_RPC_ERRORS.TASK_NOT_FOUND, 'Task not found');
+      return task;
+    },
+  };
+
+  /**
+   * Handler for POST / (JSON-RPC 2.0)
+   * Errors are returned as JSON-RPC error objects with HTTP 200, per the JSON-RPC over HTTP convention.
+   */
+  return async function handleJsonRpc(req: any, res: any) {
+    const body = req.body;
+    const id: JsonRpcId = body && typeof body === 'object' && 'id' in body ? body.id ?? null : null;
+
+    if (Array.isArray(body)) {
+      return res.json(jsonRpcError(null, JSON_RPC_ERRORS.INVALID_REQUEST, 'Batch requests are not supported'));
+    }
+    if (!body || typeof body !== 'object' || body.jsonrpc !== '2.0' || typeof body.method !== 'string') {
+      return res.json(jsonRpcError(id, JSON_RPC_ERRORS.INVALID_REQUEST, 'Invalid Request'));
+    }
+
+    const { method, params } = body as JsonRpcRequest;
+    try {
+      if (method === 'tasks/sendSubscribe') {
+        const payload = toTaskPayload(params);
+        validatePayload(payload);
+        return await streamTask(tasks, payload, res, (event: TaskStreamEvent) => jsonRpcResult(id, event));
+      }
+      const impl = Object.prototype.hasOwnProperty.call(methods, method) ? methods[method] : undefined;
+      if (!impl) {
+        return res.json(jsonRpcError(id, JSON_RPC_ERRORS.METHOD_NOT_FOUND, `Method not found: ${method}`));
+      }
+      res.json(jsonRpcResult(id, await impl(params)));
+    } catch (err) {
+      if (err instanceof RpcError) {
+        return res.json(jsonRpcError(id, err.code, err.message, err.data));
+      }
+      res.json(jsonRpcError(id, JSON_RPC_ERRORS.INTERNAL_ERROR, (err as Error).message));
+    }
+  };
+}
+
+/**
+ * Express error handler for the JSON-RPC endpoint (POST / of the router it is mounted with): a body that is not
+ * valid JSON (rejected by express.json) gets a Parse error (-32700) response instead of an HTTP 400. Register it
+ * after the parser, on the same router or on the app at the router's mount path.
+ */
+export function handleJsonRpcParseError(err: any, req: any, res: any, next: (err?: any) => void) {
+  if (err?.type !== 'entity.parse.failed' || req.method !== 'POST' || req.path !== '/') return next(err);
+  res.json(jsonRpcError(null, JSON_RPC_ERRORS.PARSE_ERROR, 'Parse error'));
+}
+
+// Default JSON-RPC handler for production use
+export const handleJsonRpc = createJsonRpcHandler({ tasks, artifacts, validateTask, validateMessage });
@@ -1,4 +1,4 @@
-import { FilePart, DataPart } from './types';
+import { FilePart, DataPart, Message, Part } from './types';
 
 /**
  * Encode a file as a FilePart (base64 encoding).
@@ -39,4 +39,20 @@ export function decodeDataPart(part: DataPart): any {
   } catch {
     return part.data;
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Get the MIME type of a part: `text/plain` for text, the content type of a file, the declared type of data.
+ */
+export function getPartMimeType(part: Part): string {
+  if (part.type === 'text') return 'text/plain';
+  if (part.type === 'file') return part.contentType;
+  return part.mimeType;
+}
+
+/**
+ * Get the distinct MIME types of a message's parts.
+ */
+export function getMessageMimeTypes(message: Message): string[] {
+  return [...new Set(message.parts.map(getPartMimeType))];
+}
@@ -1,44 +1,319 @@
 import { AgentCard, AgentCapability } from './types';
-import { validateAgentCard } from './agentCard';
+import { validateAgentCard, fetchAgentCard } from './agentCard';
+import { AgentStore, InMemoryAgentStore, RegisteredAgent } from './agentStore';
 
 /**
- * In-memory registry for agent cards.
- * Extend for persistent storage as needed.
+ * What an agent must offer to match a query. Every listed capability, skill and input MIME type is required.
+ */
+export interface AgentQuery {
+  capabilities?: string[];
+  skills?: string[];
+  /** MIME types of the task's input parts (see getMessageMimeTypes), matched against the card's `defaultInputModes` */
+  inputModes?: string[];
+  /** Leave out agents whose last probe failed (default false: they are ranked last) */
+  excludeDown?: boolean;
+}
+
+/**
+ * A query match, with the call statistics it was ranked by.
+ */
+export interface AgentMatch extends RegisteredAgent {
+  /** Share of recent calls that succeeded; undefined before the first call */
+  successRate?: number;
+  averageLatencyMs?: number;
+}
+
+export interface AgentRegistryOptions {
+  /** Where entries are saved (default: in memory) */
+  store?: AgentStore;
+  /** Evict agents that have not answered a probe for this long (default AGENT_REGISTRY_TTL_MS, or 5 minutes) */
+  ttlMs?: number;
+  /** Time between liveness probes once `start()` is called (default 30 seconds) */
+  probeIntervalMs?: number;
+  /** How long a probe may take before the agent counts as down (default 5 seconds) */
+  probeTimeoutMs?: number;
+  /** Liveness check for one agent; resolves true when it is up. Defaults to an HTTP GET of the card's endpoint. */
+  probe?: (card: AgentCard, timeoutMs: number) => Promise<boolean>;
+  /** Fetch and validate a card by URL (default fetchAgentCard) */
+  fetchCard?: (cardUrl: string) => Promise<AgentCard>;
+}
+
+const DEFAULT_TTL_MS = 5 * 60 * 1000;
+// Calls kept per agent for its success rate and latency
+const RECENT_CALLS = 20;
+
+// A declared input mode accepts a MIME type exactly, by `type/*` or by `*/*`
+function acceptsMimeType(modes: string[], mimeType: string): boolean {
+  const [type] = mimeType.split('/');
+  return modes.some(mode => mode === '*/*' || mode === mimeType || mode === `${type}/*`);
+}
+
+/**
+ * Compare dotted versions numerically (1.10.0 > 1.9.2); a missing version sorts lowest.
+ */
+export function compareVersions(a?: string, b?: string): number {
+  if (!a || !b) return (a ? 1 : 0) - (b ? 1 : 0);
+  const left = a.replace(/^v/, '').split(/[.-]/);
+  const right = b.replace(/^v/, '').split(/[.-]/);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const [x, y] = [left[i] ?? '0', right[i] ?? '0'];
+    const diff = /^\d+$/.test(x) && /^\d+$/.test(y) ? Number(x) - Number(y) : x.localeCompare(y);
+    if (diff !== 0) return Math.sign(diff);
+  }
+  return 0;
+}
+
+/**
+ * An agent is up when its endpoint answers at all without a server error. A2A endpoints often only
+ * accept POST, so a 404 or 405 still shows the agent is running.
+ */
+export async function probeAgentEndpoint(card: AgentCard, timeoutMs: number): Promise<boolean> {
+  const res = await fetch(card.endpoint, { method: 'GET', signal: AbortSignal.timeout(timeoutMs) });
+  return res.status < 500;
+}
+
+/**
+ * Registry for agent cards, kept in memory and saved to an AgentStore after every change.
+ * `start()` loads the saved entries and probes every agent periodically; agents that stay
+ * unreachable for longer than the TTL are evicted.
  */
 export class AgentRegistry {
-  private agents: Map<string, AgentCard> = new Map();
+  private agents: Map<string, RegisteredAgent> = new Map();
+  private readonly store: AgentStore;
+  private readonly ttlMs: number;
+  private readonly probeIntervalMs: number;
+  private readonly probeTimeoutMs: number;
+  private readonly probe: (card: AgentCard, timeoutMs: number) => Promise<boolean>;
+  private readonly fetchCard: (cardUrl: string) => Promise<AgentCard>;
+  private timer: NodeJS.Timeout | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(options: AgentRegistryOptions = {}) {
+    this.store = options.store ?? new InMemoryAgentStore();
+    this.ttlMs = options.ttlMs ?? (Number(process.env.AGENT_REGISTRY_TTL_MS) || DEFAULT_TTL_MS);
+    this.probeIntervalMs = options.probeIntervalMs ?? 30 * 1000;
+    this.probeTimeoutMs = options.probeTimeoutMs ?? 5 * 1000;
+    this.probe = options.probe ?? probeAgentEndpoint;
+    this.fetchCard = options.fetchCard ?? fetchAgentCard;
+  }
 
   /**
    * Register a new agent card (or update if id already exists).
    */
-  register(card: AgentCard): boolean {
+  register(card: AgentCard, cardUrl?: string): boolean {
     if (!validateAgentCard(card)) {
       return false;
     }
-    this.agents.set(card.id, card);
+    const now = new Date().toISOString();
+    const existing = this.agents.get(card.id);
+    const url = cardUrl ?? existing?.cardUrl;
+    this.agents.set(card.id, {
+      card,
+      ...(url && { cardUrl: url }),
+      registeredAt: existing?.registeredAt ?? now,
+      lastSeenAt: now,
+      status: 'up',
+      consecutiveFailures: 0,
+      ...(existing?.recentCalls && { recentCalls: existing.recentCalls }),
+    });
+    this.persist();
     return true;
   }
 
+  /**
+   * Fetch an agent's card (e.g. https://agent.example.com/a2a/.well-known/agent.json), validate it and register it.
+   * Throws when the card cannot be fetched or is invalid.
+   */
+  async registerFromUrl(cardUrl: string): Promise<RegisteredAgent> {
+    const card = await this.fetchCard(cardUrl);
+    if (!this.register(card, cardUrl)) {
+      throw new Error(`Invalid agent card at ${cardUrl}`);
+    }
+    return this.getEntry(card.id)!;
+  }
+
+  /**
+   * Remove an agent. Returns false when it was not registered.
+   */
+  deregister(id: string): boolean {
+    const deleted = this.agents.delete(id);
+    if (deleted) this.persist();
+    return deleted;
+  }
+
   /**
    * Find all agents with a given capability.
    */
   findByCapability(capability: AgentCapability): AgentCard[] {
-    return Array.from(this.agents.values()).filter(card =>
+    return this.getAll().filter(card =>
       card.capabilities.includes(capability)
     );
   }
 
+  /**
+   * Find the agents matching every requirement of a query, best first.
+   * Ranking: reachable agents first, then by recent success rate (agents not yet called count as fully
+   * successful), newer declared `version`, and lower average latency.
+   */
+  query(query: AgentQuery = {}): AgentMatch[] {
+    const { capabilities = [], skills = [], inputModes = [], excludeDown = false } = query;
+    const matches = Array.from(this.agents.values())
+      .filter(({ card, status }) =>
+        (!excludeDown || status === 'up') &&
+        capabilities.every(capability => card.capabilities.includes(capability)) &&
+        skills.every(skill => card.skills?.includes(skill)) &&
+        (!card.defaultInputModes || inputModes.every(mimeType => acceptsMimeType(card.defaultInputModes!, mimeType))))
+      .map(entry => ({ ...entry, ...this.callStats(entry) }));
+    return matches.sort((a, b) =>
+      Number(a.status === 'down') - Number(b.status === 'down') ||
+      (b.successRate ?? 1) - (a.successRate ?? 1) ||
+      compareVersions(b.card.version, a.card.version) ||
+      (a.averageLatencyMs ?? Infinity) - (b.averageLatencyMs ?? Infinity) ||
+      0);
+  }
+
+  /**
+   * Record the outcome of a call made to an agent (e.g. a delegated task), for ranking it in queries.
+   */
+  recordCall(id: string, ok: boolean, latencyMs: number): void {
+    const entry = this.agents.get(id);
+    if (!entry) return;
+    entry.recentCalls = [...(entry.recentCalls ?? []), { ok, latencyMs, at: new Date().toISOString() }].slice(-RECENT_CALLS);
+    this.persist();
+  }
+
   /**
    * Get all registered agent cards.
    */
   getAll(): AgentCard[] {
-    return Array.from(this.agents.values());
+    return Array.from(this.agents.values(), entry => entry.card);
   }
 
   /**
    * Get an agent card by id.
    */
   getById(id: string): AgentCard | undefined {
-    return this.agents.get(id);
+    return this.agents.get(id)?.card;
+  }
+
+  /**
+   * Get all registry entries, with their liveness.
+   */
+  getEntries(): RegisteredAgent[] {
+    return Array.from(this.agents.values(), entry => ({ ...entry }));
+  }
+
+  /**
+   * Get the registry entry of an agent by id.
+   */
+  getEntry(id: string): RegisteredAgent | undefined {
+    const entry = this.agents.get(id);
+    return entry && { ...entry };
+  }
+
+  /**
+   * Probe every agent once, then evict the ones not seen within the TTL.
+   * Returns the remaining entries.
+   */
+  async checkHealth(): Promise<RegisteredAgent[]> {
+    await Promise.all(Array.from(this.agents.values(), async entry => {
+      let up = false;
+      let error: string | undefined;
+      try {
+        up = await this.probe(entry.card, this.probeTimeoutMs);
+        if (!up) error = 'Endpoint returned a server error';
+      } catch (err) {
+        error = (err as Error).message;
+      }
+      const now = new Date().toISOString();
+      // The agent may have been deregistered while the probe ran
+      if (this.agents.get(entry.card.id) !== entry) return;
+      entry.lastCheckedAt = now;
+      entry.status = up ? 'up' : 'down';
+      if (up) {
+        entry.lastSeenAt = now;
+        entry.consecutiveFailures = 0;
+        delete entry.lastError;
+      } else {
+        entry.consecutiveFailures++;
+        entry.lastError = error;
+      }
+    }));
+    this.evictStale();
+    this.persist();
+    return this.getEntries();
+  }
+
+  /**
+   * Remove the agents not seen for longer than the TTL. Returns their ids.
+   */
+  evictStale(now: number = Date.now()): string[] {
+    const evicted: string[] = [];
+    for (const [id, entry] of this.agents) {
+      if (now - Date.parse(entry.lastSeenAt) > this.ttlMs) {
+        this.agents.delete(id);
+        evicted.push(id);
+      }
+    }
+    if (evicted.length > 0) {
+      console.warn(`⚠️ Evicted agents not seen for ${this.ttlMs} ms: ${evicted.join(', ')}`);
+      this.persist();
+    }
+    return evicted;
+  }
+
+  /**
+   * Load the saved entries, replacing the ones in memory.
+   */
+  async load(): Promise<void> {
+    const entries = await this.store.load();
+    this.agents = new Map(entries.map(entry => [entry.card.id, entry]));
+  }
+
+  /**
+   * Load the saved entries and start probing agents every `probeIntervalMs`.
+   * The timer does not keep the process alive.
+   */
+  async start(): Promise<void> {
+    await this.load();
+    this.stop();
+    this.timer = setInterval(() => {
+      this.checkHealth().catch(err => console.error('Agent health check failed:', err));
+    }, this.probeIntervalMs);
+    this.timer.unref?.();
+  }
+
+  /**
+   * Stop the periodic probes.
+   */
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Wait until all changes so far have been saved.
+   */
+  flush(): Promise<void> {
+    return this.saving;
+  }
+
+  private callStats({ recentCalls = [] }: RegisteredAgent): Pick<AgentMatch, 'successRate' | 'averageLatencyMs'> {
+    if (recentCalls.length === 0) return {};
+    const successes = recentCalls.filter(call => call.ok);
+    return {
+      successRate: successes.length / recentCalls.length,
+      ...(successes.length > 0 && {
+        averageLatencyMs: successes.reduce((sum, call) => sum + call.latencyMs, 0) / successes.length,
+      }),
+    };
+  }
+
+  // Save a snapshot after each change; a failed save is logged and retried with the next change
+  private persist(): void {
+    const snapshot = this.getEntries();
+    this.saving = this.saving
+      .then(() => this.store.save(snapshot))
+      .catch(err => console.error('Failed to save agent registry:', err));
   }
-} 
\ No newline at end of file
+}
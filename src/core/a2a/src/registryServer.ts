@@ -0,0 +1,75 @@
+import { AgentRegistry } from './registry';
+import { createAgentStore } from './agentStore';
+
+// Query parameters may be repeated (?skill=a&skill=b) or comma-separated (?skill=a,b)
+function listParam(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : value === undefined ? [] : [value];
+  return values.flatMap(v => String(v).split(',')).map(v => v.trim()).filter(Boolean);
+}
+
+/**
+ * Create the REST handlers of the agent registry service.
+ */
+export function createRegistryHandlers(registry: AgentRegistry) {
+  return {
+    /**
+     * Handler for POST /agents
+     * Fetches the card at `cardUrl`, validates it and registers the agent.
+     */
+    async handleRegisterAgent(req: any, res: any) {
+      const cardUrl = req.body?.cardUrl;
+      if (typeof cardUrl !== 'string' || !cardUrl) {
+        return res.status(400).json({ error: 'cardUrl is required' });
+      }
+      try {
+        const entry = await registry.registerFromUrl(cardUrl);
+        res.status(201).json(entry);
+      } catch (err) {
+        res.status(400).json({ error: (err as Error).message });
+      }
+    },
+
+    /**
+     * Handler for GET /agents
+     * Returns the registered agents matching `?capability=`, `?skill=` and `?inputMode=` (each repeatable or
+     * comma-separated, all required), best ranked first. `?status=up` leaves out unreachable agents.
+     */
+    async handleListAgents(req: any, res: any) {
+      res.json(registry.query({
+        capabilities: listParam(req.query?.capability),
+        skills: listParam(req.query?.skill),
+        inputModes: listParam(req.query?.inputMode),
+        excludeDown: req.query?.status === 'up',
+      }));
+    },
+
+    /**
+     * Handler for GET /agents/:id
+     * Returns a registered agent by ID.
+     */
+    async handleGetAgent(req: any, res: any) {
+      const entry = registry.getEntry(req.params.id);
+      if (!entry) return res.status(404).json({ error: 'Agent not found' });
+      res.json(entry);
+    },
+
+    /**
+     * Handler for DELETE /agents/:id
+     * Deregisters an agent.
+     */
+    async handleDeregisterAgent(req: any, res: any) {
+      if (!registry.deregister(req.params.id)) return res.status(404).json({ error: 'Agent not found' });
+      res.status(204).end();
+    },
+  };
+}
+
+// Default registry for production use, saved to AGENT_REGISTRY_PATH when set
+export const agentRegistry = new AgentRegistry({ store: createAgentStore() });
+
+export const {
+  handleRegisterAgent,
+  handleListAgents,
+  handleGetAgent,
+  handleDeregisterAgent,
+} = createRegistryHandlers(agentRegistry);
@@ -1,4 +1,3 @@
 import { Router } from 'express';
 
-declare const router: Router;
-export default router; 
\ No newline at end of file
+export function createOrchestratorRouter(env?: NodeJS.ProcessEnv): Router;
@@ -1,35 +1,84 @@
-import express from 'express';
+import express, { Router } from 'express';
+import { createHandlers } from './server';
+import { createJsonRpcHandler, handleJsonRpcParseError } from './jsonrpc';
+import { validateTask, validateMessage } from './schema';
+import { createDelegation, workerSecretsFromEnv } from './delegation';
+import { authSecretsFromEnv, captureRawBody, createAuthMiddleware } from './auth';
 import {
-  handleSendTask,
-  handleSendSubscribe,
-  handleGetTask,
-  handleSendMessage,
-  handleCancelTask,
-  handleGetArtifacts,
-  handleListTasks,
-} from './server';
-
-const router = express.Router();
-
-// A2A protocol endpoints
-router.post('/tasks/send', handleSendTask);
-router.post('/tasks/sendSubscribe', handleSendSubscribe);
-router.get('/tasks/:id', handleGetTask);
-router.post('/tasks/:id/messages', handleSendMessage);
-router.post('/tasks/:id/cancel', handleCancelTask);
-router.get('/tasks/:id/artifacts', handleGetArtifacts);
-router.get('/tasks', handleListTasks);
-
-// Add A2A protocol routes here
-router.get('/.well-known/agent.json', (req, res) => {
-  res.json({
-    id: 'orchestrator-001',
-    name: 'A2A Orchestrator',
-    description: 'Routes and delegates tasks to registered worker agents',
-    endpoint: `${req.protocol}://${req.get('host')}/a2a`,
-    capabilities: ['task-routing', 'agent-registry'],
-    skills: ['multi-agent', 'task-decomposition']
+  agentRegistry,
+  handleRegisterAgent,
+  handleListAgents,
+  handleGetAgent,
+  handleDeregisterAgent,
+} from './registryServer';
+
+/**
+ * Create the orchestrator's Express router: the A2A task endpoints, delegated to the registered worker agents,
+ * and the agent registry service. Creating it starts the registry (saved agents are loaded and probed).
+ *
+ * The task endpoints and registry changes need an API key from `A2A_API_KEYS`; it throws without one.
+ */
+export function createOrchestratorRouter(env: NodeJS.ProcessEnv = process.env): Router {
+  // Tasks are delegated to the registered worker agents; the local task store mirrors their progress
+  const workerSecrets = workerSecretsFromEnv(env);
+  const delegation = createDelegation({ registry: agentRegistry, credentialsFor: card => workerSecrets[card.id] });
+  const {
+    handleSendTask,
+    handleSendSubscribe,
+    handleGetTask,
+    handleSendMessage,
+    handleCancelTask,
+    handleGetArtifacts,
+    handleGetArtifact,
+    handleListTasks,
+  } = createHandlers({ ...delegation, validateTask, validateMessage });
+  const handleJsonRpc = createJsonRpcHandler({ ...delegation, validateTask, validateMessage });
+
+  // Tasks are run by the workers with the orchestrator's credentials, and registering an agent decides where
+  // tasks (and their worker secrets) are sent, so both need an API key
+  const requireAuth = createAuthMiddleware({ type: 'apiKey' }, authSecretsFromEnv(env));
+
+  const router = express.Router();
+  // Parsed here so that malformed JSON-RPC bodies reach handleJsonRpcParseError below
+  router.use(express.json({ verify: captureRawBody }));
+
+  // A2A JSON-RPC endpoint (tasks/send, tasks/get, tasks/cancel, tasks/sendSubscribe)
+  router.post('/', requireAuth, handleJsonRpc);
+
+  // A2A protocol endpoints (REST)
+  router.use('/tasks', requireAuth);
+  router.post('/tasks/send', handleSendTask);
+  router.post('/tasks/sendSubscribe', handleSendSubscribe);
+  router.get('/tasks/:id', handleGetTask);
+  router.post('/tasks/:id/messages', handleSendMessage);
+  router.post('/tasks/:id/cancel', handleCancelTask);
+  router.get('/tasks/:id/artifacts', handleGetArtifacts);
+  router.get('/tasks/:id/artifacts/:artifactId', handleGetArtifact);
+  router.get('/tasks', handleListTasks);
+  router.use(handleJsonRpcParseError);
+
+  // Agent registry service (register, query and deregister worker agents)
+  router.post('/agents', requireAuth, handleRegisterAgent);
+  router.get('/agents', handleListAgents);
+  router.get('/agents/:id', handleGetAgent);
+  router.delete('/agents/:id', requireAuth, handleDeregisterAgent);
+
+  // Load saved agents and start the liveness probes
+  agentRegistry.start().catch(err => console.error('Failed to start agent registry:', err));
+
+  // Add A2A protocol routes here
+  router.get('/.well-known/agent.json', (req, res) => {
+    res.json({
+      id: 'orchestrator-001',
+      name: 'A2A Orchestrator',
+      description: 'Routes and delegates tasks to registered worker agents',
+      endpoint: `${req.protocol}://${req.get('host')}/a2a`,
+      capabilities: ['task-routing', 'agent-registry'],
+      preferredTransport: 'JSONRPC',
+      skills: ['multi-agent', 'task-decomposition'],
+      authentication: { type: 'apiKey' },
+    });
   });
-});
 
-export default router; 
\ No newline at end of file
+  return router;
+}
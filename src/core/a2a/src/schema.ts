@@ -1,9 +1,12 @@
 import { z } from 'zod';
 
+// Schemas are the single source of truth for A2A data structures; types.ts infers the TS types from them.
+
 // Part schemas
 export const TextPartSchema = z.object({
   type: z.literal('text'),
   text: z.string(),
+  metadata: z.record(z.unknown()).optional(),
 });
 
 export const FilePartSchema = z.object({
@@ -11,12 +14,14 @@ export const FilePartSchema = z.object({
   filename: z.string(),
   contentType: z.string(),
   data: z.string(), // base64
+  metadata: z.record(z.unknown()).optional(),
 });
 
 export const DataPartSchema = z.object({
   type: z.literal('data'),
   mimeType: z.string(),
-  data: z.unknown(),
+  data: z.any(),
+  metadata: z.record(z.unknown()).optional(),
 });
 
 export const PartSchema = z.discriminatedUnion('type', [TextPartSchema, FilePartSchema, DataPartSchema]);
@@ -26,25 +31,79 @@ export const MessageSchema = z.object({
   id: z.string(),
   role: z.enum(['user', 'agent']),
   parts: z.array(PartSchema),
+  metadata: z.record(z.unknown()).optional(),
 });
 
 // Artifact schema
 export const ArtifactSchema = z.object({
   id: z.string(),
   type: z.string(),
+  name: z.string().optional(),
+  description: z.string().optional(),
   url: z.string().optional(),
   data: z.unknown().optional(),
+  parts: z.array(PartSchema).optional(),
+  index: z.number().int().nonnegative().optional(),
+  append: z.boolean().optional(),
+  lastChunk: z.boolean().optional(),
+  metadata: z.record(z.unknown()).optional(),
+}).catchall(z.unknown());
+
+// Task status schemas
+export const TaskStatusSchema = z.enum(['submitted', 'working', 'input-required', 'completed', 'failed', 'canceled']);
+
+export const TaskStatusInfoSchema = z.object({
+  state: TaskStatusSchema,
+  timestamp: z.string(),
+  message: MessageSchema.optional(),
+});
+
+// One status change of a task; `from` is absent for the initial 'submitted' entry
+export const TaskStatusTransitionSchema = z.object({
+  from: TaskStatusSchema.optional(),
+  to: TaskStatusSchema,
+  timestamp: z.string(),
+  reason: z.string().optional(),
+  message: MessageSchema.optional(),
 });
 
 // Task schema
 export const TaskSchema = z.object({
   id: z.string(),
-  status: z.enum(['submitted', 'working', 'input-required', 'completed', 'failed', 'canceled']),
+  sessionId: z.string().optional(),
+  name: z.string().optional(),
+  description: z.string().optional(),
+  status: TaskStatusInfoSchema,
+  statusHistory: z.array(TaskStatusTransitionSchema).optional(),
   createdAt: z.string(),
   updatedAt: z.string(),
   input: MessageSchema,
   output: MessageSchema.optional(),
+  result: MessageSchema.optional(),
+  history: z.array(MessageSchema).optional(),
   artifacts: z.array(ArtifactSchema).optional(),
+  metadata: z.record(z.unknown()).optional(),
+  assignedTo: z.string().optional(),
+  capabilities: z.array(z.string()).optional(),
+  endpoint: z.string().optional(),
+  progress: z.number().optional(),
+  parentId: z.string().optional(),
+  children: z.array(z.string()).optional(),
+}).catchall(z.unknown());
+
+// Streaming event schemas (sent over SSE by tasks/sendSubscribe)
+export const TaskStatusUpdateEventSchema = z.object({
+  id: z.string(),
+  status: TaskStatusInfoSchema,
+  final: z.boolean(),
+  metadata: z.record(z.unknown()).optional(),
+});
+
+export const TaskArtifactUpdateEventSchema = z.object({
+  id: z.string(),
+  artifact: ArtifactSchema,
+  final: z.boolean().optional(),
+  metadata: z.record(z.unknown()).optional(),
 });
 
 // AgentCard schema
@@ -55,10 +114,14 @@ export const AgentCardSchema = z.object({
   endpoint: z.string(),
   capabilities: z.array(z.string()),
   skills: z.array(z.string()).optional(),
+  /** MIME types the agent accepts in task input parts (any type when absent); wildcards like `image/*` are allowed */
+  defaultInputModes: z.array(z.string()).optional(),
+  version: z.string().optional(),
   contact: z.string().optional(),
   authentication: z.object({
     type: z.string(),
   }).catchall(z.unknown()).optional(),
+  preferredTransport: z.enum(['JSONRPC', 'REST']).optional(),
 }).catchall(z.unknown());
 
 // Validation helpers
@@ -76,4 +139,4 @@ export function validatePart(part: unknown) {
 }
 export function validateArtifact(artifact: unknown) {
   return ArtifactSchema.safeParse(artifact);
-} 
\ No newline at end of file
+}
@@ -1,9 +1,12 @@
-import { Task, Message, Artifact } from './types';
+import { Task, Message, Artifact, TaskStreamEvent } from './types';
 import * as tasks from './tasks';
 import * as artifacts from './artifacts';
 import { validateTask, validateMessage } from './schema';
+import { InvalidTransitionError } from './taskLifecycle';
+import { A2AError } from './errors';
+import { v4 as uuidv4 } from 'uuid';
 
-interface TasksModule {
+export interface TasksModule {
   createTask: (...args: any[]) => Promise<Task>;
   getTask: (...args: any[]) => Promise<Task | undefined>;
   addMessageToTask: (...args: any[]) => Promise<Task | undefined>;
@@ -11,28 +14,111 @@ interface TasksModule {
   listTasks: (...args: any[]) => Promise<Task[]>;
 }
 
-interface ArtifactsModule {
+export interface ArtifactsModule {
   getArtifactsForTask: (...args: any[]) => Promise<Artifact[]>;
+  getArtifactById: (...args: any[]) => Promise<Artifact | undefined>;
 }
 
-interface CreateHandlersDeps {
+export interface CreateHandlersDeps {
   tasks: TasksModule;
   artifacts: ArtifactsModule;
   validateTask: (...args: any[]) => { success: boolean; error?: any };
   validateMessage: (...args: any[]) => { success: boolean; error?: any };
+  /** Optional agent-specific check of a new task's input, run after `validateTask` (e.g. a zod schema for the DataPart) */
+  validateInput?: (payload: any) => { success: boolean; error?: any };
 }
 
-export function createHandlers({ tasks, artifacts, validateTask, validateMessage }: CreateHandlersDeps) {
+/**
+ * Open a Server-Sent Events stream on the response.
+ * Each event is written as a single `data:` frame containing the JSON-encoded event.
+ */
+function openEventStream(res: any) {
+  let closed = false;
+  res.on?.('close', () => { closed = true; });
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders?.();
+  return {
+    send(event: unknown) {
+      if (!closed) res.write(`data: ${JSON.stringify(event)}\n\n`);
+    },
+    close() {
+      if (!closed) res.end();
+      closed = true;
+    },
+  };
+}
+
+/**
+ * Create a task and stream its events to the response over SSE until a final status is sent.
+ * `frame` wraps each event before it is written (e.g. in a JSON-RPC response envelope).
+ */
+export async function streamTask(
+  tasks: TasksModule,
+  payload: any,
+  res: any,
+  frame: (event: TaskStreamEvent) => unknown = event => event
+): Promise<void> {
+  const stream = openEventStream(res);
+  let finalSent = false;
+  const onEvent = (event: TaskStreamEvent) => {
+    if (finalSent) return;
+    if ('status' in event && event.final) finalSent = true;
+    stream.send(frame(event));
+  };
+  try {
+    const createdTask = await tasks.createTask(payload, { onEvent });
+    // Close the stream with the task's latest state if the task logic did not emit a final event itself
+    onEvent({
+      id: createdTask.id,
+      status: createdTask.status,
+      final: true,
+    });
+  } catch (err) {
+    onEvent({
+      id: payload?.id || '',
+      status: {
+        state: 'failed',
+        timestamp: new Date().toISOString(),
+        message: { id: uuidv4(), role: 'agent', parts: [{ type: 'text', text: (err as Error).message }] },
+      },
+      final: true,
+    });
+  }
+  stream.close();
+}
+
+/**
+ * Answer a failed task update: 409 Conflict for a status change the task lifecycle refused, 502 Bad Gateway
+ * when a call to another agent failed (delegated tasks), 500 otherwise.
+ */
+function sendTaskError(res: any, err: unknown) {
+  if (err instanceof InvalidTransitionError) {
+    return res.status(409).json({ error: err.message, state: err.from, requestedState: err.to });
+  }
+  res.status(err instanceof A2AError ? 502 : 500).json({ error: (err as Error).message });
+}
+
+export function createHandlers({ tasks, artifacts, validateTask, validateMessage, validateInput }: CreateHandlersDeps) {
+  // Validate a new task payload; returns the 400 response body on failure
+  const checkNewTask = (payload: any) => {
+    const validation = validateTask({ ...payload, id: 'temp', createdAt: '', updatedAt: '', status: { state: 'submitted', timestamp: '' } });
+    if (!validation.success) return { error: 'Invalid task', details: validation.error.errors };
+    const inputValidation = validateInput?.(payload);
+    if (inputValidation && !inputValidation.success) return { error: 'Invalid task input', details: inputValidation.error.errors };
+    return undefined;
+  };
+
   return {
     /**
      * Handler for POST /tasks/send
      * Accepts a new task and returns the created Task.
      */
     async handleSendTask(req: any, res: any) {
-      const validation = validateTask({ ...req.body, id: 'temp', createdAt: '', updatedAt: '', status: 'submitted' });
-      if (!validation.success) {
-        return res.status(400).json({ error: 'Invalid task', details: validation.error.errors });
-      }
+      const invalid = checkNewTask(req.body);
+      if (invalid) return res.status(400).json(invalid);
       try {
         const createdTask = await tasks.createTask(req.body);
         res.status(201).json(createdTask);
@@ -43,20 +129,13 @@ export function createHandlers({ tasks, artifacts, validateTask, validateMessage
 
     /**
      * Handler for POST /tasks/sendSubscribe
-     * Accepts a new task and subscribes for updates.
-     * (For now, same as sendTask; extend for streaming later.)
+     * Accepts a new task and streams TaskStatusUpdateEvent / TaskArtifactUpdateEvent frames over SSE
+     * until the task reaches a final state.
      */
     async handleSendSubscribe(req: any, res: any) {
-      const validation = validateTask({ ...req.body, id: 'temp', createdAt: '', updatedAt: '', status: 'submitted' });
-      if (!validation.success) {
-        return res.status(400).json({ error: 'Invalid task', details: validation.error.errors });
-      }
-      try {
-        const createdTask = await tasks.createTask(req.body);
-        res.status(201).json(createdTask);
-      } catch (err) {
-        res.status(400).json({ error: (err as Error).message });
-      }
+      const invalid = checkNewTask(req.body);
+      if (invalid) return res.status(400).json(invalid);
+      await streamTask(tasks, req.body, res);
     },
 
     /**
@@ -78,28 +157,49 @@ export function createHandlers({ tasks, artifacts, validateTask, validateMessage
       if (!validation.success) {
         return res.status(400).json({ error: 'Invalid message', details: validation.error.errors });
       }
-      const updated = await tasks.addMessageToTask(req.params.id, req.body);
-      if (!updated) return res.status(404).json({ error: 'Task not found' });
-      res.json(updated);
+      try {
+        const updated = await tasks.addMessageToTask(req.params.id, req.body);
+        if (!updated) return res.status(404).json({ error: 'Task not found' });
+        res.json(updated);
+      } catch (err) {
+        sendTaskError(res, err);
+      }
     },
 
     /**
      * Handler for POST /tasks/:id/cancel
-     * Cancels a running task.
+     * Cancels a running task; 409 when the task has already finished.
      */
     async handleCancelTask(req: any, res: any) {
-      const updated = await tasks.cancelTask(req.params.id);
-      if (!updated) return res.status(404).json({ error: 'Task not found' });
-      res.json(updated);
+      try {
+        const updated = await tasks.cancelTask(req.params.id);
+        if (!updated) return res.status(404).json({ error: 'Task not found' });
+        res.json(updated);
+      } catch (err) {
+        sendTaskError(res, err);
+      }
     },
 
     /**
      * Handler for GET /tasks/:id/artifacts
-     * Returns artifacts for a task.
+     * Returns artifacts for a task: those saved with the task (which outlive a restart when the task store
+     * is persisted) and those in the artifact store.
      */
     async handleGetArtifacts(req: any, res: any) {
-      const result = await artifacts.getArtifactsForTask(req.params.id);
-      res.json(result);
+      const [task, stored] = await Promise.all([tasks.getTask(req.params.id), artifacts.getArtifactsForTask(req.params.id)]);
+      const saved: Artifact[] = task?.artifacts ?? [];
+      res.json([...saved, ...stored.filter((artifact: Artifact) => !saved.some(s => s.id === artifact.id))]);
+    },
+
+    /**
+     * Handler for GET /tasks/:id/artifacts/:artifactId
+     * Returns a single artifact of a task, from the artifact store or the task itself.
+     */
+    async handleGetArtifact(req: any, res: any) {
+      const artifact = (await artifacts.getArtifactById(req.params.id, req.params.artifactId))
+        ?? (await tasks.getTask(req.params.id))?.artifacts?.find((a: Artifact) => a.id === req.params.artifactId);
+      if (!artifact) return res.status(404).json({ error: 'Artifact not found' });
+      res.json(artifact);
     },
 
     /**
@@ -121,5 +221,6 @@ export const {
   handleSendMessage,
   handleCancelTask,
   handleGetArtifacts,
+  handleGetArtifact,
   handleListTasks,
 } = createHandlers({ tasks, artifacts, validateTask, validateMessage }); 
\ No newline at end of file
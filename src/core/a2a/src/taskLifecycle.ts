@@ -0,0 +1,90 @@
+import { Message, Task, TaskStatus, TaskStatusTransition } from './types';
+
+/**
+ * Allowed status changes. Completed, failed and canceled tasks are final, except that a follow-up message
+ * may reopen a completed task (`working`) to refine its result. Staying in a non-final state (e.g. a
+ * 'working' task reporting progress) is an update, not a transition.
+ */
+export const TASK_TRANSITIONS: Record<TaskStatus, readonly TaskStatus[]> = {
+  submitted: ['working', 'input-required', 'completed', 'failed', 'canceled'],
+  working: ['input-required', 'completed', 'failed', 'canceled'],
+  'input-required': ['working', 'completed', 'failed', 'canceled'],
+  completed: ['working'],
+  failed: [],
+  canceled: [],
+};
+
+const FINAL_STATES: readonly TaskStatus[] = ['completed', 'failed', 'canceled'];
+
+export function isFinalState(state: TaskStatus): boolean {
+  return FINAL_STATES.includes(state);
+}
+
+export function canTransition(from: TaskStatus, to: TaskStatus): boolean {
+  return TASK_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * A status change the lifecycle does not allow. The server handlers answer it with 409 Conflict.
+ */
+export class InvalidTransitionError extends Error {
+  constructor(public taskId: string, public from: TaskStatus, public to: TaskStatus) {
+    super(isFinalState(from)
+      ? `Task ${taskId} is already ${from} and cannot become ${to}`
+      : `Task ${taskId} cannot go from ${from} to ${to}`);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+export interface TransitionOptions {
+  reason?: string;
+  /** Agent message explaining the new state, set on `status.message` too */
+  message?: Message;
+  timestamp?: string;
+}
+
+/**
+ * Move a task to a new state, returning the updated task with the transition appended to its
+ * `statusHistory`. Throws InvalidTransitionError when the change is not allowed. Staying in the same
+ * non-final state only refreshes `status`.
+ */
+export function applyTransition(task: Task, to: TaskStatus, { reason, message, timestamp = new Date().toISOString() }: TransitionOptions = {}): Task {
+  const from = task.status.state;
+  const status = { state: to, timestamp, ...(message && { message }) };
+  if (from === to && !isFinalState(from)) {
+    return { ...task, status };
+  }
+  if (!canTransition(from, to)) {
+    throw new InvalidTransitionError(task.id, from, to);
+  }
+  const transition: TaskStatusTransition = { from, to, timestamp, ...(reason && { reason }), ...(message && { message }) };
+  return { ...task, status, statusHistory: [...(task.statusHistory ?? []), transition] };
+}
+
+export type TaskTransitionListener = (task: Task, transition: TaskStatusTransition) => void;
+
+/**
+ * Subscribers to the transitions of a set of tasks (e.g. to stream them or send webhooks).
+ * A failing listener is logged and does not affect the task or the other listeners.
+ */
+export class TaskTransitionEmitter {
+  private listeners = new Set<TaskTransitionListener>();
+
+  /** Subscribe to every transition; returns the function that unsubscribes. */
+  subscribe(listener: TaskTransitionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  emit(task: Task, transition: TaskStatusTransition): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(task, transition);
+      } catch (err) {
+        console.error(`Task transition listener failed for task ${task.id}:`, err);
+      }
+    }
+  }
+}
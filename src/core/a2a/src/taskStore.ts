@@ -0,0 +1,119 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Task } from './types';
+
+/**
+ * Storage backend for tasks.
+ * Implementations must return copies so callers cannot mutate stored state by accident.
+ */
+export interface TaskStore {
+  get(id: string): Promise<Task | undefined>;
+  save(task: Task): Promise<Task>;
+  delete(id: string): Promise<boolean>;
+  list(): Promise<Task[]>;
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * In-memory task store. Contents are lost when the process exits.
+ */
+export class InMemoryTaskStore implements TaskStore {
+  private tasks: Map<string, Task> = new Map();
+
+  async get(id: string): Promise<Task | undefined> {
+    const task = this.tasks.get(id);
+    return task && clone(task);
+  }
+
+  async save(task: Task): Promise<Task> {
+    this.tasks.set(task.id, clone(task));
+    return task;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.tasks.delete(id);
+  }
+
+  async list(): Promise<Task[]> {
+    return Array.from(this.tasks.values(), clone);
+  }
+}
+
+/**
+ * File-backed task store that persists all tasks to a single JSON file.
+ * The file is read once on first successful access; every write rewrites it atomically (temp file + rename).
+ */
+export class FileTaskStore implements TaskStore {
+  private tasks: Map<string, Task> | null = null;
+  private loading: Promise<Map<string, Task>> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async get(id: string): Promise<Task | undefined> {
+    const task = (await this.load()).get(id);
+    return task && clone(task);
+  }
+
+  async save(task: Task): Promise<Task> {
+    (await this.load()).set(task.id, clone(task));
+    await this.persist();
+    return task;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const deleted = (await this.load()).delete(id);
+    if (deleted) await this.persist();
+    return deleted;
+  }
+
+  async list(): Promise<Task[]> {
+    return Array.from((await this.load()).values(), clone);
+  }
+
+  private load(): Promise<Map<string, Task>> {
+    if (this.tasks) return Promise.resolve(this.tasks);
+    if (!this.loading) {
+      this.loading = (async () => {
+        let entries: Record<string, Task> = {};
+        try {
+          entries = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+        } catch (err: any) {
+          if (err?.code !== 'ENOENT') {
+            throw new Error(`Failed to load task store from ${this.filePath}: ${err.message}`);
+          }
+        }
+        this.tasks = new Map(Object.entries(entries));
+        return this.tasks;
+      })();
+      // A failed load is retried on the next access (e.g. once the file has been repaired)
+      this.loading.catch(() => {
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  // Writes are chained so concurrent saves never interleave on disk
+  private persist(): Promise<void> {
+    const write = async () => {
+      const snapshot = JSON.stringify(Object.fromEntries(this.tasks!), null, 2);
+      const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tmpPath, snapshot, 'utf8');
+      await fs.rename(tmpPath, this.filePath);
+    };
+    this.writeQueue = this.writeQueue.then(write, write);
+    return this.writeQueue;
+  }
+}
+
+/**
+ * Create a task store: file-backed when a path is given (defaults to TASK_STORE_PATH), otherwise in-memory.
+ */
+export function createTaskStore(filePath: string | undefined = process.env.TASK_STORE_PATH): TaskStore {
+  return filePath ? new FileTaskStore(filePath) : new InMemoryTaskStore();
+}
@@ -1,8 +1,45 @@
 import { Task, Message, TaskStatus } from './types';
 import { v4 as uuidv4 } from 'uuid';
+import { TaskStore, createTaskStore } from './taskStore';
+import { TaskTransitionEmitter, TaskTransitionListener, TransitionOptions, applyTransition } from './taskLifecycle';
 
-// In-memory task store
-const tasks = new Map<string, Task>();
+// Task store (in-memory unless TASK_STORE_PATH is set)
+let store: TaskStore = createTaskStore();
+
+/**
+ * Replace the task store used by this module (e.g., a FileTaskStore for persistence).
+ */
+export function setTaskStore(taskStore: TaskStore): void {
+  store = taskStore;
+}
+
+/**
+ * Get the task store used by this module.
+ */
+export function getTaskStore(): TaskStore {
+  return store;
+}
+
+const transitions = new TaskTransitionEmitter();
+
+/**
+ * Subscribe to the status transitions of every task (after they are saved). Returns the unsubscribe function.
+ */
+export function onTaskTransition(listener: TaskTransitionListener): () => void {
+  return transitions.subscribe(listener);
+}
+
+/**
+ * Save a task and notify listeners of the transitions it gained since `before` (the stored version it was changed from).
+ */
+export async function saveWithTransitions(task: Task, before?: Task): Promise<Task> {
+  const saved = await store.save(task);
+  const recorded = before?.statusHistory?.length ?? 0;
+  for (const transition of (saved.statusHistory ?? []).slice(recorded)) {
+    transitions.emit(saved, transition);
+  }
+  return saved;
+}
 
 /**
  * Create a new task from a payload (partial Task or input Message).
@@ -13,54 +50,68 @@ export async function createTask(payload: Partial<Task> & { input: Message }): P
   const task: Task = {
     ...payload,
     id,
-    status: 'submitted',
+    status: { state: 'submitted', timestamp: now },
+    statusHistory: [{ to: 'submitted', timestamp: now, reason: 'created' }],
     createdAt: now,
     updatedAt: now,
+    history: [...(payload.history || []), payload.input],
   };
-  tasks.set(id, task);
-  return task;
+  return saveWithTransitions(task);
 }
 
 /**
  * Get a task by ID.
  */
 export async function getTask(id: string): Promise<Task | undefined> {
-  return tasks.get(id);
+  return store.get(id);
 }
 
 /**
- * Update a task (partial update).
+ * Update a task (partial update). A new `status` goes through the task lifecycle: it is recorded in
+ * `statusHistory` (with `reason`), and an illegal change throws InvalidTransitionError.
  */
-export async function updateTask(id: string, updates: Partial<Task>): Promise<Task | undefined> {
-  const task = tasks.get(id);
+export async function updateTask(id: string, updates: Partial<Task>, reason?: string): Promise<Task | undefined> {
+  const task = await store.get(id);
   if (!task) return undefined;
-  const updated: Task = { ...task, ...updates, updatedAt: new Date().toISOString() };
-  tasks.set(id, updated);
-  return updated;
+  const { status, ...rest } = updates;
+  // Only the lifecycle appends to statusHistory
+  let updated: Task = { ...task, ...rest, statusHistory: task.statusHistory, updatedAt: new Date().toISOString() };
+  if (status) {
+    updated = applyTransition(updated, status.state, { reason, message: status.message, timestamp: status.timestamp });
+  }
+  return saveWithTransitions(updated, task);
 }
 
 /**
- * Cancel a running task.
+ * Move a task to a new state. Throws InvalidTransitionError when the lifecycle does not allow it.
  */
-export async function cancelTask(id: string): Promise<Task | undefined> {
-  return updateTask(id, { status: 'canceled' });
+export async function transitionTask(id: string, state: TaskStatus, options: TransitionOptions = {}): Promise<Task | undefined> {
+  const task = await store.get(id);
+  if (!task) return undefined;
+  const updated = applyTransition({ ...task, updatedAt: new Date().toISOString() }, state, options);
+  return saveWithTransitions(updated, task);
+}
+
+/**
+ * Cancel a running task. Finished tasks cannot be canceled (InvalidTransitionError).
+ */
+export async function cancelTask(id: string, reason = 'canceled by request'): Promise<Task | undefined> {
+  return transitionTask(id, 'canceled', { reason });
 }
 
 /**
  * Add a message to a task (for input-required or chat flows).
  */
 export async function addMessageToTask(id: string, message: Message): Promise<Task | undefined> {
-  const task = tasks.get(id);
+  const task = await store.get(id);
   if (!task) return undefined;
-  // For simplicity, store latest message as output (extend as needed)
-  const updated: Task = { ...task, output: message, updatedAt: new Date().toISOString() };
-  tasks.set(id, updated);
-  return updated;
+  // Keep the full conversation in history; the latest message is also exposed as output
+  return updateTask(id, { output: message, history: [...(task.history || []), message] });
 }
 
 /**
  * List all tasks.
  */
 export async function listTasks(): Promise<Task[]> {
-  return Array.from(tasks.values());
-} 
\ No newline at end of file
+  return store.list();
+}
@@ -1,70 +1,54 @@
 // A2A Protocol TypeScript Types & Interfaces
+// Data structures are inferred from the zod schemas in schema.ts so the types and runtime validation cannot drift.
+import type { z } from 'zod';
+import type {
+  AgentCardSchema,
+  TaskStatusSchema,
+  TaskStatusInfoSchema,
+  TaskStatusTransitionSchema,
+  TaskSchema,
+  MessageSchema,
+  PartSchema,
+  TextPartSchema,
+  FilePartSchema,
+  DataPartSchema,
+  ArtifactSchema,
+  TaskStatusUpdateEventSchema,
+  TaskArtifactUpdateEventSchema,
+} from './schema';
 
 export type AgentCapability = string;
 export type AgentSkill = string;
 
-export interface AgentCard {
-  id: string;
-  name: string;
-  description: string;
-  endpoint: string;
-  capabilities: string[];
-  skills?: string[];
-  contact?: string;
-  authentication?: {
-    type: string;
-    [key: string]: any;
-  };
-  // Additional fields as per A2A spec
-  [key: string]: any;
-}
+export type AgentCard = z.infer<typeof AgentCardSchema>;
+export type AgentTransport = NonNullable<AgentCard['preferredTransport']>; // Defaults to 'REST' when absent
 
-export type TaskStatus = 'submitted' | 'working' | 'input-required' | 'completed' | 'failed' | 'canceled';
+export type TaskStatus = z.infer<typeof TaskStatusSchema>;
 
-export interface Task {
-  id: string;
-  status: 'submitted' | 'in_progress' | 'completed' | 'failed' | 'canceled';
-  createdAt: string;
-  updatedAt: string;
-  input: Message;
-  output?: Message;
-  assignedTo?: string;
-  capabilities?: string[];
-  artifacts?: Artifact[];
-  [key: string]: any;
-}
+/** Current state of a task, when it was entered, and an optional agent message explaining it. */
+export type TaskStatusInfo = z.infer<typeof TaskStatusInfoSchema>;
 
-export interface Message {
-  id: string;
-  role: 'user' | 'agent';
-  parts: Part[];
-  [key: string]: any;
-}
+/** A recorded status change of a task (see taskLifecycle.ts). */
+export type TaskStatusTransition = z.infer<typeof TaskStatusTransitionSchema>;
 
-export type Part = TextPart | FilePart | DataPart;
+export type Task = z.infer<typeof TaskSchema>;
 
-export interface TextPart {
-  type: 'text';
-  text: string;
-}
+export type Message = z.infer<typeof MessageSchema>;
 
-export interface FilePart {
-  type: 'file';
-  filename: string;
-  contentType: string;
-  data: string; // base64-encoded
-}
+export type Part = z.infer<typeof PartSchema>;
+export type TextPart = z.infer<typeof TextPartSchema>;
+export type FilePart = z.infer<typeof FilePartSchema>;
+export type DataPart = z.infer<typeof DataPartSchema>;
 
-export interface DataPart {
-  type: 'data';
-  mimeType: string;
-  data: any;
-}
+export type Artifact = z.infer<typeof ArtifactSchema>;
+
+// Streaming events (sent over SSE by /tasks/sendSubscribe)
+export type TaskStatusUpdateEvent = z.infer<typeof TaskStatusUpdateEventSchema>;
+export type TaskArtifactUpdateEvent = z.infer<typeof TaskArtifactUpdateEventSchema>;
+export type TaskStreamEvent = TaskStatusUpdateEvent | TaskArtifactUpdateEvent;
 
-export interface Artifact {
-  id: string;
-  type: string;
-  url?: string;
-  data?: any;
-  [key: string]: any;
-} 
\ No newline at end of file
+export type TaskEventListener = (event: TaskStreamEvent) => void;
+
+export interface CreateTaskOptions {
+  onEvent?: TaskEventListener;
+}
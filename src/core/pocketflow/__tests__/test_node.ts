@@ -3,7 +3,7 @@ import {
     BaseNodeImpl, NodeImpl, AsyncNodeImpl,
     BatchNodeImpl, AsyncBatchNodeImpl, AsyncParallelBatchNodeImpl
 } from '../node';
-import { NodeAction, SharedState, NodeParams } from '../types';
+import { NodeAction, SharedState, NodeParams, BatchItemResult, BatchOptions } from '../types';
 
 let originalWarn: any, originalError: any;
 beforeAll(() => {
@@ -61,7 +61,7 @@ describe('Node Implementations', () => {
             expect(node.successors.get('next')).toBe(nextNode);
         });
 
-        it('should warn on overwriting successors', () => {
+        it('should warn on overwriting successors', async () => {
             const consoleSpy = vi.spyOn(console, 'warn');
             const nextNode1 = new TestNode();
             const nextNode2 = new TestNode();
@@ -69,7 +69,8 @@ describe('Node Implementations', () => {
             node.next(nextNode1, 'next');
             node.next(nextNode2, 'next');
             
-            expect(consoleSpy).toHaveBeenCalled();
+            // The logger prints once the entry is written to its log file
+            await vi.waitFor(() => expect(consoleSpy).toHaveBeenCalled());
             expect(node.successors.get('next')).toBe(nextNode2);
         });
     });
@@ -267,4 +268,100 @@ describe('Node Implementations', () => {
             await expect(node.exec(items)).rejects.toThrow('Negative number');
         });
     });
-}); 
\ No newline at end of file
+
+    describe('batch options and item results', () => {
+        class CountingBatchNode extends AsyncParallelBatchNodeImpl<TestSharedState, TestNodeParams, number, TestAction> {
+            active = 0;
+            peak = 0;
+            started: number[] = [];
+            posted?: BatchItemResult<number, TestAction>[];
+
+            constructor(options: BatchOptions, private fallback: 'error' | 'throw' = 'error') {
+                super(1, 0, options);
+            }
+
+            async prep(shared: TestSharedState): Promise<any> {
+                return shared.items;
+            }
+
+            async execItem(item: number): Promise<TestAction> {
+                this.started.push(item);
+                this.peak = Math.max(this.peak, ++this.active);
+                await new Promise(resolve => setTimeout(resolve, 5));
+                this.active--;
+                if (item < 0) throw new Error(`Negative number ${item}`);
+                return 'next';
+            }
+
+            async execItemFallback(item: number, error: Error): Promise<TestAction> {
+                if (this.fallback === 'throw') throw error;
+                return 'error';
+            }
+
+            batchAction(results: BatchItemResult<number, TestAction>[]): TestAction {
+                return results.some(result => result.status !== 'fulfilled') ? 'error' : 'complete';
+            }
+
+            async post(shared: TestSharedState, prepResult: any, execResult: NodeAction | void, itemResults?: BatchItemResult<number, TestAction>[]) {
+                this.posted = itemResults;
+                return execResult;
+            }
+        }
+
+        it('should run at most maxConcurrency items at a time', async () => {
+            const node = new CountingBatchNode({ maxConcurrency: 2 });
+            const result = await node.exec([1, 2, 3, 4, 5]);
+            expect(node.peak).toBe(2);
+            expect(node.started).toEqual([1, 2, 3, 4, 5]);
+            expect(result).toBe('complete');
+        });
+
+        it('should pass the item results to post and derive the action from them', async () => {
+            const node = new CountingBatchNode({ failurePolicy: 'continue' });
+            const action = await node.run({ counter: 0, data: [], items: [1, -2, 3] });
+
+            expect(action).toBe('error');
+            expect(node.posted?.map(({ index, status, result }) => [index, status, result])).toEqual([
+                [0, 'fulfilled', 'next'],
+                [1, 'fallback', 'error'],
+                [2, 'fulfilled', 'next'],
+            ]);
+            expect(node.posted?.[1].error?.message).toBe('Negative number -2');
+        });
+
+        it('should stop starting items after the first failure when failing fast', async () => {
+            const node = new CountingBatchNode({ maxConcurrency: 1 });
+            await expect(node.exec([1, -2, 3, 4])).rejects.toThrow('Negative number -2');
+            expect(node.started).toEqual([1, -2]);
+        });
+
+        it('should collect the errors of every failed item', async () => {
+            const node = new CountingBatchNode({ failurePolicy: 'collect' }, 'throw');
+            await node.run({ counter: 0, data: [], items: [-1, 2, -3] });
+            expect(node.posted?.map(({ status, error }) => [status, error?.message])).toEqual([
+                ['rejected', 'Negative number -1'],
+                ['fulfilled', undefined],
+                ['rejected', 'Negative number -3'],
+            ]);
+        });
+
+        it('should fail a continuing batch when an item fallback throws', async () => {
+            const node = new CountingBatchNode({ failurePolicy: 'continue' }, 'throw');
+            await expect(node.exec([1, -2, 3])).rejects.toThrow('Negative number -2');
+        });
+
+        it('should let sequential batches use the item fallbacks by default', async () => {
+            const node = new class extends BatchNodeImpl<TestSharedState, TestNodeParams, number, TestAction> {
+                execItem(item: number): TestAction {
+                    if (item < 0) throw new Error('Negative number');
+                    return 'next';
+                }
+                execItemFallback(): TestAction {
+                    return 'error';
+                }
+            }();
+            await node.exec([1, -2]);
+            expect((node as any).itemResults.map((result: BatchItemResult<number, TestAction>) => result.result)).toEqual(['next', 'error']);
+        });
+    });
+});
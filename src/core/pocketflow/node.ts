@@ -1,5 +1,6 @@
 import { 
-    INode, IAsyncNode, NodeParams, SharedState, NodeAction, DEFAULT_ACTION 
+    INode, IAsyncNode, NodeParams, SharedState, NodeAction, DEFAULT_ACTION,
+    BatchFailurePolicy, BatchItemResult, BatchOptions
 } from './types';
 import { PocketFlowLogger } from './logger';
 import { sleep } from './utils';
@@ -49,6 +50,11 @@ export abstract class BaseNodeImpl<Shared extends SharedState, P extends NodePar
         return execResult; 
     }
 
+    /** Internal post step, overridden by batch nodes to hand their item results to post */
+    protected _post(shared: Shared, prepResult: any, execResult: R): Promise<R | void> | R | void {
+        return this.post(shared, prepResult, execResult);
+    }
+
     /** Internal execution logic, potentially overridden by subclasses (like NodeImpl for retries) */
     protected _exec(prepResult: any): Promise<R> | R {
         return this.exec(prepResult);
@@ -62,7 +68,7 @@ export abstract class BaseNodeImpl<Shared extends SharedState, P extends NodePar
             this.logger.progress(this.constructor.name, 'Executing node');
             const execResult = await this._exec(prepResult);
             this.logger.progress(this.constructor.name, 'Finalizing node execution');
-            const result = await this.post(shared, prepResult, execResult);
+            const result = await this._post(shared, prepResult, execResult);
             this.logger.success(this.constructor.name, 'Node execution completed');
             return result;
         } catch (error: any) {
@@ -197,7 +203,7 @@ export abstract class AsyncNodeImpl<Shared extends SharedState, P extends NodePa
             this.logger.progress(this.constructor.name, 'Executing async node');
             const execResult = await this._exec(prepResult);
             this.logger.progress(this.constructor.name, 'Finalizing async node execution');
-            const result = await this.post(shared, prepResult, execResult);
+            const result = await this._post(shared, prepResult, execResult);
             this.logger.success(this.constructor.name, 'Async node execution completed');
             return result;
         } catch (error: any) {
@@ -234,6 +240,14 @@ export abstract class AsyncNodeImpl<Shared extends SharedState, P extends NodePa
     }
 }
 
+/**
+ * Throw the error of a failed batch item unless the failure policy lets the batch go on.
+ */
+function settleItem<Item, RItem>(outcome: BatchItemResult<Item, RItem>, policy: BatchFailurePolicy): void {
+    if (outcome.status === 'rejected' && policy !== 'collect') throw outcome.error;
+    if (outcome.status === 'fallback' && policy === 'fail-fast') throw outcome.error;
+}
+
 /**
  * Base class for nodes processing batches sequentially.
  * Expects prepResult to be an array of Items.
@@ -241,6 +255,15 @@ export abstract class AsyncNodeImpl<Shared extends SharedState, P extends NodePa
 export abstract class BatchNodeImpl<Shared extends SharedState, P extends NodeParams, Item, RItem extends NodeAction | void>
     extends NodeImpl<Shared, P, NodeAction | void> // Batch execution result is usually just void or a single action
 {
+    protected failurePolicy: BatchFailurePolicy;
+    // Item outcomes of the last exec, handed to post
+    protected itemResults: BatchItemResult<Item, RItem>[] = [];
+
+    constructor(maxRetries: number = 1, waitMs: number = 0, { failurePolicy = 'continue' }: BatchOptions = {}) {
+        super(maxRetries, waitMs);
+        this.failurePolicy = failurePolicy;
+    }
+
     // execItem processes a single item
     abstract execItem(item: Item): Promise<RItem> | RItem;
     // Optional fallback for a single item
@@ -248,31 +271,47 @@ export abstract class BatchNodeImpl<Shared extends SharedState, P extends NodePa
          throw error; // Default: re-throw
     }
 
-    // Override base exec - this now orchestrates the batch using _execItemWithRetry
+    /**
+     * The action returned by the batch, derived from its item outcomes.
+     * Returns nothing by default; override to e.g. branch the flow when items failed.
+     */
+    batchAction(results: BatchItemResult<Item, RItem>[]): NodeAction | void {
+        return undefined;
+    }
+
+    // Post also receives the outcome of every item
+    post(shared: Shared, prepResult: any, execResult: NodeAction | void, itemResults?: BatchItemResult<Item, RItem>[]): Promise<NodeAction | void> | NodeAction | void {
+        return execResult;
+    }
+
+    protected _post(shared: Shared, prepResult: any, execResult: NodeAction | void): Promise<NodeAction | void> | NodeAction | void {
+        return this.post(shared, prepResult, execResult, this.itemResults);
+    }
+
+    // Override base exec - this now orchestrates the batch using _execItem
     async exec(prepResult: any): Promise<NodeAction | void> {
         if (!Array.isArray(prepResult)) {
             throw new Error(`[PocketFlow] Input to BatchNode ${this.constructor.name} exec is not an array.`);
         }
         const items: Item[] = prepResult;
-        const results: RItem[] = [];
+        this.itemResults = [];
 
-        for (const item of items) {
+        for (const [index, item] of items.entries()) {
+            // Call helper that includes retry logic for the single item
+            const outcome = await this._execItem(item, index);
+            this.itemResults.push(outcome);
             try {
-                // Call helper that includes retry logic for the single item
-                const result = await this._execItemWithRetry(item);
-                results.push(result);
-                // TODO: Decide how to aggregate/handle actions returned by individual items.
+                settleItem(outcome, this.failurePolicy);
             } catch (error) { // NOSONAR
                 this.logger.error(
                     this.constructor.name,
                     'Error processing item in batch',
                     { item, error }
                 );
-                throw error; // Re-throw to halt the batch by default
+                throw error; // Re-throw to halt the batch
             }
         }
-        // Batch nodes typically return void or a fixed action after processing all items
-        return;
+        return this.batchAction(this.itemResults);
     }
     
     // Fallback for the entire batch operation (e.g., if prep failed)
@@ -285,12 +324,11 @@ export abstract class BatchNodeImpl<Shared extends SharedState, P extends NodePa
         throw error; // Default batch fallback
     }
 
-    // Helper to run execItem with the node's retry logic (implemented directly here)
-    protected async _execItemWithRetry(item: Item): Promise<RItem> {
-        let itemRetry = 0;
-        for (itemRetry = 0; itemRetry < this.maxRetries; itemRetry++) {
+    // Helper to run execItem with the node's retry logic, then execItemFallback if the item still fails
+    protected async _execItem(item: Item, index: number): Promise<BatchItemResult<Item, RItem>> {
+        for (let itemRetry = 0; itemRetry < this.maxRetries; itemRetry++) {
              try {
-                return await Promise.resolve(this.execItem(item));
+                return { item, index, status: 'fulfilled', result: await Promise.resolve(this.execItem(item)) };
             } catch (error) {
                 this.logger.warn(
                     this.constructor.name,
@@ -303,14 +341,19 @@ export abstract class BatchNodeImpl<Shared extends SharedState, P extends NodePa
                         'ExecItem exhausted all retries for item',
                         { item }
                     );
-                    return await Promise.resolve(this.execItemFallback(item, error as Error));
+                    try {
+                        const result = await Promise.resolve(this.execItemFallback(item, error as Error));
+                        return { item, index, status: 'fallback', result, error: error as Error };
+                    } catch (fallbackError) {
+                        return { item, index, status: 'rejected', error: fallbackError as Error };
+                    }
                 }
                 if (this.waitMs > 0) {
                     await sleep(this.waitMs);
                 }
             }
         }
-         throw new Error('PocketFlow: _execItemWithRetry finished loop unexpectedly.');
+         throw new Error('PocketFlow: _execItem finished loop unexpectedly.');
     }
 }
 
@@ -320,10 +363,33 @@ export abstract class BatchNodeImpl<Shared extends SharedState, P extends NodePa
 export abstract class AsyncBatchNodeImpl<Shared extends SharedState, P extends NodeParams, Item, RItem extends NodeAction | void>
     extends AsyncNodeImpl<Shared, P, NodeAction | void> // Batch result is void or single action
 {
+    protected failurePolicy: BatchFailurePolicy;
+    // Item outcomes of the last exec, handed to post
+    protected itemResults: BatchItemResult<Item, RItem>[] = [];
+
+    constructor(maxRetries: number = 1, waitMs: number = 0, { failurePolicy = 'fail-fast' }: BatchOptions = {}) {
+        super(maxRetries, waitMs);
+        this.failurePolicy = failurePolicy;
+    }
+
     // Ensure item execution is async
     abstract execItem(item: Item): Promise<RItem>;
     // Ensure item fallback is async
     abstract execItemFallback(item: Item, error: Error): Promise<RItem>;
+    // Post also receives the outcome of every item
+    abstract post(shared: Shared, prepResult: any, execResult: NodeAction | void, itemResults?: BatchItemResult<Item, RItem>[]): Promise<NodeAction | void>;
+
+    /**
+     * The action returned by the batch, derived from its item outcomes.
+     * Returns nothing by default; override to e.g. branch the flow when items failed.
+     */
+    batchAction(results: BatchItemResult<Item, RItem>[]): NodeAction | void {
+        return undefined;
+    }
+
+    protected _post(shared: Shared, prepResult: any, execResult: NodeAction | void): Promise<NodeAction | void> {
+        return this.post(shared, prepResult, execResult, this.itemResults);
+    }
 
     // Override base exec to orchestrate async batch
     async exec(prepResult: any): Promise<NodeAction | void> {
@@ -331,23 +397,24 @@ export abstract class AsyncBatchNodeImpl<Shared extends SharedState, P extends N
             throw new Error(`[PocketFlow] Input to AsyncBatchNode ${this.constructor.name} exec is not an array.`);
         }
         const items: Item[] = prepResult;
-        const results: RItem[] = [];
+        this.itemResults = [];
 
-        for (const item of items) {
+        for (const [index, item] of items.entries()) {
+            // Call async helper that includes retry logic for the single item
+            const outcome = await this._execItem(item, index);
+            this.itemResults.push(outcome);
             try {
-                // Call async helper that includes retry logic for the single item
-                const result = await this._execItemWithRetry(item);
-                results.push(result);
+                settleItem(outcome, this.failurePolicy);
             } catch (error) { // NOSONAR
                 this.logger.error(
                     this.constructor.name,
                     'Error processing item in async batch',
                     { item, error }
                 );
-                throw error; // Always re-throw to halt the batch and reject the promise
+                throw error; // Re-throw to halt the batch and reject the promise
             }
         }
-        return;
+        return this.batchAction(this.itemResults);
     }
     
     // Fallback for the entire async batch operation
@@ -360,13 +427,12 @@ export abstract class AsyncBatchNodeImpl<Shared extends SharedState, P extends N
         throw error;
     }
 
-     // Helper to run async execItem with the node's retry logic
-    protected async _execItemWithRetry(item: Item): Promise<RItem> {
-        let itemRetry = 0;
-        for (itemRetry = 0; itemRetry < this.maxRetries; itemRetry++) {
+    // Helper to run async execItem with the node's retry logic, then execItemFallback if the item still fails
+    protected async _execItem(item: Item, index: number): Promise<BatchItemResult<Item, RItem>> {
+        for (let itemRetry = 0; itemRetry < this.maxRetries; itemRetry++) {
             try {
                 // No Promise.resolve needed here as execItem is already async
-                return await this.execItem(item);
+                return { item, index, status: 'fulfilled', result: await this.execItem(item) };
             } catch (error) {
                 this.logger.warn(
                     this.constructor.name,
@@ -379,37 +445,62 @@ export abstract class AsyncBatchNodeImpl<Shared extends SharedState, P extends N
                         'ExecItem exhausted all retries',
                         { item }
                     );
-                    await this.execItemFallback(item, error as Error);
-                    throw error; // Always throw after fallback
+                    try {
+                        const result = await this.execItemFallback(item, error as Error);
+                        return { item, index, status: 'fallback', result, error: error as Error };
+                    } catch (fallbackError) {
+                        return { item, index, status: 'rejected', error: fallbackError as Error };
+                    }
                 }
                 if (this.waitMs > 0) {
                     await sleep(this.waitMs);
                 }
             }
         }
-        throw new Error('PocketFlow: _execItemWithRetry finished loop unexpectedly.');
+        throw new Error('PocketFlow: _execItem finished loop unexpectedly.');
     }
 }
 
 /**
- * Async node processing batches in parallel.
+ * Async node processing batches in parallel, at most `maxConcurrency` items at a time.
  */
 export abstract class AsyncParallelBatchNodeImpl<Shared extends SharedState, P extends NodeParams, Item, RItem extends NodeAction | void>
     extends AsyncBatchNodeImpl<Shared, P, Item, RItem>
 {
+    protected maxConcurrency: number;
+
+    constructor(maxRetries: number = 1, waitMs: number = 0, options: BatchOptions = {}) {
+        super(maxRetries, waitMs, options);
+        this.maxConcurrency = Math.max(1, options.maxConcurrency ?? Infinity);
+    }
+
     // Override exec for parallel execution
     async exec(prepResult: any): Promise<NodeAction | void> {
         if (!Array.isArray(prepResult)) {
             throw new Error(`[PocketFlow] Input to AsyncParallelBatchNode ${this.constructor.name} exec is not an array.`);
         }
         const items: Item[] = prepResult;
-       
-        // Map each item to its execution-with-retry promise
-        const promises = items.map(item => this._execItemWithRetry(item));
+        const results: BatchItemResult<Item, RItem>[] = new Array(items.length);
+        this.itemResults = results;
+
+        // Each worker takes the next waiting item until none are left; no new items start once the batch has failed
+        let nextIndex = 0;
+        let halted = false;
+        const worker = async () => {
+            while (!halted && nextIndex < items.length) {
+                const index = nextIndex++;
+                results[index] = await this._execItem(items[index], index);
+                try {
+                    settleItem(results[index], this.failurePolicy);
+                } catch (error) {
+                    halted = true;
+                    throw error;
+                }
+            }
+        };
 
         try {
-            const results = await Promise.all(promises);
-            // Process results if needed
+            await Promise.all(Array.from({ length: Math.min(this.maxConcurrency, items.length) }, worker));
         } catch(error) {
             this.logger.error(
                 this.constructor.name,
@@ -419,6 +510,6 @@ export abstract class AsyncParallelBatchNodeImpl<Shared extends SharedState, P e
             throw error; // Re-throw the first error encountered by Promise.all
         }
 
-        return; // Batch returns void/fixed action
+        return this.batchAction(results);
     }
-} 
\ No newline at end of file
+}
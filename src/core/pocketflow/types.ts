@@ -43,6 +43,36 @@ export type NodeAction = string | symbol;
  */
 export const DEFAULT_ACTION: NodeAction = Symbol('DEFAULT_ACTION');
 
+/**
+ * What a batch node does when an item still fails after its retries:
+ * - `fail-fast`: stop the batch and reject with the item's error (`execItemFallback` still runs, but its result is ignored)
+ * - `collect`: finish every item and hand the failures to `post` with their errors; the batch does not reject
+ * - `continue`: use the result of `execItemFallback` for the item; the batch rejects only if the fallback throws
+ */
+export type BatchFailurePolicy = 'fail-fast' | 'collect' | 'continue';
+
+/**
+ * Options for batch nodes.
+ */
+export interface BatchOptions {
+    /** Defaults to `continue` for BatchNodeImpl and `fail-fast` for the async batch nodes */
+    failurePolicy?: BatchFailurePolicy;
+    /** Most items processed at the same time by a parallel batch node (default: all of them) */
+    maxConcurrency?: number;
+}
+
+/**
+ * Outcome of one batch item, in item order, as passed to a batch node's `post`.
+ * `fallback` items hold the result of `execItemFallback` and the error that triggered it.
+ */
+export interface BatchItemResult<Item, RItem> {
+    item: Item;
+    index: number;
+    status: 'fulfilled' | 'fallback' | 'rejected';
+    result?: RItem;
+    error?: Error;
+}
+
 // Interface for Flow control
 export interface IFlow<Shared extends SharedState, P extends NodeParams, R extends NodeAction | void> extends INode<Shared, P, R> {
     startNode?: INode<Shared, any, any>;